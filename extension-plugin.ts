@@ -0,0 +1,55 @@
+/**
+ * Browser extension build (`vite build --mode extension`)
+ * - Writes manifest.json from src/extension/manifest.json, with the version
+ *   from package.json and the desktop app's icons
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { Plugin, ResolvedConfig } from "vite";
+
+const MANIFEST = "src/extension/manifest.json";
+const ICON_SIZES = [32, 64, 128];
+
+export default function extensionPlugin(): Plugin {
+  let config: ResolvedConfig;
+  const read = (file: string) => readFileSync(path.resolve(config.root, file));
+
+  return {
+    name: "passw-extension",
+    apply: "build",
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    generateBundle() {
+      const pkg = JSON.parse(read("package.json").toString("utf8"));
+      const manifest = JSON.parse(read(MANIFEST).toString("utf8"));
+      const icons: Record<string, string> = {};
+      for (const size of ICON_SIZES) {
+        const fileName = `icons/${size}.png`;
+        this.emitFile({
+          type: "asset",
+          fileName,
+          source: read(`src-tauri/icons/${size}x${size}.png`),
+        });
+        icons[size] = fileName;
+      }
+      this.emitFile({
+        type: "asset",
+        fileName: "manifest.json",
+        source: JSON.stringify(
+          {
+            ...manifest,
+            version: pkg.version,
+            icons,
+            action: { ...manifest.action, default_icon: icons },
+          },
+          null,
+          2
+        ),
+      });
+    },
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Installable offline PWA for the static build (`vite build --mode pages`)
+ * - Builds src/workers/service-worker.ts as sw.js and writes the version,
+ *   build id and every file of the build into it, so it precaches them all
+ * - Emits manifest.webmanifest, with an SVG icon plus 192 and 512 px PNGs,
+ *   and links it from index.html, together with a Content-Security-Policy
+ *   that allows no network connections
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import type { Plugin, ResolvedConfig } from "vite";
+
+const SW_ENTRY = "src/workers/service-worker.ts";
+const SW_FILE = "sw.js";
+const SW_BUILD_PLACEHOLDER = "__PASSW_BUILD__";
+const MANIFEST_FILE = "manifest.webmanifest";
+const ICON = "src/assets/logo.svg";
+// Raster icons for launchers that ignore SVG (Android, older Chromium);
+// the same artwork as the desktop app's icons
+const PNG_ICONS = [
+  { size: 192, file: "src-tauri/icons/android/mipmap-xxxhdpi/ic_launcher.png" },
+  { size: 512, file: "src-tauri/icons/icon.png" },
+];
+const THEME_COLOR = "#f4f4f5";
+
+// Everything is bundled, so nothing needs the network once installed.
+// Inline styles come from React style props and sonner's injected sheet.
+const CSP = [
+  "default-src 'self'",
+  "script-src 'self'",
+  "style-src 'self' 'unsafe-inline'",
+  "img-src 'self' data: blob:",
+  "connect-src 'none'",
+  "worker-src 'self'",
+  "manifest-src 'self'",
+  "object-src 'none'",
+  "base-uri 'self'",
+  "form-action 'none'",
+].join("; ");
+
+function publicFiles(dir: string, prefix = ""): string[] {
+  if (!dir || !existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? publicFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`]
+  );
+}
+
+export default function pwaPlugin(): Plugin {
+  let config: ResolvedConfig;
+  let iconRef = "";
+  let pngRefs: { size: number; ref: string }[] = [];
+
+  return {
+    name: "passw-pwa",
+    apply: "build",
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    buildStart() {
+      this.emitFile({
+        type: "chunk",
+        id: path.resolve(config.root, SW_ENTRY),
+        fileName: SW_FILE,
+      });
+      iconRef = this.emitFile({
+        type: "asset",
+        name: "icon.svg",
+        source: readFileSync(path.resolve(config.root, ICON)),
+      });
+      pngRefs = PNG_ICONS.map(({ size, file }) => ({
+        size,
+        ref: this.emitFile({
+          type: "asset",
+          name: `icon-${size}.png`,
+          source: readFileSync(path.resolve(config.root, file)),
+        }),
+      }));
+    },
+
+    transformIndexHtml() {
+      return [
+        {
+          tag: "meta",
+          attrs: { "http-equiv": "Content-Security-Policy", content: CSP },
+          injectTo: "head-prepend",
+        },
+        {
+          tag: "link",
+          attrs: { rel: "manifest", href: `${config.base}${MANIFEST_FILE}` },
+          injectTo: "head",
+        },
+        {
+          tag: "meta",
+          attrs: { name: "theme-color", content: THEME_COLOR },
+          injectTo: "head",
+        },
+      ];
+    },
+
+    generateBundle: {
+      // after index.html has been written into the bundle
+      order: "post",
+      handler(_, bundle) {
+        const pkg = JSON.parse(
+          readFileSync(path.resolve(config.root, "package.json"), "utf8")
+        );
+        this.emitFile({
+          type: "asset",
+          fileName: MANIFEST_FILE,
+          source: JSON.stringify(
+            {
+              name: "passw",
+              short_name: "passw",
+              description:
+                "Deterministic password generator that works offline",
+              start_url: "./",
+              scope: "./",
+              display: "standalone",
+              background_color: THEME_COLOR,
+              theme_color: THEME_COLOR,
+              icons: [
+                {
+                  src: this.getFileName(iconRef),
+                  sizes: "any",
+                  type: "image/svg+xml",
+                  purpose: "any",
+                },
+                ...pngRefs.map(({ size, ref }) => ({
+                  src: this.getFileName(ref),
+                  sizes: `${size}x${size}`,
+                  type: "image/png",
+                  purpose: "any",
+                })),
+              ],
+            },
+            null,
+            2
+          ),
+        });
+
+        const sw = bundle[SW_FILE];
+        if (sw?.type !== "chunk") this.error(`${SW_FILE} was not built`);
+        const contents = new Map<string, string | Uint8Array>();
+        for (const [file, item] of Object.entries(bundle)) {
+          if (file === SW_FILE || file.endsWith(".map")) continue;
+          contents.set(file, item.type === "chunk" ? item.code : item.source);
+        }
+        const publicDir = config.publicDir;
+        for (const file of publicFiles(publicDir)) {
+          if (!contents.has(file))
+            contents.set(file, readFileSync(path.join(publicDir, file)));
+        }
+        const files = Array.from(contents.keys()).sort();
+        const hash = createHash("sha256");
+        for (const file of files) hash.update(file).update(contents.get(file)!);
+
+        const info = {
+          version: pkg.version as string,
+          build: hash.digest("hex").slice(0, 12),
+          files,
+        };
+        const parts = sw.code.split(SW_BUILD_PLACEHOLDER);
+        if (parts.length !== 2)
+          this.error(`${SW_FILE} must use ${SW_BUILD_PLACEHOLDER} once`);
+        sw.code = parts.join(JSON.stringify(info));
+      },
+    },
+  };
+}
@@ -1,14 +1,474 @@
+use std::fs;
+use std::io::{ErrorKind, Write};
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::thread;
+use std::time::Duration;
+
+use tauri::Manager;
+use tauri_plugin_clipboard_manager::ClipboardExt;
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
     format!("Hello, {}! You've been greeted from Rust!", name)
 }
 
+// ---------- Site profiles and context aliases (app data dir) ----------
+fn data_path(app: &tauri::AppHandle, file: &str) -> Result<PathBuf, String> {
+    let dir = app.path().app_data_dir().map_err(|e| e.to_string())?;
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir.join(file))
+}
+
+fn read_data(app: &tauri::AppHandle, file: &str) -> Result<Option<String>, String> {
+    let path = data_path(app, file)?;
+    match fs::read_to_string(&path) {
+        Ok(data) => Ok(Some(data)),
+        Err(e) if e.kind() == ErrorKind::NotFound => Ok(None),
+        Err(e) => Err(e.to_string()),
+    }
+}
+
+fn write_data(app: &tauri::AppHandle, file: &str, data: String) -> Result<(), String> {
+    // Refuse to overwrite the file with something that is not JSON
+    serde_json::from_str::<serde_json::Value>(&data).map_err(|e| e.to_string())?;
+    let path = data_path(app, file)?;
+    // Write to a temporary file first so a crash never leaves a truncated file
+    let tmp = path.with_extension("json.tmp");
+    fs::write(&tmp, data).map_err(|e| e.to_string())?;
+    fs::rename(&tmp, &path).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+fn load_profiles(app: tauri::AppHandle) -> Result<Option<String>, String> {
+    read_data(&app, "profiles.json")
+}
+
+#[tauri::command]
+fn save_profiles(app: tauri::AppHandle, data: String) -> Result<(), String> {
+    write_data(&app, "profiles.json", data)
+}
+
+#[tauri::command]
+fn load_aliases(app: tauri::AppHandle) -> Result<Option<String>, String> {
+    read_data(&app, "aliases.json")
+}
+
+#[tauri::command]
+fn save_aliases(app: tauri::AppHandle, data: String) -> Result<(), String> {
+    write_data(&app, "aliases.json", data)
+}
+
+// ---------- Batch exports (Downloads folder) ----------
+// Creates a new file readable by the user only; an existing file gets a
+// numbered sibling instead of being replaced
+fn create_private(path: &Path) -> std::io::Result<fs::File> {
+    let mut options = fs::OpenOptions::new();
+    options.write(true).create_new(true);
+    #[cfg(unix)]
+    {
+        use std::os::unix::fs::OpenOptionsExt;
+        options.mode(0o600);
+    }
+    options.open(path)
+}
+
+#[tauri::command]
+fn save_export(app: tauri::AppHandle, name: String, data: Vec<u8>) -> Result<String, String> {
+    // Only the file name is used; the folder is always Downloads
+    let name = Path::new(&name)
+        .file_name()
+        .and_then(|n| n.to_str())
+        .ok_or("invalid file name")?
+        .to_string();
+    let dir = app.path().download_dir().map_err(|e| e.to_string())?;
+    let (stem, ext) = match name.split_once('.') {
+        Some((stem, ext)) => (stem.to_string(), format!(".{ext}")),
+        None => (name.clone(), String::new()),
+    };
+    for n in 1..100 {
+        let path = if n == 1 {
+            dir.join(&name)
+        } else {
+            dir.join(format!("{stem} ({n}){ext}"))
+        };
+        match create_private(&path) {
+            Ok(mut file) => {
+                file.write_all(&data).map_err(|e| e.to_string())?;
+                return Ok(path.to_string_lossy().into_owned());
+            }
+            Err(e) if e.kind() == ErrorKind::AlreadyExists => continue,
+            Err(e) => return Err(e.to_string()),
+        }
+    }
+    Err(format!("too many files named {name} in {}", dir.display()))
+}
+
+// ---------- Clipboard with auto-clear ----------
+#[derive(Default)]
+struct ClipboardClear {
+    // Bumped on every copy so an older timer never clears a newer copy
+    generation: AtomicU64,
+}
+
+// Clears the clipboard only if it still holds `text`, so anything the user
+// copied since then is left alone
+fn clear_if_unchanged(app: &tauri::AppHandle, text: &str) -> Result<bool, String> {
+    let clipboard = app.clipboard();
+    match clipboard.read_text() {
+        Ok(current) if current == text => {
+            clipboard.clear().map_err(|e| e.to_string())?;
+            Ok(true)
+        }
+        _ => Ok(false),
+    }
+}
+
+#[tauri::command]
+fn copy_secret(
+    app: tauri::AppHandle,
+    state: tauri::State<'_, ClipboardClear>,
+    text: String,
+    clear_after_ms: u64,
+) -> Result<(), String> {
+    app.clipboard()
+        .write_text(text.clone())
+        .map_err(|e| e.to_string())?;
+    let generation = state.generation.fetch_add(1, Ordering::SeqCst) + 1;
+    if clear_after_ms == 0 {
+        return Ok(());
+    }
+    thread::spawn(move || {
+        thread::sleep(Duration::from_millis(clear_after_ms));
+        let state = app.state::<ClipboardClear>();
+        if state.generation.load(Ordering::SeqCst) == generation {
+            let _ = clear_if_unchanged(&app, &text);
+        }
+    });
+    Ok(())
+}
+
+#[tauri::command]
+fn clear_secret(app: tauri::AppHandle, text: String) -> Result<bool, String> {
+    clear_if_unchanged(&app, &text)
+}
+
+// ---------- Key derivation (native counterpart of src/utils/kdf.ts) ----------
+// The phrase arrives NFKC-normalised and UTF-8 encoded, with every parameter
+// already resolved and validated by `deriveKey`, so both paths hash the same
+// bytes. The tests below pin the output to vectors recorded from the
+// TypeScript implementation.
+#[derive(serde::Deserialize)]
+#[serde(tag = "algorithm", rename_all = "lowercase")]
+enum KdfParams {
+    Pbkdf2 {
+        iterations: u32,
+    },
+    Argon2id {
+        #[serde(rename = "memoryKiB")]
+        memory_kib: u32,
+        #[serde(rename = "timeCost")]
+        time_cost: u32,
+        parallelism: u32,
+    },
+    Scrypt {
+        cost: u64,
+        #[serde(rename = "blockSize")]
+        block_size: u32,
+        parallelism: u32,
+    },
+}
+
+fn derive(password: &[u8], salt: &[u8], len: usize, kdf: &KdfParams) -> Result<Vec<u8>, String> {
+    let mut out = vec![0u8; len];
+    match *kdf {
+        KdfParams::Pbkdf2 { iterations } => {
+            pbkdf2::pbkdf2_hmac::<sha2::Sha256>(password, salt, iterations, &mut out);
+        }
+        KdfParams::Argon2id {
+            memory_kib,
+            time_cost,
+            parallelism,
+        } => {
+            let params = argon2::Params::new(memory_kib, time_cost, parallelism, Some(len))
+                .map_err(|e| e.to_string())?;
+            argon2::Argon2::new(argon2::Algorithm::Argon2id, argon2::Version::V0x13, params)
+                .hash_password_into(password, salt, &mut out)
+                .map_err(|e| e.to_string())?;
+        }
+        KdfParams::Scrypt {
+            cost,
+            block_size,
+            parallelism,
+        } => {
+            if cost < 2 || !cost.is_power_of_two() {
+                return Err("scrypt cost must be a power of two".into());
+            }
+            // The length in Params only matters for PHC strings; `out` sets the real one
+            let params = scrypt::Params::new(
+                cost.trailing_zeros() as u8,
+                block_size,
+                parallelism,
+                scrypt::Params::RECOMMENDED_LEN,
+            )
+            .map_err(|e| e.to_string())?;
+            scrypt::scrypt(password, salt, &params, &mut out).map_err(|e| e.to_string())?;
+        }
+    }
+    Ok(out)
+}
+
+#[tauri::command]
+async fn derive_key(
+    password: Vec<u8>,
+    salt: Vec<u8>,
+    bits: usize,
+    kdf: KdfParams,
+) -> Result<Vec<u8>, String> {
+    if bits == 0 || bits % 8 != 0 {
+        return Err("bits must be a positive multiple of 8".into());
+    }
+    // CPU-bound for up to seconds: keep it off the async runtime's threads
+    tauri::async_runtime::spawn_blocking(move || {
+        let mut password = password;
+        let out = derive(&password, &salt, bits / 8, &kdf);
+        password.fill(0);
+        out
+    })
+    .await
+    .map_err(|e| e.to_string())?
+}
+
+// ---------- Tray icon and quick-generate popup (src/components/quick-generate.tsx) ----------
+// The popup window is created hidden at startup (tauri.conf.json) so the
+// shortcut only has to show it
+#[cfg(desktop)]
+const QUICK_SHORTCUT: &str = "CommandOrControl+Alt+P";
+
+#[cfg(desktop)]
+fn show_window(app: &tauri::AppHandle, label: &str) {
+    if let Some(window) = app.get_webview_window(label) {
+        let _ = window.unminimize();
+        let _ = window.show();
+        let _ = window.set_focus();
+    }
+}
+
+#[cfg(desktop)]
+fn toggle_quick(app: &tauri::AppHandle) {
+    let Some(window) = app.get_webview_window("quick") else {
+        return;
+    };
+    if window.is_visible().unwrap_or(false) {
+        let _ = window.hide();
+    } else {
+        let _ = window.center();
+        show_window(app, "quick");
+    }
+}
+
+#[cfg(desktop)]
+fn setup_tray(app: &tauri::App) -> tauri::Result<()> {
+    use tauri::menu::{Menu, MenuItem, PredefinedMenuItem};
+    use tauri::tray::{MouseButton, MouseButtonState, TrayIconBuilder, TrayIconEvent};
+
+    let quick = MenuItem::with_id(app, "quick", "Quick generate", true, Some(QUICK_SHORTCUT))?;
+    let open = MenuItem::with_id(app, "open", "Open passw", true, None::<&str>)?;
+    let separator = PredefinedMenuItem::separator(app)?;
+    let quit = MenuItem::with_id(app, "quit", "Quit", true, None::<&str>)?;
+    let menu = Menu::with_items(app, &[&quick, &open, &separator, &quit])?;
+
+    let mut tray = TrayIconBuilder::with_id("main")
+        .tooltip("passw")
+        .menu(&menu)
+        .show_menu_on_left_click(false)
+        .on_menu_event(|app, event| match event.id.as_ref() {
+            "quick" => toggle_quick(app),
+            "open" => show_window(app, "main"),
+            "quit" => app.exit(0),
+            _ => {}
+        })
+        .on_tray_icon_event(|tray, event| {
+            if let TrayIconEvent::Click {
+                button: MouseButton::Left,
+                button_state: MouseButtonState::Up,
+                ..
+            } = event
+            {
+                toggle_quick(tray.app_handle());
+            }
+        });
+    if let Some(icon) = app.default_window_icon() {
+        tray = tray.icon(icon.clone());
+    }
+    tray.build(app)?;
+    Ok(())
+}
+
+#[cfg(desktop)]
+fn setup_shortcut(app: &tauri::App) -> Result<(), Box<dyn std::error::Error>> {
+    use tauri_plugin_global_shortcut::{GlobalShortcutExt, ShortcutState};
+
+    app.handle().plugin(
+        tauri_plugin_global_shortcut::Builder::new()
+            .with_handler(|app, _shortcut, event| {
+                if event.state() == ShortcutState::Pressed {
+                    toggle_quick(app);
+                }
+            })
+            .build(),
+    )?;
+    // Another program may own the shortcut; the tray still opens the popup
+    if let Err(e) = app.global_shortcut().register(QUICK_SHORTCUT) {
+        eprintln!("could not register {}: {}", QUICK_SHORTCUT, e);
+    }
+    Ok(())
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .plugin(tauri_plugin_clipboard_manager::init())
+        .manage(ClipboardClear::default())
+        .setup(|app| {
+            #[cfg(desktop)]
+            {
+                setup_tray(app)?;
+                setup_shortcut(app)?;
+            }
+            Ok(())
+        })
+        // Closing the main window hides it to the tray: the popup generates
+        // through it and it holds the unlocked session. Quit from the tray menu.
+        .on_window_event(|window, event| {
+            if let tauri::WindowEvent::CloseRequested { api, .. } = event {
+                if cfg!(desktop) && window.label() == "main" {
+                    api.prevent_close();
+                    let _ = window.hide();
+                }
+            }
+        })
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            load_profiles,
+            save_profiles,
+            load_aliases,
+            save_aliases,
+            save_export,
+            copy_secret,
+            clear_secret,
+            derive_key
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use sha2::Digest;
+
+    const MASTER: &[u8] = b"correct horse battery staple";
+
+    fn hex(bytes: &[u8]) -> String {
+        bytes.iter().map(|b| format!("{:02x}", b)).collect()
+    }
+
+    fn salt() -> Vec<u8> {
+        (0u8..16).collect()
+    }
+
+    #[test]
+    fn pbkdf2_rfc7914() {
+        let out = derive(b"passwd", b"salt", 64, &KdfParams::Pbkdf2 { iterations: 1 }).unwrap();
+        assert_eq!(
+            hex(&out),
+            "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783"
+        );
+    }
+
+    #[test]
+    fn scrypt_rfc7914() {
+        let kdf = KdfParams::Scrypt {
+            cost: 16,
+            block_size: 1,
+            parallelism: 1,
+        };
+        assert_eq!(
+            hex(&derive(b"", b"", 64, &kdf).unwrap()),
+            "77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906"
+        );
+    }
+
+    // The vectors below come from deriveKey() in src/utils/kdf.ts; the same
+    // values are in the `kdf-*` entries of src/utils/self-test.ts
+    #[test]
+    fn pbkdf2_matches_typescript() {
+        let kdf = KdfParams::Pbkdf2 {
+            iterations: 100_000,
+        };
+        assert_eq!(
+            hex(&derive(MASTER, &salt(), 64, &kdf).unwrap()),
+            "49d49c25f597846209f0d92e7770ab64e1c75e94b4ce6c509265ee67175d2a1e774b608062dc707de6ae4a581af6282218af5793bd94e935a75bb21f74f7848c"
+        );
+    }
+
+    #[test]
+    fn argon2id_matches_typescript() {
+        let kdf = KdfParams::Argon2id {
+            memory_kib: 256,
+            time_cost: 2,
+            parallelism: 2,
+        };
+        assert_eq!(
+            hex(&derive(MASTER, &salt(), 32, &kdf).unwrap()),
+            "9992982626d0fa7b38ee9ce8e7951eeb239679653fcbb197fd39264d51652da5"
+        );
+    }
+
+    #[test]
+    fn scrypt_matches_typescript() {
+        let kdf = KdfParams::Scrypt {
+            cost: 1024,
+            block_size: 8,
+            parallelism: 2,
+        };
+        assert_eq!(
+            hex(&derive(MASTER, &salt(), 64, &kdf).unwrap()),
+            "c24efd12db42eb5f26eb5ee88ab4a12d9bb12645dc5faad71ebad2f6b410ff8e3f3f2cd6784dca59b01095d58889062f2827af8cd335f511b780403e1d0208cb"
+        );
+    }
+
+    // Key behind the "v1" self-test password: context "gmail.com", number 3,
+    // length 20 -> "J0|h5Viu\\b{,$saBr:gV" once mapped and shuffled in TypeScript
+    #[test]
+    fn v1_site_key_matches_typescript() {
+        let salt = &sha2::Sha256::digest(b"pwgen-salt-v1|gmail.com|3")[..16];
+        assert_eq!(hex(salt), "18283a37e4a3d762e3294cf1244a49fe");
+        let kdf = KdfParams::Pbkdf2 {
+            iterations: 100_000,
+        };
+        assert_eq!(
+            hex(&derive(MASTER, salt, 64, &kdf).unwrap()),
+            "88838c2faf23a788e1c3c6b3b239f3b007085112b0b08d73627a53c97404be7c9d98388343350a0a20f2a86f195fdce3d0c230c2cfad8d96f85b5e13edc7b73a"
+        );
+    }
+
+    #[test]
+    fn kdf_params_deserialize_from_typescript_names() {
+        let kdf: KdfParams = serde_json::from_str(
+            r#"{"algorithm":"argon2id","memoryKiB":19456,"timeCost":2,"parallelism":1}"#,
+        )
+        .unwrap();
+        assert!(matches!(
+            kdf,
+            KdfParams::Argon2id {
+                memory_kib: 19456,
+                time_cost: 2,
+                parallelism: 1
+            }
+        ));
+    }
+}
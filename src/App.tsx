@@ -1,72 +1,670 @@
-import { useState } from "react";
-import { generatePassword } from "./utils/pass-generator";
-import { ClipboardCopy, Check, Eye, EyeOff } from "lucide-react";
+import { Suspense, lazy, useEffect, useRef, useState } from "react";
+import { isTauri } from "@tauri-apps/api/core";
+import {
+  ALGORITHM_VERSIONS,
+  PASSPHRASE_MAX_WORDS,
+  PASSPHRASE_MIN_WORDS,
+  type AlgorithmVersion,
+  type CharacterPolicy,
+} from "./utils/pass-generator";
+import {
+  cancelDerivation,
+  derive,
+  deriveSessionKeyInBackground,
+  DerivationCancelled,
+  type DeriveProgress,
+} from "@/utils/derivation-client";
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  isUnlocked,
+  lockSession,
+  sessionPassword,
+  setAutoLockMinutes,
+  startSession,
+  subscribeSession,
+  touchSession,
+} from "@/utils/session";
+import {
+  ClipboardCopy,
+  Check,
+  Command,
+  Eye,
+  EyeOff,
+  Keyboard,
+  QrCode,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
-import ThemeToggle from "./theme";
+import { Select } from "@/components/ui/select";
+import ClipboardCountdown from "@/components/clipboard-countdown";
+import type { PaletteCommand } from "@/components/command-palette";
+import CounterHistory from "@/components/counter-history";
+import DerivationProgress from "@/components/derivation-progress";
+import MasterFingerprint from "@/components/master-fingerprint";
+import MasterStrength from "@/components/master-strength";
+import PassphraseOptions, {
+  type PassphraseSettings,
+} from "@/components/passphrase-options";
+import PolicyEditor from "@/components/policy-editor";
+import PurposeFields from "@/components/purpose-fields";
+import SelfTestAlert from "@/components/self-test-alert";
+import UpdateNotice from "@/components/update-notice";
+import SessionBar from "@/components/session-bar";
+import ShortcutCheatSheet from "@/components/shortcut-cheat-sheet";
+import StrengthMeter from "@/components/strength-meter";
+import { validateTemplate } from "@/utils/templates";
+import { ENGINE_REGISTRY } from "@/utils/engines";
+import { selfTest, type SelfTestReport } from "@/utils/self-test";
+import { registerServiceWorker, type PendingUpdate } from "@/utils/pwa";
+import {
+  SHORTCUT_ACTIONS,
+  SHORTCUT_LABELS,
+  formatBinding,
+  loadKeymap,
+  saveKeymap,
+  shortcutFor,
+  type Keymap,
+  type ShortcutAction,
+} from "@/utils/shortcuts";
+import { spectreTemplate } from "@/utils/spectre";
+import type { KdfOptions } from "@/utils/kdf";
+import {
+  outputStrength,
+  phraseStrength,
+  type OutputStrength,
+} from "@/utils/strength";
+import TemplatePicker from "@/components/template-picker";
+import {
+  createProfile,
+  updateProfile,
+  type SiteProfile,
+  type SiteProfileInput,
+} from "@/utils/profiles";
+import { loadProfiles, saveProfiles } from "@/utils/profile-store";
+import type { ContextAlias } from "@/utils/site-context";
+import { rotateProfile } from "@/utils/rotation";
+import {
+  onFocusLeavesApp,
+  publishSession,
+  serveQuickGenerate,
+} from "@/utils/quick-generate";
+import { generateForProfile } from "@/utils/site-password";
+import {
+  CLIPBOARD_CLEAR_SECONDS,
+  DEFAULT_CLIPBOARD_CLEAR_SECONDS,
+  clearSecret,
+  copySecret,
+  type ClearOutcome,
+} from "@/utils/clipboard";
+import ThemeToggle, { useTheme } from "./theme";
 import Logo from "./utils/logo";
 import { toast } from "sonner";
 
 // theme state handled via ThemeProvider
 
+// Panels not needed for the first paint load in their own chunks
+const CommandPalette = lazy(() => import("@/components/command-palette"));
+const PasswordQr = lazy(() => import("@/components/password-qr"));
+const SiteProfiles = lazy(() => import("@/components/site-profiles"));
+
+const MODES = ["password", "passphrase", "template"] as const;
+type Mode = (typeof MODES)[number];
+
+const ITERATIONS = 600_000;
+const KDF: KdfOptions = { algorithm: "pbkdf2", iterations: ITERATIONS };
+
 function App() {
   const [text, setText] = useState(""); // master phrase
   const [result, setResult] = useState<string>("");
+  const [resultLabel, setResultLabel] = useState<string>("");
+  const [resultStrength, setResultStrength] = useState<OutputStrength | null>(
+    null
+  );
+  // Bits of the phrase behind the last result; the phrase itself may be gone
+  const masterBits = useRef<number | null>(null);
   const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<DeriveProgress | null>(null);
+  const [startedAt, setStartedAt] = useState(0);
+  const runId = useRef(0);
   const [error, setError] = useState<string>("");
   const [length, setLength] = useState<number>(30);
   const [copied, setCopied] = useState(false);
+  const [showQr, setShowQr] = useState(false);
   const [showMaster, setShowMaster] = useState(false);
+  const [clearAfter, setClearAfter] = useState<number>(
+    DEFAULT_CLIPBOARD_CLEAR_SECONDS
+  );
+  const [policy, setPolicy] = useState<CharacterPolicy | undefined>();
+  const [version, setVersion] = useState<AlgorithmVersion>("v1");
+  const [mode, setMode] = useState<Mode>("password");
+  const [words, setWords] = useState<number>(6);
+  const [passphrase, setPassphrase] = useState<PassphraseSettings>({
+    separator: "-",
+    capitalization: "lower",
+    extra: "none",
+  });
+  const [template, setTemplate] = useState<string>("nnnnnn");
+  const [profiles, setProfiles] = useState<SiteProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<SiteProfile | null>(null);
+  const [aliases, setAliases] = useState<ContextAlias[]>([]);
+  // An older counter of the active site, picked to log in one last time
+  const [oldCounter, setOldCounter] = useState<number | null>(null);
+  const [unlocked, setUnlocked] = useState(isUnlocked);
+  const [autoLock, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [lockOnBlur, setLockOnBlur] = useState(true);
+  const [selfTestReport, setSelfTestReport] = useState<SelfTestReport | null>(
+    null
+  );
+  const selfTestFailed = selfTestReport !== null && !selfTestReport.ok;
+  const [pendingUpdate, setPendingUpdate] = useState<PendingUpdate | null>(
+    null
+  );
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [cheatSheetOpen, setCheatSheetOpen] = useState(false);
+  const masterRef = useRef<HTMLInputElement>(null);
+  const { theme, setTheme } = useTheme();
+  const context = activeProfile?.context ?? "";
+  const counter = oldCounter ?? activeProfile?.counter ?? 1;
+  // Compatibility engines come only from a site profile
+  const engine = ENGINE_REGISTRY[activeProfile?.engine ?? "passw"];
+  const engineMode = mode === "password" && engine.id !== "passw";
+  // v3 passwords come from the unlocked session instead of the phrase
+  const sessionMode = mode === "password" && !engineMode && version === "v3";
+  const lengthRange = engine.lengthRange;
+  const canGenerate =
+    !selfTestFailed &&
+    (!!text || (sessionMode && unlocked)) &&
+    !(mode === "template" && !!validateTemplate(template));
+  // Latest values for the tray popup, whose requests arrive outside rendering
+  const quickState = useRef({ profiles, clearAfter });
+  quickState.current = { profiles, clearAfter };
+
+  useEffect(() => {
+    selfTest().then(setSelfTestReport);
+  }, []);
+
+  useEffect(() => registerServiceWorker(setPendingUpdate), []);
+
+  useEffect(() => {
+    loadProfiles()
+      .then(setProfiles)
+      .catch((e) => toast.error(`Could not load sites: ${e?.message ?? e}`));
+    // Aliases are parsed with the Public Suffix List code, which only the
+    // sites panel needs otherwise; keep both out of the first chunk
+    import("@/utils/alias-store")
+      .then(({ loadAliases }) => loadAliases())
+      .then(setAliases)
+      .catch((e) => toast.error(`Could not load aliases: ${e?.message ?? e}`));
+  }, []);
+
+  // Locking (on demand, when idle or on blur) forgets the phrase and result
+  useEffect(
+    () =>
+      subscribeSession((open) => {
+        setUnlocked(open);
+        if (isTauri()) publishSession(open).catch(() => {});
+        if (!open) {
+          setText("");
+          setResult("");
+        }
+      }),
+    []
+  );
+
+  // The tray popup copies through this window, which owns the session
+  useEffect(() => {
+    if (!isTauri()) return;
+    const unlisten = serveQuickGenerate(async (profileId, master) => {
+      const { profiles, clearAfter } = quickState.current;
+      const profile = profiles.find((p) => p.id === profileId);
+      if (!profile) throw new Error("This site no longer exists");
+      const out = await generateForProfile(profile, master, ITERATIONS);
+      await copySecret(out, clearAfter);
+    });
+    return () => {
+      unlisten.then((off) => off());
+    };
+  }, []);
+
+  useEffect(() => {
+    setAutoLockMinutes(autoLock);
+  }, [autoLock]);
+
+  // A new or cleared result never shows the previous one's QR code
+  useEffect(() => {
+    setShowQr(false);
+  }, [result]);
+
+  useEffect(() => {
+    if (!unlocked) return;
+    const waiting: Promise<() => void>[] = [];
+    const onBlur = () => {
+      if (!lockOnBlur) return;
+      // In the desktop app the tray popup taking focus is not leaving
+      if (isTauri())
+        waiting.push(
+          onFocusLeavesApp(lockSession).catch(() => {
+            lockSession();
+            return () => {};
+          })
+        );
+      else lockSession();
+    };
+    window.addEventListener("pointerdown", touchSession);
+    window.addEventListener("keydown", touchSession);
+    window.addEventListener("blur", onBlur);
+    return () => {
+      window.removeEventListener("pointerdown", touchSession);
+      window.removeEventListener("keydown", touchSession);
+      window.removeEventListener("blur", onBlur);
+      waiting.forEach((stop) => stop.then((off) => off()));
+    };
+  }, [unlocked, lockOnBlur]);
+
+  // Editing any input makes a running derivation stale
+  useEffect(() => {
+    cancelDerivation();
+  }, [
+    text,
+    length,
+    mode,
+    words,
+    passphrase,
+    template,
+    policy,
+    version,
+    context,
+    counter,
+    engine,
+  ]);
+
+  const generate = async () => {
+    const run = ++runId.current;
+    const onProgress = (p: DeriveProgress) => {
+      if (runId.current === run) setProgress(p);
+    };
+    setError("");
+    setResult("");
+    setProgress(null);
+    if (text)
+      masterBits.current = phraseStrength(
+        text,
+        engineMode ? engine.kdf({}) : KDF
+      ).bits;
+    setStartedAt(performance.now());
+    setBusy(true);
+    try {
+      let out: string;
+      let label: string;
+      let strength: OutputStrength;
+      if (mode === "passphrase") {
+        out = await derive(
+          {
+            mode,
+            master: text,
+            number: counter,
+            options: { context, iterations: ITERATIONS, words, ...passphrase },
+          },
+          onProgress
+        );
+        label = "EFF wordlist passphrase";
+        strength = outputStrength({ mode, words, extra: passphrase.extra });
+      } else if (mode === "template") {
+        out = await derive(
+          {
+            mode,
+            master: text,
+            number: counter,
+            options: { context, iterations: ITERATIONS, template },
+          },
+          onProgress
+        );
+        label = `Template ${template}`;
+        strength = outputStrength({ mode, template });
+      } else if (engineMode) {
+        out = await derive(
+          {
+            mode: "engine",
+            engine: engine.id,
+            master: text,
+            number: counter,
+            options: {
+              context,
+              length,
+              policy,
+              login: activeProfile?.username,
+              fullName: activeProfile?.fullName,
+              resultType: activeProfile?.resultType,
+            },
+          },
+          onProgress
+        );
+        label = `Generated with ${engine.name}`;
+        strength =
+          engine.id === "spectre-v3"
+            ? outputStrength({
+                mode: "template",
+                template: spectreTemplate(activeProfile?.resultType),
+              })
+            : outputStrength({ mode, length, policy, algorithmVersion: "v2" });
+      } else if (sessionMode) {
+        if (!isUnlocked()) {
+          const key = await deriveSessionKeyInBackground(
+            { master: text, options: { iterations: ITERATIONS } },
+            onProgress
+          );
+          startSession(key);
+          setText("");
+        }
+        out = await sessionPassword(counter, { context, length, policy });
+        label = "Generated with algorithm v3 (unlocked session)";
+        strength = outputStrength({
+          mode,
+          length,
+          policy,
+          algorithmVersion: version,
+        });
+      } else {
+        out = await derive(
+          {
+            mode,
+            master: text,
+            number: counter,
+            options: {
+              context,
+              length,
+              iterations: ITERATIONS,
+              policy,
+              algorithmVersion: version,
+            },
+          },
+          onProgress
+        );
+        label = `Generated with algorithm ${version}`;
+        strength = outputStrength({
+          mode,
+          length,
+          policy,
+          algorithmVersion: version,
+        });
+      }
+      // A newer run owns the result now
+      if (runId.current !== run) return;
+      setResult(out);
+      setResultLabel(label);
+      setResultStrength(strength);
+    } catch (e: any) {
+      if (runId.current === run && !(e instanceof DerivationCancelled))
+        setError(e?.message ?? String(e));
+    } finally {
+      if (runId.current === run) setBusy(false);
+    }
+  };
+
+  // Replaces the countdown when clearing did not happen as promised
+  const reportClear = (outcome: ClearOutcome) => {
+    if (outcome === "failed")
+      toast.error(
+        "Could not clear the clipboard: the browser did not allow it. Clear it yourself.",
+        { id: "clipboard" }
+      );
+    else if (outcome === "changed")
+      toast("The clipboard holds something else now; left alone", {
+        id: "clipboard",
+      });
+    else toast.success("Clipboard cleared", { id: "clipboard" });
+  };
+
+  // Copies with the auto-clear countdown; resolves to whether it was copied
+  const copyToClipboard = async (value: string, what = "Password") => {
+    try {
+      await copySecret(value, clearAfter, reportClear);
+    } catch (e: any) {
+      toast.error(`Could not copy: ${e?.message ?? e}`);
+      return false;
+    }
+    if (!clearAfter) {
+      toast.success(`${what} copied to clipboard`, { id: "clipboard" });
+      return true;
+    }
+    toast.success(
+      <ClipboardCountdown
+        what={what}
+        clearsAt={Date.now() + clearAfter * 1000}
+      />,
+      {
+        id: "clipboard",
+        duration: clearAfter * 1000,
+        action: {
+          label: "Clear now",
+          onClick: () => {
+            clearSecret(value)
+              .then(reportClear)
+              .catch(() => reportClear("failed"));
+          },
+        },
+      }
+    );
+    return true;
+  };
+
+  const copyResult = async () => {
+    if (await copyToClipboard(result)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 200);
+    }
+  };
+
+  const clearAll = () => {
+    cancelDerivation();
+    setText("");
+    setResult("");
+    setError("");
+    setShowMaster(false);
+    masterRef.current?.focus();
+  };
+
+  // Length in password mode, word count in passphrase mode
+  const stepOutput = (step: number) => {
+    if (mode === "password" && lengthRange)
+      setLength((l) =>
+        Math.min(Math.max(l + step, lengthRange[0]), lengthRange[1])
+      );
+    else if (mode === "passphrase")
+      setWords((w) =>
+        Math.min(Math.max(w + step, PASSPHRASE_MIN_WORDS), PASSPHRASE_MAX_WORDS)
+      );
+  };
+
+  const shortcutHandlers: Record<ShortcutAction, () => void> = {
+    generate: () => {
+      if (canGenerate) generate();
+    },
+    copy: () => {
+      if (result) copyResult();
+    },
+    clear: clearAll,
+    palette: () => setPaletteOpen(true),
+    "toggle-phrase": () => setShowMaster((v) => !v),
+    longer: () => stepOutput(1),
+    shorter: () => stepOutput(-1),
+    "next-mode": () =>
+      setMode((m) => MODES[(MODES.indexOf(m) + 1) % MODES.length]),
+    lock: () => {
+      if (unlocked) lockSession();
+    },
+    "cheat-sheet": () => setCheatSheetOpen(true),
+  };
+  // Latest handlers for the keydown listener, which is set up once per keymap
+  const shortcuts = useRef(shortcutHandlers);
+  shortcuts.current = shortcutHandlers;
+
+  // The palette and the cheat sheet handle their own keys while open
+  useEffect(() => {
+    if (paletteOpen || cheatSheetOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const action = shortcutFor(e, keymap);
+      if (!action) return;
+      e.preventDefault();
+      shortcuts.current[action]();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [keymap, paletteOpen, cheatSheetOpen]);
+
+  const hint = (action: ShortcutAction) =>
+    keymap[action].map(formatBinding).join(" / ");
+
+  const paletteCommands: PaletteCommand[] = [
+    ...SHORTCUT_ACTIONS.filter((a) => a !== "palette").map((a) => ({
+      id: a,
+      label: SHORTCUT_LABELS[a],
+      hint: hint(a),
+      run: () => shortcuts.current[a](),
+    })),
+    ...MODES.map((m) => ({
+      id: `mode-${m}`,
+      label: `Output: ${m}`,
+      run: () => setMode(m),
+    })),
+    {
+      id: "theme",
+      label: `Switch to ${theme === "light" ? "dark" : "light"} theme`,
+      run: () => setTheme(theme === "light" ? "dark" : "light"),
+    },
+  ];
+
+  const persistProfiles = async (next: SiteProfile[]) => {
+    setProfiles(next);
+    try {
+      await saveProfiles(next);
+    } catch (e: any) {
+      toast.error(`Could not save sites: ${e?.message ?? e}`);
+    }
+  };
+
+  const persistAliases = async (next: ContextAlias[]) => {
+    setAliases(next);
+    try {
+      const { saveAliases } = await import("@/utils/alias-store");
+      await saveAliases(next);
+    } catch (e: any) {
+      toast.error(`Could not save aliases: ${e?.message ?? e}`);
+    }
+  };
+
+  const selectProfile = (profile: SiteProfile | null) => {
+    setActiveProfile(profile);
+    setOldCounter(null);
+    setResult("");
+    if (!profile) return;
+    setMode("password");
+    setLength(profile.length);
+    setPolicy(profile.policy);
+    setVersion(profile.algorithmVersion);
+  };
+
+  const profileDefaults: SiteProfileInput = {
+    name: "",
+    context: "",
+    counter: 1,
+    length,
+    algorithmVersion: version,
+    policy,
+  };
 
   return (
     <div className="min-h-dvh overflow-hidden bg-secondary text-secondary-foreground transition-colors">
-      <div className="mx-auto max-w-md p-6 h-dvh overflow-y-hidden">
+      <div className="mx-auto max-w-md p-6 h-dvh overflow-y-auto">
         <div className="w-full flex items-center justify-center">
           <Logo className="w-40 h-40" />
         </div>
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-2xl font-semibold">Password generator</h1>
-          <ThemeToggle />
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Command palette"
+              title={`${SHORTCUT_LABELS.palette} (${hint("palette")})`}
+              onClick={() => setPaletteOpen(true)}
+            >
+              <Command size={16} />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Keyboard shortcuts"
+              title={`${SHORTCUT_LABELS["cheat-sheet"]} (${hint(
+                "cheat-sheet"
+              )})`}
+              onClick={() => setCheatSheetOpen(true)}
+            >
+              <Keyboard size={16} />
+            </Button>
+            <ThemeToggle />
+          </div>
         </div>
 
+        {pendingUpdate && (
+          <UpdateNotice
+            update={pendingUpdate}
+            onLater={() => setPendingUpdate(null)}
+          />
+        )}
         <div className="rounded-xl border backdrop-blur p-5 shadow-sm">
+          {selfTestFailed && <SelfTestAlert report={selfTestReport} />}
           <div className="mb-3 flex items-center justify-between">
             <label htmlFor="main-input" className="text-sm opacity-80">
               Master passphrase
             </label>
             <Button
-              onClick={async () => {
-                setError("");
-                setResult("");
-                setBusy(true);
-                try {
-                  const pwd = await generatePassword(text, 1, {
-                    context: "",
-                    length,
-                    iterations: 600_000,
-                  });
-                  setResult(pwd);
-                } catch (e: any) {
-                  setError(e?.message ?? String(e));
-                } finally {
-                  setBusy(false);
-                }
-              }}
-              disabled={!text || busy}
+              onClick={generate}
+              disabled={!canGenerate}
+              title={hint("generate")}
               variant="default"
               size="sm"
             >
-              {busy ? "Generating..." : "Generate"}
+              {busy
+                ? "Restart"
+                : sessionMode && !unlocked
+                ? "Unlock"
+                : "Generate"}
             </Button>
           </div>
+          {activeProfile && (
+            <p className="mb-2 text-xs opacity-80">
+              Site: <span className="font-medium">{activeProfile.name}</span> (
+              {activeProfile.context || "no context"} · #{counter})
+              {activeProfile.username && <> · {activeProfile.username}</>}
+            </p>
+          )}
+          {activeProfile && activeProfile.counter > 1 && (
+            <CounterHistory
+              profile={activeProfile}
+              counter={counter}
+              onChange={(c) =>
+                setOldCounter(c === activeProfile.counter ? null : c)
+              }
+            />
+          )}
           <div className="relative">
             <Input
               id="main-input"
+              ref={masterRef}
+              data-shortcuts
               type={showMaster ? "text" : "password"}
               value={text}
               onChange={(e) => setText(e.target.value)}
-              placeholder="Your master passphrase..."
+              placeholder={
+                sessionMode && unlocked
+                  ? "Session unlocked, no phrase needed"
+                  : "Your master passphrase..."
+              }
               className="pr-10"
             />
             <Button
@@ -74,6 +672,7 @@ function App() {
               size="icon"
               type="button"
               aria-label={showMaster ? "Hide" : "Show"}
+              title={hint("toggle-phrase")}
               onClick={() => setShowMaster((v) => !v)}
               className="absolute inset-y-0 right-0 flex items-center pr-2 text-secondary-foreground"
             >
@@ -84,42 +683,130 @@ function App() {
               )}
             </Button>
           </div>
-          <div className="mt-4">
-            <div className="flex items-center justify-between mb-2">
-              <label htmlFor="len" className="text-sm opacity-80">
-                Length: <span className="font-medium">{length}</span>
-              </label>
-              <span className="text-xs opacity-60">8–120</span>
-            </div>
-            <Slider
-              min={8}
-              max={120}
-              step={1}
-              value={[length]}
-              onValueChange={(v) => setLength(v[0] ?? length)}
+          <MasterFingerprint master={text} />
+          <MasterStrength master={text} kdf={KDF} />
+          {unlocked && (
+            <SessionBar
+              autoLockMinutes={autoLock}
+              onAutoLockMinutesChange={setAutoLock}
+              lockOnBlur={lockOnBlur}
+              onLockOnBlurChange={setLockOnBlur}
+              onLock={lockSession}
             />
+          )}
+          <div className="mt-4 flex items-center justify-between">
+            <span className="text-sm opacity-80">Output</span>
+            <div className="flex gap-1">
+              {MODES.map((m) => (
+                <Button
+                  key={m}
+                  type="button"
+                  size="sm"
+                  variant={mode === m ? "default" : "outline"}
+                  onClick={() => setMode(m)}
+                  className="capitalize"
+                >
+                  {m}
+                </Button>
+              ))}
+            </div>
           </div>
+          {mode === "password" && lengthRange && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="len" className="text-sm opacity-80">
+                  Length: <span className="font-medium">{length}</span>
+                </label>
+                <span className="text-xs opacity-60">
+                  {lengthRange[0]}–{lengthRange[1]}
+                </span>
+              </div>
+              <Slider
+                id="len"
+                min={lengthRange[0]}
+                max={lengthRange[1]}
+                step={1}
+                value={[length]}
+                onValueChange={(v) => setLength(v[0] ?? length)}
+              />
+            </div>
+          )}
+          {mode === "passphrase" && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="words" className="text-sm opacity-80">
+                  Words: <span className="font-medium">{words}</span>
+                </label>
+                <span className="text-xs opacity-60">
+                  {PASSPHRASE_MIN_WORDS}–{PASSPHRASE_MAX_WORDS}
+                </span>
+              </div>
+              <Slider
+                id="words"
+                min={PASSPHRASE_MIN_WORDS}
+                max={PASSPHRASE_MAX_WORDS}
+                step={1}
+                value={[words]}
+                onValueChange={(v) => setWords(v[0] ?? words)}
+              />
+            </div>
+          )}
+          {mode === "template" && (
+            <TemplatePicker value={template} onChange={setTemplate} />
+          )}
+          {mode === "passphrase" && (
+            <PassphraseOptions value={passphrase} onChange={setPassphrase} />
+          )}
+          {engineMode && (
+            <div className="mt-4 flex items-center justify-between">
+              <span className="text-sm opacity-80">Algorithm</span>
+              <span className="text-sm font-medium">{engine.name}</span>
+            </div>
+          )}
+          {mode === "password" && !engineMode && (
+            <div className="mt-4 flex items-center justify-between">
+              <span className="text-sm opacity-80">Algorithm</span>
+              <div className="flex gap-1">
+                {ALGORITHM_VERSIONS.map((v) => (
+                  <Button
+                    key={v}
+                    type="button"
+                    size="sm"
+                    variant={version === v ? "default" : "outline"}
+                    onClick={() => setVersion(v)}
+                  >
+                    {v}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+          {mode === "password" && engine.id !== "spectre-v3" && (
+            <PolicyEditor
+              policy={policy}
+              length={length}
+              onChange={setPolicy}
+            />
+          )}
+          {busy && (
+            <DerivationProgress
+              progress={progress}
+              startedAt={startedAt}
+              onCancel={() => cancelDerivation()}
+            />
+          )}
           {result && (
             <div className="mt-4 relative">
-              <code className="block w-full select-all text-sm px-3 py-3 pr-10 rounded bg-secondary border border-neutral-200 whitespace-pre-wrap break-all overflow-x-auto">
+              <code className="block w-full select-all text-sm px-3 py-3 pr-18 rounded bg-secondary border border-neutral-200 whitespace-pre-wrap break-all overflow-x-auto">
                 {result}
               </code>
               <Button
                 type="button"
-                onClick={async () => {
-                  try {
-                    await navigator.clipboard.writeText(result);
-                    setCopied(true);
-                    setTimeout(() => {
-                      setCopied(false);
-                      toast.success("Password copied to clipboard");
-                    }, 200);
-                  } catch (e) {}
-                }}
+                onClick={copyResult}
                 variant="ghost"
                 size="icon"
                 aria-label="Copy password"
-                title={copied ? "Copied!" : "Copy"}
+                title={copied ? "Copied!" : `Copy (${hint("copy")})`}
                 className="absolute top-1.5 right-1.5 inline-flex items-center justify-center rounded-md p-1.5"
               >
                 {copied ? (
@@ -128,14 +815,160 @@ function App() {
                   <ClipboardCopy className="text-current" size={16} />
                 )}
               </Button>
+              <Button
+                type="button"
+                onClick={() => setShowQr((v) => !v)}
+                variant="ghost"
+                size="icon"
+                aria-label="Show as QR code"
+                aria-pressed={showQr}
+                title="Show as QR code"
+                className="absolute top-1.5 right-9 inline-flex items-center justify-center rounded-md p-1.5"
+              >
+                <QrCode className="text-current" size={16} />
+              </Button>
+              <div className="mt-1 flex items-center justify-between gap-2 text-xs">
+                <span className="opacity-60">{resultLabel}</span>
+                <label className="flex shrink-0 items-center gap-1 opacity-80">
+                  Clear clipboard
+                  <Select
+                    value={clearAfter}
+                    onChange={(e) => setClearAfter(Number(e.target.value))}
+                    size="sm"
+                  >
+                    {CLIPBOARD_CLEAR_SECONDS.map((s) => (
+                      <option key={s} value={s}>
+                        {s ? `after ${s} s` : "never"}
+                      </option>
+                    ))}
+                  </Select>
+                </label>
+              </div>
+              {showQr && (
+                <Suspense fallback={null}>
+                  <PasswordQr value={result} onClose={() => setShowQr(false)} />
+                </Suspense>
+              )}
+              {resultStrength && (
+                <StrengthMeter
+                  label="Output"
+                  score={resultStrength.score}
+                  detail={`≈ ${Math.round(resultStrength.bits)} bits`}
+                  warnings={
+                    masterBits.current !== null &&
+                    masterBits.current < resultStrength.bits
+                      ? [
+                          `Effective strength is limited by your master passphrase (≈ ${Math.round(
+                            masterBits.current
+                          )} bits)`,
+                        ]
+                      : []
+                  }
+                />
+              )}
             </div>
           )}
+          {activeProfile && (
+            <PurposeFields
+              profile={activeProfile}
+              master={text}
+              iterations={ITERATIONS}
+              onCopy={(value, label) => copyToClipboard(value, label)}
+            />
+          )}
           {error && (
             <p className="mt-2 text-sm text-red-600 dark:text-red-400">
               {error}
             </p>
           )}
         </div>
+        {paletteOpen && (
+          <Suspense fallback={null}>
+            <CommandPalette
+              profiles={profiles}
+              activeId={activeProfile?.id ?? null}
+              commands={paletteCommands}
+              onSelectProfile={(p) => {
+                selectProfile(p);
+                masterRef.current?.focus();
+              }}
+              onClose={() => setPaletteOpen(false)}
+            />
+          </Suspense>
+        )}
+        {cheatSheetOpen && (
+          <ShortcutCheatSheet
+            keymap={keymap}
+            onChange={(next) => {
+              setKeymap(next);
+              saveKeymap(next);
+            }}
+            onClose={() => setCheatSheetOpen(false)}
+          />
+        )}
+        <Suspense fallback={null}>
+          <SiteProfiles
+            profiles={profiles}
+            activeId={activeProfile?.id ?? null}
+            defaults={profileDefaults}
+            onSelect={selectProfile}
+            onAdd={(input) => {
+              try {
+                persistProfiles([...profiles, createProfile(input)]);
+              } catch (e: any) {
+                toast.error(e?.message ?? String(e));
+              }
+            }}
+            onUpdate={(id, input) => {
+              try {
+                const next = profiles.map((p) =>
+                  p.id === id ? updateProfile(p, input) : p
+                );
+                persistProfiles(next);
+                if (activeProfile?.id === id)
+                  selectProfile(next.find((p) => p.id === id) ?? null);
+              } catch (e: any) {
+                toast.error(e?.message ?? String(e));
+              }
+            }}
+            onImport={(inputs) => {
+              persistProfiles([
+                ...profiles,
+                ...inputs.map((i) => createProfile(i)),
+              ]);
+              toast.success(
+                `Imported ${inputs.length} site${
+                  inputs.length === 1 ? "" : "s"
+                }`
+              );
+            }}
+            onGenerateBatch={async (sites, onProgress) => {
+              const { generateBatch } = await import("@/utils/batch");
+              return generateBatch(sites, text, ITERATIONS, onProgress);
+            }}
+            onRotate={(id, reason) => {
+              try {
+                const next = profiles.map((p) =>
+                  p.id === id ? rotateProfile(p, reason) : p
+                );
+                persistProfiles(next);
+                const rotated = next.find((p) => p.id === id)!;
+                if (activeProfile?.id === id) selectProfile(rotated);
+                toast.success(
+                  `"${rotated.name}" now uses password #${rotated.counter}`
+                );
+              } catch (e: any) {
+                toast.error(e?.message ?? String(e));
+              }
+            }}
+            aliases={aliases}
+            onAliasesChange={persistAliases}
+            onDelete={(id) => {
+              persistProfiles(profiles.filter((p) => p.id !== id));
+              if (activeProfile?.id === id) selectProfile(null);
+            }}
+          />
+        </Suspense>
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+/**
+ * Strict command-line flag parsing for the CLI
+ * - Accepts "--flag value", "--flag=value" and boolean "--flag"
+ * - Unknown flags, missing values and malformed numbers are usage errors
+ */
+
+export const EXIT = {
+  OK: 0,
+  /** generation failed, or `verify` found a mismatch */
+  FAILURE: 1,
+  /** bad command line */
+  USAGE: 2,
+  /** profiles file or input file could not be read */
+  ENVIRONMENT: 3,
+  /** user pressed Ctrl+C at a prompt */
+  CANCELLED: 130,
+} as const;
+
+export class CliError extends Error {
+  constructor(message: string, readonly exitCode: number = EXIT.FAILURE) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export class UsageError extends CliError {
+  constructor(message: string) {
+    super(message, EXIT.USAGE);
+    this.name = "UsageError";
+  }
+}
+
+export type FlagType = "string" | "number" | "boolean";
+export type FlagSpec = Record<string, FlagType>;
+
+export interface ParsedArgs {
+  flags: Map<string, string | number | boolean>;
+  positionals: string[];
+}
+
+export function parseArgs(argv: string[], spec: FlagSpec): ParsedArgs {
+  const flags = new Map<string, string | number | boolean>();
+  const positionals: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      if (arg.startsWith("-") && arg !== "-") {
+        throw new UsageError(`unknown option ${arg}`);
+      }
+      positionals.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const name = arg.slice(2, eq < 0 ? undefined : eq);
+    const type = spec[name];
+    if (!type) throw new UsageError(`unknown option --${name}`);
+    if (flags.has(name)) throw new UsageError(`--${name} given more than once`);
+    if (type === "boolean") {
+      if (eq >= 0) throw new UsageError(`--${name} does not take a value`);
+      flags.set(name, true);
+      continue;
+    }
+    let value: string | undefined;
+    if (eq >= 0) value = arg.slice(eq + 1);
+    else if (i + 1 < argv.length && !argv[i + 1].startsWith("--"))
+      value = argv[++i];
+    if (value === undefined || value === "") {
+      throw new UsageError(`--${name} needs a value`);
+    }
+    if (type === "number") {
+      const n = Number(value);
+      if (!Number.isInteger(n)) {
+        throw new UsageError(
+          `--${name} must be a whole number, got "${value}"`
+        );
+      }
+      flags.set(name, n);
+    } else {
+      flags.set(name, value);
+    }
+  }
+  return { flags, positionals };
+}
+
+export function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const v = args.flags.get(name);
+  return typeof v === "string" ? v : undefined;
+}
+
+export function numberFlag(args: ParsedArgs, name: string): number | undefined {
+  const v = args.flags.get(name);
+  return typeof v === "number" ? v : undefined;
+}
+
+export function booleanFlag(args: ParsedArgs, name: string): boolean {
+  return args.flags.get(name) === true;
+}
+
+export function oneOf<T extends string>(
+  name: string,
+  value: string | undefined,
+  allowed: readonly T[]
+): T | undefined {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(
+      `--${name} must be one of ${allowed.join(", ")}, got "${value}"`
+    );
+  }
+  return value as T;
+}
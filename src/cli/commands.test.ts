@@ -0,0 +1,108 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The master phrase comes from the prompt and the output goes to stdout;
+// both are replaced so the commands can run in-process
+const io = vi.hoisted(() => ({ output: [] as string[] }));
+
+vi.mock("./io", () => ({
+  print: (line: string) => io.output.push(line),
+  printJson: (value: unknown) => io.output.push(JSON.stringify(value)),
+  promptSecret: async () => "correct horse battery staple",
+  stdinIsTty: () => false,
+}));
+
+const { batchCommand, generateCommand, profilesCommand } = await import(
+  "./commands"
+);
+
+let dir: string;
+let profilesFile: string;
+const FAST = ["--iterations", "100000"];
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "passw-cli-"));
+  profilesFile = join(dir, "profiles.json");
+  await writeFile(
+    join(dir, "aliases.json"),
+    JSON.stringify({
+      version: 1,
+      aliases: [{ from: "youtube.com", to: "google.com" }],
+    })
+  );
+  io.output = [];
+});
+
+afterEach(() => rm(dir, { recursive: true, force: true }));
+
+async function batch(lines: string[], ...flags: string[]) {
+  const file = join(dir, "sites.txt");
+  await writeFile(file, lines.join("\n"));
+  await batchCommand([
+    file,
+    "--json",
+    "--profiles-file",
+    profilesFile,
+    ...flags,
+  ]);
+  return JSON.parse(io.output.pop()!) as {
+    context: string;
+    password: string;
+  }[];
+}
+
+describe("batch", () => {
+  it("normalises contexts as generate --context does", async () => {
+    const results = await batch(
+      ["Gmail.com", "gmail.com", "https://www.youtube.com/watch", "Work VPN"],
+      ...FAST
+    );
+    expect(results.map((r) => r.context)).toEqual([
+      "gmail.com",
+      "gmail.com",
+      "google.com",
+      "Work VPN",
+    ]);
+    expect(results[0].password).toBe(results[1].password);
+
+    await generateCommand([
+      "--context",
+      "Gmail.com",
+      "--profiles-file",
+      profilesFile,
+      ...FAST,
+    ]);
+    expect(io.output.pop()).toBe(results[0].password);
+  }, 60_000);
+
+  it("keeps contexts as typed for the compatibility engines", async () => {
+    const results = await batch(
+      ["https://www.github.com/login"],
+      "--engine",
+      "lesspass-v2"
+    );
+    expect(results[0].context).toBe("https://www.github.com/login");
+  }, 60_000);
+});
+
+describe("profiles add", () => {
+  const add = (...flags: string[]) =>
+    profilesCommand(["add", "--profiles-file", profilesFile, ...flags]);
+  const saved = async () =>
+    JSON.parse(await readFile(profilesFile, "utf8")).profiles.map(
+      (p: { name: string; context: string }) => [p.name, p.context]
+    );
+
+  it("normalises the name when it stands in for the context", async () => {
+    await add("--name", "Mail.Google.com");
+    await add("--name", "Work VPN");
+    await add("--name", "Tube", "--url", "https://m.youtube.com/");
+    expect(await saved()).toEqual([
+      ["Mail.Google.com", "google.com"],
+      ["Work VPN", "Work VPN"],
+      ["Tube", "google.com"],
+    ]);
+  });
+});
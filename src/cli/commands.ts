@@ -0,0 +1,906 @@
+/**
+ * CLI subcommands. Each returns its exit code; errors are thrown as CliError
+ * and turned into messages and exit codes by ./main.
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  ALGORITHM_VERSIONS,
+  PASSPHRASE_CASES,
+  PASSPHRASE_EXTRAS,
+  PASSPHRASE_MAX_WORDS,
+  PASSPHRASE_MIN_WORDS,
+  PURPOSES,
+  generateFromTemplate,
+  generatePassphrase,
+  generatePassword,
+  type AlgorithmVersion,
+  type CharacterPolicy,
+  type KdfOptions,
+  type Purpose,
+} from "@/utils/pass-generator";
+import {
+  DEFAULT_ENGINE,
+  ENGINES,
+  ENGINE_REGISTRY,
+  generateWithEngine,
+  type EngineId,
+} from "@/utils/engines";
+import {
+  EXPORT_FORMATS,
+  serializeExport,
+  type ExportEntry,
+} from "@/utils/exporters";
+import { masterFingerprint } from "@/utils/fingerprint";
+import {
+  createProfile,
+  filterProfiles,
+  type SiteProfile,
+} from "@/utils/profiles";
+import {
+  isOverdue,
+  overdueSites,
+  passwordAgeDays,
+  rotateProfile,
+  sitesNotRotatedSince,
+} from "@/utils/rotation";
+import {
+  PURPOSE_COUNTER,
+  PURPOSE_STYLES,
+  generateForPurpose,
+  purposeStyle,
+} from "@/utils/purposes";
+import { describeSelfTestFailure, selfTest } from "@/utils/self-test";
+import {
+  entryContext,
+  normalizeContext,
+  type ContextAlias,
+} from "@/utils/site-context";
+import { SPECTRE_RESULT_TYPES, type SpectreResultType } from "@/utils/spectre";
+import { BUILTIN_TEMPLATES, validateTemplate } from "@/utils/templates";
+import {
+  CliError,
+  EXIT,
+  UsageError,
+  booleanFlag,
+  numberFlag,
+  oneOf,
+  parseArgs,
+  stringFlag,
+  type FlagSpec,
+  type ParsedArgs,
+} from "./args";
+import { print, printJson, promptSecret, stdinIsTty } from "./io";
+import {
+  aliasesPath,
+  findProfile,
+  profilesPath,
+  readAliasesFile,
+  readProfilesFile,
+  writeProfilesFile,
+} from "./profiles-file";
+
+const MODES = ["password", "passphrase", "template"] as const;
+type Mode = (typeof MODES)[number];
+const KDFS = ["pbkdf2", "argon2id", "scrypt"] as const;
+
+const DEFAULT_ITERATIONS = 600_000;
+const TEMPLATE_IDS = BUILTIN_TEMPLATES.map((t) => t.id).join(", ");
+
+const COMMON_FLAGS: FlagSpec = {
+  help: "boolean",
+  json: "boolean",
+  "profiles-file": "string",
+};
+
+const DERIVE_FLAGS: FlagSpec = {
+  ...COMMON_FLAGS,
+  profile: "string",
+  context: "string",
+  url: "string",
+  counter: "number",
+  length: "number",
+  algorithm: "string",
+  engine: "string",
+  login: "string",
+  "full-name": "string",
+  "result-type": "string",
+  iterations: "number",
+  kdf: "string",
+  mode: "string",
+  words: "number",
+  separator: "string",
+  case: "string",
+  extra: "string",
+  template: "string",
+  purpose: "string",
+  keyword: "string",
+  style: "string",
+};
+
+/** One site to derive for: a saved profile, or flags given on the command line. */
+interface Target {
+  label: string;
+  context: string;
+  counter: number;
+  length: number;
+  algorithmVersion: AlgorithmVersion;
+  policy?: CharacterPolicy;
+  engine: EngineId;
+  /** LessPass login */
+  login?: string;
+  /** Spectre user name */
+  fullName?: string;
+  resultType?: SpectreResultType;
+}
+
+interface DeriveSettings {
+  mode: Mode;
+  kdf: KdfOptions;
+  words?: number;
+  separator?: string;
+  capitalization?: (typeof PASSPHRASE_CASES)[number];
+  extra?: (typeof PASSPHRASE_EXTRAS)[number];
+  template?: string;
+  purpose: Purpose;
+  keyword?: string;
+  style?: string;
+}
+
+export const GENERATE_HELP = `Usage: passw generate [options]
+
+Derive the password for one site. The master phrase is read from a hidden
+prompt, or from the first line of stdin when stdin is not a terminal.
+
+Site:
+  --profile <name|id>   use a saved site profile
+  --context <site>      site identifier, e.g. gmail.com (default ""); URLs
+                        and host names are normalised as in the app
+  --url <url>           a URL or host name instead of --context; it is
+                        reduced to the site (https://accounts.google.com/x
+                        -> google.com) and the app's aliases are applied
+  --counter <n>         rotation counter (default 1)
+  --length <n>          password length (default 20)
+  --algorithm <v>       ${ALGORITHM_VERSIONS.join(" | ")} (default v1)
+
+Engine (to keep passwords made with other managers):
+  --engine <id>         ${ENGINES.join(" | ")} (default ${DEFAULT_ENGINE})
+  --login <login>       LessPass login (default: the profile's username)
+  --full-name <name>    Spectre user name, required for spectre-v3
+  --result-type <type>  Spectre result type (default long):
+                        ${SPECTRE_RESULT_TYPES.join(", ")}
+  The engine decides the output: --mode, --algorithm and the key
+  derivation options apply to ${DEFAULT_ENGINE} only.
+
+Output:
+  --mode <mode>         ${MODES.join(" | ")} (default password)
+  --words <n>           passphrase words, ${PASSPHRASE_MIN_WORDS}-${PASSPHRASE_MAX_WORDS} (default 6)
+  --separator <text>    passphrase separator (default "-")
+  --case <case>         ${PASSPHRASE_CASES.join(" | ")} (default lower)
+  --extra <extra>       ${PASSPHRASE_EXTRAS.join(" | ")} (default none)
+  --template <t>        template pattern or built-in id (${TEMPLATE_IDS})
+
+Purpose (derived usernames and security answers):
+  --purpose <p>         ${PURPOSES.join(" | ")}
+                        (default authentication, the password)
+  --keyword <text>      tells answers apart, e.g. the security question
+  --style <id>          identification: ${PURPOSE_STYLES.identification
+    .map((s) => s.id)
+    .join(", ")}
+                        recovery: ${PURPOSE_STYLES.recovery
+                          .map((s) => s.id)
+                          .join(", ")}
+  Usernames and answers always use counter ${PURPOSE_COUNTER}, so rotating
+  the password keeps them; --mode and its options do not apply.
+
+Key derivation:
+  --kdf <kdf>           ${KDFS.join(" | ")} (default pbkdf2)
+  --iterations <n>      PBKDF2 iterations (default ${DEFAULT_ITERATIONS})
+
+  --json                print a JSON object instead of the bare password
+  --profiles-file <f>   profiles file (default: the desktop app's file)
+`;
+
+export const VERIFY_HELP = `Usage: passw verify [generate options]
+
+Check whether a password was produced by passw for a site. Prompts for the
+master phrase and then for the password to check (or reads both, one per
+line, from stdin). Exits with 0 on a match and 1 otherwise.
+`;
+
+export const BATCH_HELP = `Usage: passw batch <file> [--export <format>] [generate options]
+       passw batch --all [--export <format>] [generate options]
+
+Derive passwords for many sites with one master phrase prompt. Each
+non-empty line of <file> that does not start with "#" is a saved profile
+name or id, or otherwise a context that uses the command-line options and
+is normalised as --context is.
+--all derives for every saved profile. Prints "<site><TAB><password>" per
+line, or a JSON array with --json.
+
+--export bitwarden-json|keepass-xml|csv prints a file to import into another
+password manager instead. It holds every password in plain text: pipe it
+through "openssl enc -aes-256-cbc -pbkdf2 -iter 600000 -md sha256" or import
+it right away, and delete it afterwards.
+`;
+
+export const SELF_TEST_HELP = `Usage: passw self-test [--json]
+
+Check this runtime against the built-in known-answer vectors (hashes, KDFs,
+every algorithm version and engine). generate, verify and batch run the
+same check first and refuse to derive when it fails. Exits with 0 when every
+vector matches and 1 otherwise.
+`;
+
+export const PROFILES_HELP = `Usage: passw profiles list [--search <text>] [--json]
+       passw profiles add --name <name> [--context <site> | --url <url>]
+                          [--counter <n>]
+                          [--length <n>] [--algorithm <v>]
+                          [--engine <id>] [--full-name <name>]
+                          [--result-type <type>]
+                          [--username <user>] [--notes <text>]
+                          [--max-age <days>]
+       passw profiles rotate <name|id> [--reason <text>]
+       passw profiles stale [--since <YYYY-MM-DD>] [--json]
+       passw profiles rm <name|id>
+
+Manage saved site profiles. Profiles hold everything needed to re-derive a
+password except the master phrase. The file is shared with the desktop app;
+override it with --profiles-file or the PASSW_PROFILES environment variable.
+The username is also the login of LessPass (lesspass-v2) profiles.
+--url stores the site the URL belongs to, as "generate --url" does.
+Without either, the name is the context, normalised like --context.
+
+rotate moves a site to the next counter and records the date and reason;
+older passwords stay available with "generate --counter <n>". stale lists
+sites older than their --max-age, or with --since (e.g. the date of a
+breach) every site still on a password from before that date.
+`;
+
+function parseNumberFlag(
+  args: ParsedArgs,
+  name: string,
+  min: number,
+  max = Number.MAX_SAFE_INTEGER
+): number | undefined {
+  const n = numberFlag(args, name);
+  if (n !== undefined && (n < min || n > max)) {
+    throw new UsageError(
+      max === Number.MAX_SAFE_INTEGER
+        ? `--${name} must be at least ${min}`
+        : `--${name} must be between ${min} and ${max}`
+    );
+  }
+  return n;
+}
+
+function noPositionals(args: ParsedArgs): void {
+  if (args.positionals.length) {
+    throw new UsageError(`unexpected argument "${args.positionals[0]}"`);
+  }
+}
+
+async function loadProfiles(args: ParsedArgs): Promise<SiteProfile[]> {
+  const path = profilesPath(stringFlag(args, "profiles-file"));
+  try {
+    return await readProfilesFile(path);
+  } catch (e) {
+    throw new CliError(
+      `cannot read profiles from ${path}: ${
+        e instanceof Error ? e.message : String(e)
+      }`,
+      EXIT.ENVIRONMENT
+    );
+  }
+}
+
+async function loadAliases(args: ParsedArgs): Promise<ContextAlias[]> {
+  const path = aliasesPath(profilesPath(stringFlag(args, "profiles-file")));
+  try {
+    return await readAliasesFile(path);
+  } catch (e) {
+    throw new CliError(
+      `cannot read aliases from ${path}: ${
+        e instanceof Error ? e.message : String(e)
+      }`,
+      EXIT.ENVIRONMENT
+    );
+  }
+}
+
+// --context normalised as the app does for the engine, or the site of --url
+async function contextFlag(
+  args: ParsedArgs,
+  engine: EngineId
+): Promise<string | undefined> {
+  const url = stringFlag(args, "url");
+  if (url === undefined) {
+    const context = stringFlag(args, "context");
+    return context === undefined
+      ? undefined
+      : entryContext(context, await loadAliases(args), engine);
+  }
+  if (args.flags.has("context")) {
+    throw new UsageError("give either --context or --url");
+  }
+  return normalizeContext(url, await loadAliases(args));
+}
+
+type EngineFields = Pick<
+  Target,
+  "engine" | "login" | "fullName" | "resultType"
+>;
+
+function engineFields(args: ParsedArgs, profile?: SiteProfile): EngineFields {
+  const engine =
+    oneOf("engine", stringFlag(args, "engine"), ENGINES) ??
+    profile?.engine ??
+    DEFAULT_ENGINE;
+  const fullName = stringFlag(args, "full-name") ?? profile?.fullName;
+  if (engine === "spectre-v3" && !fullName) {
+    throw new UsageError("--engine spectre-v3 needs --full-name");
+  }
+  return {
+    engine,
+    login: stringFlag(args, "login") ?? profile?.username,
+    fullName,
+    resultType:
+      oneOf(
+        "result-type",
+        stringFlag(args, "result-type"),
+        SPECTRE_RESULT_TYPES
+      ) ?? profile?.resultType,
+  };
+}
+
+// --length within the engine's limits; Spectre picks its own length
+function lengthFlag(args: ParsedArgs, engine: EngineId): number | undefined {
+  const range = ENGINE_REGISTRY[engine].lengthRange;
+  if (range) return parseNumberFlag(args, "length", range[0], range[1]);
+  if (args.flags.has("length")) {
+    throw new UsageError(`--length does not apply to --engine ${engine}`);
+  }
+  return undefined;
+}
+
+// Command-line values override the profile's, so a profile can be tweaked
+// for one run without editing it
+function targetFromProfile(
+  args: ParsedArgs,
+  profile: SiteProfile,
+  context?: string
+): Target {
+  const fields = engineFields(args, profile);
+  return {
+    label: profile.name,
+    context: context ?? profile.context,
+    counter: parseNumberFlag(args, "counter", 1) ?? profile.counter,
+    length: lengthFlag(args, fields.engine) ?? profile.length,
+    algorithmVersion:
+      oneOf("algorithm", stringFlag(args, "algorithm"), ALGORITHM_VERSIONS) ??
+      profile.algorithmVersion,
+    policy: profile.policy,
+    ...fields,
+  };
+}
+
+function targetFromFlags(args: ParsedArgs, context: string): Target {
+  const fields = engineFields(args);
+  return {
+    label: context,
+    context,
+    counter: parseNumberFlag(args, "counter", 1) ?? 1,
+    length:
+      lengthFlag(args, fields.engine) ??
+      (fields.engine === "lesspass-v2" ? 16 : 20),
+    algorithmVersion:
+      oneOf("algorithm", stringFlag(args, "algorithm"), ALGORITHM_VERSIONS) ??
+      "v1",
+    ...fields,
+  };
+}
+
+async function resolveTarget(args: ParsedArgs): Promise<Target> {
+  const key = stringFlag(args, "profile");
+  if (!key) {
+    const context = await contextFlag(args, engineFields(args).engine);
+    return targetFromFlags(args, context ?? "");
+  }
+  const profile = findProfile(await loadProfiles(args), key);
+  if (!profile) throw new CliError(`no saved profile named "${key}"`);
+  const context = await contextFlag(args, engineFields(args, profile).engine);
+  return targetFromProfile(args, profile, context);
+}
+
+function resolveSettings(args: ParsedArgs): DeriveSettings {
+  const mode = oneOf("mode", stringFlag(args, "mode"), MODES) ?? "password";
+  const kdfName = oneOf("kdf", stringFlag(args, "kdf"), KDFS) ?? "pbkdf2";
+  const iterations = parseNumberFlag(args, "iterations", 100_000);
+  if (iterations !== undefined && kdfName !== "pbkdf2") {
+    throw new UsageError("--iterations only applies to --kdf pbkdf2");
+  }
+  const kdf: KdfOptions =
+    kdfName === "pbkdf2"
+      ? { algorithm: "pbkdf2", iterations: iterations ?? DEFAULT_ITERATIONS }
+      : { algorithm: kdfName };
+
+  const only = (flag: string, forMode: Mode) => {
+    if (args.flags.has(flag) && mode !== forMode) {
+      throw new UsageError(`--${flag} only applies to --mode ${forMode}`);
+    }
+  };
+  ["words", "separator", "case", "extra"].forEach((f) => only(f, "passphrase"));
+  only("template", "template");
+
+  const purpose =
+    oneOf("purpose", stringFlag(args, "purpose"), PURPOSES) ?? "authentication";
+  const style = stringFlag(args, "style");
+  if (purpose === "authentication") {
+    ["keyword", "style"].forEach((f) => {
+      if (args.flags.has(f))
+        throw new UsageError(`--${f} needs --purpose identification|recovery`);
+    });
+  } else {
+    ["mode", "counter"].forEach((f) => {
+      if (args.flags.has(f))
+        throw new UsageError(`--${f} does not apply to --purpose ${purpose}`);
+    });
+    try {
+      purposeStyle(purpose, style);
+    } catch (e) {
+      throw new UsageError(
+        `--style: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+
+  let template: string | undefined;
+  if (mode === "template") {
+    const raw = stringFlag(args, "template");
+    if (!raw) throw new UsageError("--mode template needs --template");
+    template = BUILTIN_TEMPLATES.find((t) => t.id === raw)?.pattern ?? raw;
+    const problem = validateTemplate(template);
+    if (problem) throw new UsageError(`--template: ${problem}`);
+  }
+
+  return {
+    mode,
+    kdf,
+    words: parseNumberFlag(
+      args,
+      "words",
+      PASSPHRASE_MIN_WORDS,
+      PASSPHRASE_MAX_WORDS
+    ),
+    separator: args.flags.has("separator")
+      ? stringFlag(args, "separator")
+      : undefined,
+    capitalization: oneOf("case", stringFlag(args, "case"), PASSPHRASE_CASES),
+    extra: oneOf("extra", stringFlag(args, "extra"), PASSPHRASE_EXTRAS),
+    template,
+    purpose,
+    keyword: stringFlag(args, "keyword"),
+    style,
+  };
+}
+
+async function derive(
+  master: string,
+  target: Target,
+  settings: DeriveSettings
+): Promise<string> {
+  const { context, counter } = target;
+  const { kdf, purpose } = settings;
+  if (target.engine !== DEFAULT_ENGINE) {
+    if (settings.mode !== "password") {
+      throw new UsageError(`--mode ${settings.mode} needs the passw engine`);
+    }
+    if (purpose !== "authentication") {
+      throw new UsageError(`--purpose ${purpose} needs the passw engine`);
+    }
+    return generateWithEngine(target.engine, master, counter, {
+      context,
+      length: target.length,
+      policy: target.policy,
+      login: target.login,
+      fullName: target.fullName,
+      resultType: target.resultType,
+    });
+  }
+  if (purpose !== "authentication") {
+    return generateForPurpose(master, PURPOSE_COUNTER, {
+      context,
+      kdf,
+      purpose,
+      keyword: settings.keyword,
+      style: settings.style,
+    });
+  }
+  switch (settings.mode) {
+    case "passphrase":
+      return generatePassphrase(master, counter, {
+        context,
+        kdf,
+        words: settings.words,
+        separator: settings.separator,
+        capitalization: settings.capitalization,
+        extra: settings.extra,
+      });
+    case "template":
+      return generateFromTemplate(master, counter, {
+        context,
+        kdf,
+        template: settings.template!,
+      });
+    default:
+      return generatePassword(master, counter, {
+        context,
+        kdf,
+        length: target.length,
+        policy: target.policy,
+        algorithmVersion: target.algorithmVersion,
+      });
+  }
+}
+
+// On a terminal, show the fingerprint so a mistyped phrase is noticed
+// before the wrong password gets used. The self-test runs first: a runtime
+// that fails it would derive passwords other devices cannot reproduce
+async function readMaster(): Promise<string> {
+  const report = await selfTest();
+  if (!report.ok) {
+    throw new CliError(describeSelfTestFailure(report), EXIT.ENVIRONMENT);
+  }
+  const master = await promptSecret("Master phrase: ");
+  if (stdinIsTty()) {
+    const fp = await masterFingerprint(master);
+    process.stderr.write(`Fingerprint: ${fp.words.join(" ")}\n`);
+  }
+  return master;
+}
+
+function describe(target: Target, settings: DeriveSettings) {
+  if (target.engine !== DEFAULT_ENGINE) {
+    return {
+      site: target.label,
+      context: target.context,
+      counter: target.counter,
+      mode: settings.mode,
+      engine: target.engine,
+      ...(target.engine === "spectre-v3"
+        ? { resultType: target.resultType ?? "long" }
+        : { length: target.length, login: target.login ?? "" }),
+    };
+  }
+  if (settings.purpose !== "authentication") {
+    return {
+      site: target.label,
+      context: target.context,
+      purpose: settings.purpose,
+      keyword: settings.keyword ?? "",
+      style: purposeStyle(settings.purpose, settings.style).id,
+    };
+  }
+  return {
+    site: target.label,
+    context: target.context,
+    counter: target.counter,
+    mode: settings.mode,
+    ...(settings.mode === "password"
+      ? { length: target.length, algorithmVersion: target.algorithmVersion }
+      : {}),
+  };
+}
+
+export async function generateCommand(argv: string[]): Promise<number> {
+  const args = parseArgs(argv, DERIVE_FLAGS);
+  if (booleanFlag(args, "help")) {
+    print(GENERATE_HELP);
+    return EXIT.OK;
+  }
+  noPositionals(args);
+  const target = await resolveTarget(args);
+  const settings = resolveSettings(args);
+  const password = await derive(await readMaster(), target, settings);
+  if (booleanFlag(args, "json"))
+    printJson({ ...describe(target, settings), password });
+  else print(password);
+  return EXIT.OK;
+}
+
+// Compares without an early exit on the first differing character
+function sameText(a: string, b: string): boolean {
+  const x = new TextEncoder().encode(a);
+  const y = new TextEncoder().encode(b);
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < Math.max(x.length, y.length); i++)
+    diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+  return diff === 0;
+}
+
+export async function verifyCommand(argv: string[]): Promise<number> {
+  const args = parseArgs(argv, DERIVE_FLAGS);
+  if (booleanFlag(args, "help")) {
+    print(VERIFY_HELP);
+    return EXIT.OK;
+  }
+  noPositionals(args);
+  const target = await resolveTarget(args);
+  const settings = resolveSettings(args);
+  const master = await readMaster();
+  const candidate = await promptSecret("Password to check: ");
+  const match = sameText(await derive(master, target, settings), candidate);
+  if (booleanFlag(args, "json"))
+    printJson({ ...describe(target, settings), match });
+  else print(match ? "match" : "no match");
+  return match ? EXIT.OK : EXIT.FAILURE;
+}
+
+const BATCH_FLAGS: FlagSpec = {
+  ...DERIVE_FLAGS,
+  all: "boolean",
+  export: "string",
+};
+
+export async function batchCommand(argv: string[]): Promise<number> {
+  const args = parseArgs(argv, BATCH_FLAGS);
+  if (booleanFlag(args, "help")) {
+    print(BATCH_HELP);
+    return EXIT.OK;
+  }
+  if (["profile", "context", "url"].some((f) => args.flags.has(f))) {
+    throw new UsageError("batch takes sites from a file or --all");
+  }
+  const all = booleanFlag(args, "all");
+  const [file, ...extra] = args.positionals;
+  if (extra.length) throw new UsageError(`unexpected argument "${extra[0]}"`);
+  if (all === !!file) throw new UsageError("give either a file or --all");
+  const format = oneOf("export", stringFlag(args, "export"), EXPORT_FORMATS);
+  if (format && booleanFlag(args, "json"))
+    throw new UsageError("give either --json or --export");
+
+  const profiles = await loadProfiles(args);
+  let sites: { target: Target; profile?: SiteProfile }[];
+  if (all) {
+    sites = filterProfiles(profiles, "").map((p) => ({
+      target: targetFromProfile(args, p),
+      profile: p,
+    }));
+  } else {
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch (e) {
+      throw new CliError(
+        `cannot read ${file}: ${e instanceof Error ? e.message : String(e)}`,
+        EXIT.ENVIRONMENT
+      );
+    }
+    // Lines that are not saved profiles are contexts, normalised as --context
+    const aliases = await loadAliases(args);
+    const { engine } = engineFields(args);
+    sites = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"))
+      .map((line) => {
+        const profile = findProfile(profiles, line);
+        return profile
+          ? { target: targetFromProfile(args, profile), profile }
+          : {
+              target: targetFromFlags(
+                args,
+                entryContext(line, aliases, engine)
+              ),
+            };
+      });
+  }
+  if (!sites.length) throw new CliError("no sites to generate");
+
+  const settings = resolveSettings(args);
+  const master = await readMaster();
+  const results = [];
+  const entries: ExportEntry[] = [];
+  for (const { target, profile } of sites) {
+    const password = await derive(master, target, settings);
+    results.push({ ...describe(target, settings), password });
+    entries.push({
+      name: target.label,
+      context: target.context,
+      username: profile?.username,
+      notes: profile?.notes,
+      password,
+    });
+  }
+  if (format) {
+    process.stderr.write(
+      "Warning: the export holds every password in plain text. Encrypt it " +
+        "or import it right away, then delete it.\n"
+    );
+    process.stdout.write(serializeExport(entries, format));
+  } else if (booleanFlag(args, "json")) printJson(results);
+  else results.forEach((r) => print(`${r.site}\t${r.password}`));
+  return EXIT.OK;
+}
+
+export async function selfTestCommand(argv: string[]): Promise<number> {
+  const args = parseArgs(argv, COMMON_FLAGS);
+  if (booleanFlag(args, "help")) {
+    print(SELF_TEST_HELP);
+    return EXIT.OK;
+  }
+  noPositionals(args);
+  const report = await selfTest();
+  if (booleanFlag(args, "json")) printJson(report);
+  else if (report.ok)
+    print(`ok: ${report.checked} known answers match (${report.ms} ms)`);
+  else print(describeSelfTestFailure(report));
+  return report.ok ? EXIT.OK : EXIT.FAILURE;
+}
+
+const PROFILE_FLAGS: FlagSpec = {
+  ...COMMON_FLAGS,
+  search: "string",
+  name: "string",
+  context: "string",
+  url: "string",
+  counter: "number",
+  length: "number",
+  algorithm: "string",
+  engine: "string",
+  "full-name": "string",
+  "result-type": "string",
+  username: "string",
+  notes: "string",
+  "max-age": "number",
+  reason: "string",
+  since: "string",
+};
+
+function sinceFlag(args: ParsedArgs): Date | undefined {
+  const raw = stringFlag(args, "since");
+  if (raw === undefined) return undefined;
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(raw)
+    ? new Date(`${raw}T00:00:00`)
+    : new Date(NaN);
+  if (Number.isNaN(date.getTime()))
+    throw new UsageError(
+      `--since must be a date like 2024-05-31, got "${raw}"`
+    );
+  return date;
+}
+
+export async function profilesCommand(argv: string[]): Promise<number> {
+  const args = parseArgs(argv, PROFILE_FLAGS);
+  const [action, ...rest] = args.positionals;
+  if (booleanFlag(args, "help") || !action) {
+    print(PROFILES_HELP);
+    return booleanFlag(args, "help") ? EXIT.OK : EXIT.USAGE;
+  }
+  const path = profilesPath(stringFlag(args, "profiles-file"));
+  const profiles = await loadProfiles(args);
+
+  switch (action) {
+    case "list": {
+      if (rest.length) throw new UsageError(`unexpected argument "${rest[0]}"`);
+      const shown = filterProfiles(profiles, stringFlag(args, "search") ?? "");
+      if (booleanFlag(args, "json")) printJson(shown);
+      else if (!shown.length) process.stderr.write("No saved sites.\n");
+      else
+        shown.forEach((p) =>
+          print(
+            [
+              p.name,
+              p.context,
+              `#${p.counter}`,
+              p.engine === "spectre-v3"
+                ? p.resultType ?? "long"
+                : `${p.length} chars`,
+              p.engine && p.engine !== DEFAULT_ENGINE
+                ? p.engine
+                : p.algorithmVersion,
+              p.username ?? "",
+              `${passwordAgeDays(p)} d${isOverdue(p) ? " (rotate)" : ""}`,
+            ].join("\t")
+          )
+        );
+      return EXIT.OK;
+    }
+    case "add": {
+      if (rest.length) throw new UsageError(`unexpected argument "${rest[0]}"`);
+      const name = stringFlag(args, "name");
+      if (!name) throw new UsageError("profiles add needs --name");
+      if (findProfile(profiles, name)) {
+        throw new CliError(`a profile named "${name}" already exists`);
+      }
+      const { engine } = engineFields(args);
+      const context =
+        (await contextFlag(args, engine)) ??
+        entryContext(name, await loadAliases(args), engine);
+      const target = targetFromFlags(args, context);
+      let profile: SiteProfile;
+      try {
+        profile = createProfile({
+          name,
+          context: target.context,
+          counter: target.counter,
+          length: target.length,
+          algorithmVersion: target.algorithmVersion,
+          engine: target.engine === DEFAULT_ENGINE ? undefined : target.engine,
+          fullName: target.fullName,
+          resultType: target.resultType,
+          username: stringFlag(args, "username"),
+          notes: stringFlag(args, "notes"),
+          maxAgeDays: parseNumberFlag(args, "max-age", 1),
+        });
+      } catch (e) {
+        throw new UsageError(e instanceof Error ? e.message : String(e));
+      }
+      await writeProfilesFile(path, [...profiles, profile]);
+      if (booleanFlag(args, "json")) printJson(profile);
+      else
+        print(`Added "${profile.name}" (${profile.context || "no context"})`);
+      return EXIT.OK;
+    }
+    case "rotate": {
+      if (rest.length !== 1)
+        throw new UsageError("profiles rotate needs a name or id");
+      const profile = findProfile(profiles, rest[0]);
+      if (!profile) throw new CliError(`no saved profile named "${rest[0]}"`);
+      const rotated = rotateProfile(profile, stringFlag(args, "reason"));
+      await writeProfilesFile(
+        path,
+        profiles.map((p) => (p.id === profile.id ? rotated : p))
+      );
+      if (booleanFlag(args, "json")) printJson(rotated);
+      else print(`"${rotated.name}" now uses counter ${rotated.counter}`);
+      return EXIT.OK;
+    }
+    case "stale": {
+      if (rest.length) throw new UsageError(`unexpected argument "${rest[0]}"`);
+      const since = sinceFlag(args);
+      const stale = since
+        ? sitesNotRotatedSince(profiles, since)
+        : overdueSites(profiles);
+      if (booleanFlag(args, "json"))
+        printJson(
+          stale.map(({ profile, setAt, ageDays }) => ({
+            site: profile.name,
+            id: profile.id,
+            counter: profile.counter,
+            setAt,
+            ageDays,
+            maxAgeDays: profile.maxAgeDays,
+          }))
+        );
+      else if (!stale.length) process.stderr.write("No sites to rotate.\n");
+      else
+        stale.forEach(({ profile, setAt, ageDays }) =>
+          print(
+            [
+              profile.name,
+              `#${profile.counter}`,
+              setAt.slice(0, 10),
+              `${ageDays} d`,
+            ].join("\t")
+          )
+        );
+      return EXIT.OK;
+    }
+    case "rm": {
+      if (rest.length !== 1)
+        throw new UsageError("profiles rm needs a name or id");
+      const profile = findProfile(profiles, rest[0]);
+      if (!profile) throw new CliError(`no saved profile named "${rest[0]}"`);
+      await writeProfilesFile(
+        path,
+        profiles.filter((p) => p.id !== profile.id)
+      );
+      if (booleanFlag(args, "json")) printJson(profile);
+      else print(`Removed "${profile.name}"`);
+      return EXIT.OK;
+    }
+    default:
+      throw new UsageError(`unknown profiles action "${action}"`);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Terminal input for the CLI
+ * - Secrets are read with a hidden prompt on a TTY, never from argv
+ * - When stdin is piped, each prompt consumes the next line of stdin
+ */
+
+import { CliError, EXIT } from "./args";
+
+let pipedLines: string[] | null = null;
+
+async function readAllStdin(): Promise<string[]> {
+  if (pipedLines) return pipedLines;
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  pipedLines = Buffer.concat(chunks).toString("utf8").split(/\r?\n/);
+  return pipedLines;
+}
+
+/** Next line of piped stdin, or null when it is exhausted. */
+export async function readStdinLine(): Promise<string | null> {
+  const lines = await readAllStdin();
+  while (lines.length > 0) {
+    const line = lines.shift()!;
+    if (line !== "" || lines.length > 0) return line;
+  }
+  return null;
+}
+
+export function stdinIsTty(): boolean {
+  return !!process.stdin.isTTY;
+}
+
+function promptTty(question: string): Promise<string> {
+  const { stdin, stderr } = process;
+  stderr.write(question);
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf8");
+  stdin.resume();
+  return new Promise((resolve, reject) => {
+    let value = "";
+    const finish = (err?: Error) => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stderr.write("\n");
+      if (err) reject(err);
+      else resolve(value);
+    };
+    const onData = (chunk: string) => {
+      for (const ch of chunk) {
+        if (ch === "\r" || ch === "\n" || ch === "\u0004") return finish();
+        if (ch === "\u0003")
+          return finish(new CliError("cancelled", EXIT.CANCELLED));
+        if (ch === "\u007f" || ch === "\b") {
+          value = Array.from(value).slice(0, -1).join("");
+        } else {
+          value += ch;
+        }
+      }
+    };
+    stdin.on("data", onData);
+  });
+}
+
+/** Read a secret without echoing it. */
+export async function promptSecret(question: string): Promise<string> {
+  const value = stdinIsTty()
+    ? await promptTty(question)
+    : await readStdinLine();
+  if (!value) throw new CliError(`no input for "${question.trim()}"`);
+  return value;
+}
+
+export function print(line: string): void {
+  process.stdout.write(`${line}\n`);
+}
+
+export function printJson(value: unknown): void {
+  print(JSON.stringify(value, null, 2));
+}
@@ -0,0 +1,73 @@
+/**
+ * passw command-line entry point
+ * Build with `pnpm build:cli`, then run `node dist-cli/main.js <command>`.
+ */
+
+import { CliError, EXIT } from "./args";
+import {
+  batchCommand,
+  generateCommand,
+  profilesCommand,
+  selfTestCommand,
+  verifyCommand,
+} from "./commands";
+import { print } from "./io";
+
+const HELP = `Usage: passw <command> [options]
+
+Deterministic passwords from a master phrase. The master phrase is never
+taken from the command line: it is read from a hidden prompt, or from stdin
+when stdin is not a terminal.
+
+Commands:
+  generate     derive the password for one site
+  verify       check a password against what passw would derive
+  batch        derive passwords for a list of sites
+  profiles     list, add or remove saved site profiles
+  self-test    check this runtime against the known-answer vectors
+
+Run "passw <command> --help" for the options of each command.
+
+Exit codes:
+  0    success
+  1    failure, or "verify" found no match
+  2    invalid command line
+  3    profiles file or input file could not be read, or the crypto
+       self-test failed
+  130  cancelled at a prompt
+`;
+
+const COMMANDS: Record<string, (argv: string[]) => Promise<number>> = {
+  generate: generateCommand,
+  verify: verifyCommand,
+  batch: batchCommand,
+  profiles: profilesCommand,
+  "self-test": selfTestCommand,
+};
+
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (!command || command === "--help" || command === "help") {
+    print(HELP);
+    return command ? EXIT.OK : EXIT.USAGE;
+  }
+  const run = COMMANDS[command];
+  if (!run) {
+    process.stderr.write(`passw: unknown command "${command}"\n\n${HELP}`);
+    return EXIT.USAGE;
+  }
+  try {
+    return await run(rest);
+  } catch (e: any) {
+    const code = e instanceof CliError ? e.exitCode : EXIT.FAILURE;
+    process.stderr.write(`passw ${command}: ${e?.message ?? e}\n`);
+    if (code === EXIT.USAGE) {
+      process.stderr.write(`Run "passw ${command} --help" for usage.\n`);
+    }
+    return code;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
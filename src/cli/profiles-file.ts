@@ -0,0 +1,81 @@
+/**
+ * Profile storage for the CLI. Uses the same file and format as the desktop
+ * app (profiles.json in the Tauri app data directory), so sites added on
+ * either side show up on the other. Context aliases live next to it in
+ * aliases.json.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  parseProfiles,
+  serializeProfiles,
+  type SiteProfile,
+} from "@/utils/profiles";
+import { parseAliases, type ContextAlias } from "@/utils/site-context";
+
+const APP_IDENTIFIER = "com.jigonzalez930209.passw";
+
+/** Same directory Tauri's `app_data_dir()` resolves to on each platform. */
+export function defaultProfilesPath(): string {
+  const home = homedir();
+  let base: string;
+  if (process.platform === "win32") {
+    base = process.env.APPDATA ?? join(home, "AppData", "Roaming");
+  } else if (process.platform === "darwin") {
+    base = join(home, "Library", "Application Support");
+  } else {
+    base = process.env.XDG_DATA_HOME ?? join(home, ".local", "share");
+  }
+  return join(base, APP_IDENTIFIER, "profiles.json");
+}
+
+export function profilesPath(override?: string): string {
+  return override ?? process.env.PASSW_PROFILES ?? defaultProfilesPath();
+}
+
+export async function readProfilesFile(path: string): Promise<SiteProfile[]> {
+  try {
+    return parseProfiles(await readFile(path, "utf8"));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return [];
+    throw e;
+  }
+}
+
+/** The desktop app keeps aliases.json beside profiles.json. */
+export function aliasesPath(profilesFile: string): string {
+  return join(dirname(profilesFile), "aliases.json");
+}
+
+export async function readAliasesFile(path: string): Promise<ContextAlias[]> {
+  try {
+    return parseAliases(await readFile(path, "utf8"));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return [];
+    throw e;
+  }
+}
+
+export async function writeProfilesFile(
+  path: string,
+  profiles: SiteProfile[]
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.tmp`;
+  await writeFile(tmp, serializeProfiles(profiles), { mode: 0o600 });
+  await rename(tmp, path);
+}
+
+/** Find a profile by id or (case-insensitive) name. */
+export function findProfile(
+  profiles: SiteProfile[],
+  key: string
+): SiteProfile | undefined {
+  const lower = key.toLowerCase();
+  return (
+    profiles.find((p) => p.id === key) ??
+    profiles.find((p) => p.name.toLowerCase() === lower)
+  );
+}
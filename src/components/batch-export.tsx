@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useState } from "react";
+import { TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { parseContextList } from "@/utils/batch";
+import { enc } from "@/utils/crypto";
+import {
+  cancelDerivation,
+  DerivationCancelled,
+} from "@/utils/derivation-client";
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  decryptCommand,
+  encryptExport,
+  exportFileName,
+  serializeExport,
+  type ExportEntry,
+  type ExportFormat,
+} from "@/utils/exporters";
+import {
+  filterProfiles,
+  type SiteProfile,
+  type SiteProfileInput,
+} from "@/utils/profiles";
+import { saveFile } from "@/utils/save-file";
+import type { ContextAlias } from "@/utils/site-context";
+
+type Source = "saved" | "list";
+
+type Props = {
+  profiles: SiteProfile[];
+  /** settings for sites from a list */
+  defaults: SiteProfileInput;
+  aliases: ContextAlias[];
+  /** derive with the phrase in the main field */
+  onGenerate: (
+    sites: SiteProfileInput[],
+    onProgress: (done: number, total: number) => void
+  ) => Promise<ExportEntry[]>;
+  onClose: () => void;
+};
+
+// Generate passwords for many sites and save them for another password manager
+const BatchExport = ({
+  profiles,
+  defaults,
+  aliases,
+  onGenerate,
+  onClose,
+}: Props) => {
+  const [source, setSource] = useState<Source>(
+    profiles.length ? "saved" : "list"
+  );
+  const [list, setList] = useState("");
+  const [format, setFormat] = useState<ExportFormat>("bitwarden-json");
+  const [encrypt, setEncrypt] = useState(true);
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState<{ where: string; command?: string }>();
+
+  // The batch runs in its own derivation slot, so only closing the dialog
+  // or its Cancel button stops it
+  useEffect(() => () => cancelDerivation("batch"), []);
+
+  const parsed = useMemo(() => {
+    if (source === "saved") return { rows: [], error: "" };
+    try {
+      return { rows: parseContextList(list, defaults, aliases), error: "" };
+    } catch (e: any) {
+      return { rows: [], error: e?.message ?? String(e) };
+    }
+  }, [source, list, defaults, aliases]);
+
+  const sites: SiteProfileInput[] =
+    source === "saved"
+      ? filterProfiles(profiles, "")
+      : parsed.rows.flatMap((r) => (r.profile ? [r.profile] : []));
+  const failed = parsed.rows.filter((r) => r.error);
+  const passwordProblem = !encrypt
+    ? ""
+    : !password
+    ? "Choose a password for the file"
+    : password !== confirm
+    ? "The passwords do not match"
+    : "";
+  const ready =
+    sites.length > 0 &&
+    !progress &&
+    (encrypt ? !passwordProblem : acknowledged);
+
+  const run = async () => {
+    setError("");
+    setSaved(undefined);
+    setProgress([0, sites.length]);
+    try {
+      const entries = await onGenerate(sites, (done, total) =>
+        setProgress([done, total])
+      );
+      const text = serializeExport(entries, format);
+      const name = exportFileName(format, encrypt);
+      const data = encrypt
+        ? await encryptExport(text, password)
+        : enc.encode(text);
+      const path = await saveFile(name, data);
+      setSaved({
+        where: path ? `Saved to ${path}` : `Downloaded ${name}`,
+        command: encrypt ? decryptCommand(name) : undefined,
+      });
+      setPassword("");
+      setConfirm("");
+    } catch (e: any) {
+      if (!(e instanceof DerivationCancelled))
+        setError(e?.message ?? String(e));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-3 rounded-lg border p-3 text-sm">
+      <div
+        role="alert"
+        className="flex gap-2 rounded-md border border-red-600 bg-red-600/10 p-2 text-xs text-red-700 dark:text-red-300"
+      >
+        <TriangleAlert size={16} aria-hidden="true" className="shrink-0" />
+        <p>
+          <strong>The export holds every password in plain text.</strong> Anyone
+          who gets the file, a backup of it or your Downloads folder can log in
+          to these sites. Encrypt it, import it into the password manager
+          straight away, then delete it and empty the trash.
+        </p>
+      </div>
+      <fieldset className="space-y-1">
+        <legend className="text-xs opacity-60">Sites</legend>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="batch-source"
+            checked={source === "saved"}
+            disabled={!profiles.length}
+            onChange={() => setSource("saved")}
+          />
+          All saved sites ({profiles.length})
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="batch-source"
+            checked={source === "list"}
+            onChange={() => setSource("list")}
+          />
+          A list of contexts (CSV)
+        </label>
+      </fieldset>
+      {source === "list" && (
+        <div className="space-y-1">
+          <textarea
+            aria-label="Contexts, one per line"
+            value={list}
+            onChange={(e) => setList(e.target.value)}
+            placeholder={
+              "google.com,alice@example.com\nhttps://github.com/login"
+            }
+            rows={4}
+            className="border-input dark:bg-input/30 w-full rounded-md border bg-transparent px-2 py-1 font-mono text-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+          />
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            aria-label="Context list file"
+            className="block w-full text-xs"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) setList(await file.text());
+            }}
+          />
+          <p className="text-xs opacity-60">
+            One context or URL per line, optionally followed by a username; or a
+            CSV with a header naming name, context, username, counter, length
+            and notes. Other settings come from the generator above.
+          </p>
+          {parsed.error && (
+            <p className="text-red-600 dark:text-red-400">{parsed.error}</p>
+          )}
+          {failed.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-red-600 dark:text-red-400">
+                {failed.length} line{failed.length === 1 ? "" : "s"} skipped
+              </summary>
+              <ul className="mt-1 list-disc pl-5 text-xs">
+                {failed.map((r) => (
+                  <li key={r.source}>
+                    {r.source}: {r.error}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+      <div>
+        <label htmlFor="export-format" className="text-xs opacity-60">
+          Format
+        </label>
+        <Select
+          id="export-format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="w-full"
+        >
+          {EXPORT_FORMATS.map((f) => (
+            <option key={f} value={f}>
+              {EXPORT_FORMAT_LABELS[f]}
+            </option>
+          ))}
+        </Select>
+      </div>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={encrypt}
+          onChange={(e) => setEncrypt(e.target.checked)}
+        />
+        Encrypt the file with a one-off password
+      </label>
+      {encrypt ? (
+        <div className="space-y-1">
+          <Input
+            type="password"
+            aria-label="Export password"
+            placeholder="Export password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <Input
+            type="password"
+            aria-label="Repeat the export password"
+            placeholder="Repeat the export password"
+            autoComplete="new-password"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+          />
+          <p className="text-xs opacity-60">
+            {passwordProblem ||
+              "Not your master phrase. Decrypt the file with openssl before importing it."}
+          </p>
+        </div>
+      ) : (
+        <label className="flex items-center gap-2 text-red-600 dark:text-red-400">
+          <input
+            type="checkbox"
+            checked={acknowledged}
+            onChange={(e) => setAcknowledged(e.target.checked)}
+          />
+          I understand the file is not protected
+        </label>
+      )}
+      {progress && (
+        <div role="status" aria-live="polite">
+          <div className="flex items-center justify-between text-xs opacity-80">
+            <span>
+              Generating site {Math.min(progress[0] + 1, progress[1])} of{" "}
+              {progress[1]}…
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => cancelDerivation("batch")}
+            >
+              Cancel
+            </Button>
+          </div>
+          <div
+            className="mt-1 h-1.5 w-full overflow-hidden rounded bg-muted"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={progress[1]}
+            aria-valuenow={progress[0]}
+          >
+            <div
+              className="h-full bg-primary transition-[width] duration-100"
+              style={{ width: `${(progress[0] / progress[1]) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+      {saved && (
+        <div className="space-y-1 text-xs">
+          <p>{saved.where}. Delete it once it is imported.</p>
+          {saved.command && (
+            <code className="block break-all rounded bg-muted p-1.5">
+              {saved.command}
+            </code>
+          )}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Close
+        </Button>
+        <Button type="button" size="sm" disabled={!ready} onClick={run}>
+          Export {sites.length} site{sites.length === 1 ? "" : "s"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchExport;
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SiteProfile } from "@/utils/profiles";
+import { sitesNotRotatedSince } from "@/utils/rotation";
+
+type Props = {
+  profiles: SiteProfile[];
+  onRotate: (profile: SiteProfile) => void;
+  onClose: () => void;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Forced rotation after a breach: every site still on a counter from before it
+const BreachReport = ({ profiles, onRotate, onClose }: Props) => {
+  const [date, setDate] = useState(today);
+  const since = new Date(`${date}T00:00:00`);
+  const stale = Number.isNaN(since.getTime())
+    ? []
+    : sitesNotRotatedSince(profiles, since);
+
+  return (
+    <div className="mt-3 space-y-2 rounded-lg border p-3 text-sm">
+      <div className="flex items-end justify-between gap-2">
+        <div>
+          <label htmlFor="breach-date" className="text-xs opacity-60">
+            Breach date
+          </label>
+          <Input
+            id="breach-date"
+            type="date"
+            value={date}
+            max={today()}
+            onChange={(e) => setDate(e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+      <p className="text-xs opacity-80">
+        {stale.length === 0
+          ? "Every site has been rotated since that date."
+          : `${stale.length} site${
+              stale.length === 1 ? "" : "s"
+            } still on a password from before that date:`}
+      </p>
+      {stale.length > 0 && (
+        <ul className="divide-y">
+          {stale.map(({ profile, setAt, ageDays }) => (
+            <li key={profile.id} className="flex items-center gap-2 py-1.5">
+              <span className="flex-1 truncate">
+                {profile.name}
+                <span className="ml-2 text-xs opacity-60">
+                  #{profile.counter} since{" "}
+                  {new Date(setAt).toLocaleDateString()} ({ageDays} d)
+                </span>
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onRotate(profile)}
+              >
+                <RotateCw size={14} /> Rotate
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BreachReport;
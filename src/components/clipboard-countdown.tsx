@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+
+type Props = {
+  /** what was copied (default "Password") */
+  what?: string;
+  /** epoch milliseconds when the clipboard will be cleared */
+  clearsAt: number;
+};
+
+// Toast body that counts down to the clipboard being cleared
+const ClipboardCountdown = ({ what = "Password", clearsAt }: Props) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const left = Math.max(0, Math.ceil((clearsAt - now) / 1000));
+  return (
+    <span>
+      {what} copied. Clipboard clears in{" "}
+      <span className="font-medium tabular-nums">{left}</span> s
+    </span>
+  );
+};
+
+export default ClipboardCountdown;
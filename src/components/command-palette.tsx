@@ -0,0 +1,161 @@
+import { useRef, useState } from "react";
+import { Command, KeyRound } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { fuzzySearch } from "@/utils/fuzzy";
+import { searchProfiles, type SiteProfile } from "@/utils/profiles";
+import { cn } from "@/lib/utils";
+
+const MAX_SITES = 6;
+
+export type PaletteCommand = {
+  id: string;
+  label: string;
+  /** shortcut shown next to the label */
+  hint?: string;
+  run: () => void;
+};
+
+type Item = {
+  key: string;
+  label: string;
+  detail?: string;
+  site: boolean;
+  run: () => void;
+};
+
+type Props = {
+  profiles: SiteProfile[];
+  activeId: string | null;
+  commands: PaletteCommand[];
+  onSelectProfile: (profile: SiteProfile | null) => void;
+  onClose: () => void;
+};
+
+// Ctrl/Cmd+K: type to find a saved site or an action, Enter runs it
+const CommandPalette = ({
+  profiles,
+  activeId,
+  commands,
+  onSelectProfile,
+  onClose,
+}: Props) => {
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const sites: Item[] = searchProfiles(profiles, query)
+    .slice(0, MAX_SITES)
+    .map((p) => ({
+      key: `site:${p.id}`,
+      label: p.name,
+      detail: p.id === activeId ? "current site" : p.username || p.context,
+      site: true,
+      run: () => onSelectProfile(p),
+    }));
+  if (activeId && !query)
+    sites.push({
+      key: "site:none",
+      label: "No site",
+      detail: "forget the current site",
+      site: true,
+      run: () => onSelectProfile(null),
+    });
+  const actions: Item[] = fuzzySearch(commands, query, (c) => [c.label]).map(
+    (c) => ({
+      key: `command:${c.id}`,
+      label: c.label,
+      detail: c.hint,
+      site: false,
+      run: c.run,
+    })
+  );
+  const items = [...sites, ...actions];
+  const current = Math.min(selected, items.length - 1);
+
+  const run = (item: Item | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      const next = (current + step + items.length) % Math.max(items.length, 1);
+      setSelected(next);
+      listRef.current?.children[next]?.scrollIntoView({ block: "nearest" });
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(items[current]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+    // The palette owns the keyboard while it is open
+    e.stopPropagation();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-[15dvh]"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-md rounded-xl border bg-secondary p-2 text-secondary-foreground shadow-lg"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={onKeyDown}
+      >
+        <Input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelected(0);
+          }}
+          placeholder="Search sites and actions..."
+          aria-label="Search sites and actions"
+          autoFocus
+        />
+        <ul
+          ref={listRef}
+          role="listbox"
+          className="mt-2 max-h-80 space-y-0.5 overflow-y-auto text-sm"
+        >
+          {items.map((item, i) => (
+            <li
+              key={item.key}
+              role="option"
+              aria-selected={i === current}
+              onMouseMove={() => setSelected(i)}
+              onClick={() => run(item)}
+              className={cn(
+                "flex cursor-default items-center gap-2 rounded-md px-2 py-1",
+                i === current && "bg-primary text-primary-foreground"
+              )}
+            >
+              {item.site ? (
+                <KeyRound size={14} aria-hidden="true" className="shrink-0" />
+              ) : (
+                <Command size={14} aria-hidden="true" className="shrink-0" />
+              )}
+              <span className="flex-1 truncate">{item.label}</span>
+              {item.detail && (
+                <span className="truncate text-xs opacity-70">
+                  {item.detail}
+                </span>
+              )}
+            </li>
+          ))}
+          {items.length === 0 && (
+            <li className="px-2 py-1 text-xs opacity-60">Nothing matches</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,90 @@
+import { useEffect, useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type Props = {
+  title: string;
+  message?: string;
+  confirmLabel: string;
+  /** red confirm button, for deletions */
+  destructive?: boolean;
+  /** ask for an optional line of text, handed to onConfirm */
+  input?: { label: string; initial?: string };
+  onConfirm: (value: string) => void;
+  onCancel: () => void;
+};
+
+// In-app replacement for window.confirm/prompt, which block the page and
+// are not reliably shown by desktop webviews
+const ConfirmDialog = ({
+  title,
+  message,
+  confirmLabel,
+  destructive,
+  input,
+  onConfirm,
+  onCancel,
+}: Props) => {
+  const id = useId();
+  const [value, setValue] = useState(input?.initial ?? "");
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-[15dvh]"
+      onMouseDown={onCancel}
+    >
+      <form
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby={`${id}-title`}
+        className="w-full max-w-sm space-y-3 rounded-xl border bg-secondary p-4 text-sm text-secondary-foreground shadow-lg"
+        onMouseDown={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onConfirm(value);
+        }}
+      >
+        <h2 id={`${id}-title`} className="font-medium">
+          {title}
+        </h2>
+        {message && <p className="opacity-80">{message}</p>}
+        {input && (
+          <div>
+            <label htmlFor={`${id}-input`} className="text-xs opacity-60">
+              {input.label}
+            </label>
+            <Input
+              id={`${id}-input`}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              autoFocus
+            />
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            size="sm"
+            variant={destructive ? "destructive" : "default"}
+            autoFocus={!input}
+          >
+            {confirmLabel}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ConfirmDialog;
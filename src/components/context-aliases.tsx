@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { ArrowRight, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  normalizeContext,
+  validateAlias,
+  type ContextAlias,
+} from "@/utils/site-context";
+
+type Props = {
+  aliases: ContextAlias[];
+  onChange: (aliases: ContextAlias[]) => void;
+  onClose: () => void;
+};
+
+// Alias rules such as youtube.com → google.com, applied to new contexts
+const ContextAliases = ({ aliases, onChange, onClose }: Props) => {
+  const [draft, setDraft] = useState<ContextAlias>({ from: "", to: "" });
+  const touched = draft.from.trim() !== "" || draft.to.trim() !== "";
+  const errors = validateAlias(draft, aliases);
+
+  return (
+    <div className="mt-3 space-y-2 rounded-lg border p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-xs opacity-60">
+          Sites that share one login, e.g. youtube.com → google.com
+        </span>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+      {aliases.length > 0 && (
+        <ul className="divide-y">
+          {aliases.map((a, i) => (
+            <li key={i} className="flex items-center gap-2 py-1">
+              <span className="flex flex-1 items-center gap-1.5 truncate">
+                {normalizeContext(a.from)}
+                <ArrowRight size={12} aria-hidden="true" />
+                {normalizeContext(a.to)}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove alias ${a.from}`}
+                onClick={() => onChange(aliases.filter((_, j) => j !== i))}
+              >
+                <Trash2 className="text-current" size={14} />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form
+        className="flex items-center gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (errors.length) return;
+          onChange([
+            ...aliases,
+            { from: draft.from.trim(), to: draft.to.trim() },
+          ]);
+          setDraft({ from: "", to: "" });
+        }}
+      >
+        <Input
+          aria-label="Alias from"
+          placeholder="youtube.com"
+          value={draft.from}
+          onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+          className="h-8 min-w-0"
+        />
+        <ArrowRight size={14} aria-hidden="true" className="shrink-0" />
+        <Input
+          aria-label="Alias to"
+          placeholder="google.com"
+          value={draft.to}
+          onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+          className="h-8 min-w-0"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          disabled={errors.length > 0}
+        >
+          <Plus size={14} /> Add
+        </Button>
+      </form>
+      {touched && errors.length > 0 && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          {errors.join("; ")}
+        </p>
+      )}
+      <p className="text-xs opacity-60">
+        Aliases apply when a site's context is entered; saved sites keep their
+        context, so their passwords do not change.
+      </p>
+    </div>
+  );
+};
+
+export default ContextAliases;
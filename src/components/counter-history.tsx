@@ -0,0 +1,43 @@
+import { Select } from "@/components/ui/select";
+import type { SiteProfile } from "@/utils/profiles";
+import { counterHistory } from "@/utils/rotation";
+
+type Props = {
+  profile: SiteProfile;
+  /** counter in use for the next generation */
+  counter: number;
+  onChange: (counter: number) => void;
+};
+
+// Picks an older counter of a rotated site, e.g. to log in one last time
+const CounterHistory = ({ profile, counter, onChange }: Props) => (
+  <div className="mb-2 text-xs">
+    <label className="flex items-center gap-1 opacity-80">
+      Password
+      <Select
+        value={counter}
+        onChange={(e) => onChange(Number(e.target.value))}
+        size="sm"
+      >
+        {counterHistory(profile).map(({ counter: c, current, rotation }) => (
+          <option key={c} value={c}>
+            #{c}
+            {current ? " (current)" : ""}
+            {rotation
+              ? ` · rotated ${new Date(rotation.at).toLocaleDateString()}`
+              : ""}
+            {rotation?.reason ? ` · ${rotation.reason}` : ""}
+          </option>
+        ))}
+      </Select>
+    </label>
+    {counter !== profile.counter && (
+      <p className="mt-1 text-amber-700 dark:text-amber-400">
+        Old password #{counter}: use it only to log in and change it to the
+        current one.
+      </p>
+    )}
+  </div>
+);
+
+export default CounterHistory;
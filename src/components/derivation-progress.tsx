@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { DeriveProgress } from "@/utils/derivation-client";
+
+// Estimated progress never claims to be finished before the result arrives
+const MAX_ESTIMATED_FRACTION = 0.95;
+
+type Props = {
+  progress: DeriveProgress | null;
+  startedAt: number;
+  onCancel: () => void;
+};
+
+const DerivationProgress = ({ progress, startedAt, onCancel }: Props) => {
+  const [now, setNow] = useState(() => performance.now());
+
+  const estimatedMs =
+    progress && "estimatedMs" in progress ? progress.estimatedMs : null;
+  useEffect(() => {
+    if (estimatedMs === null) return;
+    const timer = setInterval(() => setNow(performance.now()), 100);
+    return () => clearInterval(timer);
+  }, [estimatedMs]);
+
+  let fraction = 0;
+  let detail = "Deriving key…";
+  if (progress && "fraction" in progress) {
+    fraction = progress.fraction;
+    detail = `Deriving key… ${Math.round(fraction * 100)}%`;
+  } else if (estimatedMs !== null) {
+    const elapsed = now - startedAt;
+    fraction = Math.min(MAX_ESTIMATED_FRACTION, elapsed / estimatedMs);
+    const left = Math.max(0, (estimatedMs - elapsed) / 1000);
+    detail =
+      left >= 0.1
+        ? `Deriving key… about ${left.toFixed(1)} s left`
+        : "Deriving key… almost done";
+  }
+
+  return (
+    <div className="mt-4" role="status" aria-live="polite">
+      <div className="flex items-center justify-between text-xs opacity-80">
+        <span>{detail}</span>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+      <div
+        className="mt-1 h-1.5 w-full overflow-hidden rounded bg-muted"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(fraction * 100)}
+      >
+        <div
+          className="h-full bg-primary transition-[width] duration-100"
+          style={{ width: `${fraction * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DerivationProgress;
@@ -0,0 +1,166 @@
+import { useMemo, useState } from "react";
+import {
+  IMPORT_FORMATS,
+  IMPORT_FORMAT_LABELS,
+  detectFormat,
+  markDuplicates,
+  parseImport,
+  type ImportFormat,
+  type ImportRow,
+} from "@/utils/importers";
+import type { SiteProfile, SiteProfileInput } from "@/utils/profiles";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+type Props = {
+  existing: SiteProfile[];
+  onImport: (profiles: SiteProfileInput[]) => void;
+  onClose: () => void;
+};
+
+const ImportSites = ({ existing, onImport, onClose }: Props) => {
+  const [fileName, setFileName] = useState("");
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<ImportFormat | "">("");
+  // Per-row tick overrides; duplicates start unticked, everything else ticked
+  const [ticked, setTicked] = useState<Map<string, boolean>>(new Map());
+
+  const parsed = useMemo((): { rows: ImportRow[]; error: string } => {
+    if (!text || !format) return { rows: [], error: "" };
+    try {
+      return {
+        rows: markDuplicates(parseImport(text, format), existing),
+        error: "",
+      };
+    } catch (e: any) {
+      return { rows: [], error: e?.message ?? String(e) };
+    }
+  }, [text, format, existing]);
+
+  const importable = parsed.rows.filter((r) => r.profile);
+  const isTicked = (r: ImportRow) => ticked.get(r.source) ?? !r.duplicateOf;
+  const selected = importable.filter(isTicked);
+  const failed = parsed.rows.filter((r) => r.error);
+
+  const toggle = (r: ImportRow) =>
+    setTicked((prev) => new Map(prev).set(r.source, !isTicked(r)));
+
+  return (
+    <div className="mt-3 space-y-3 rounded-lg border p-3 text-sm">
+      <p className="text-xs opacity-60">
+        Only site names, URLs, usernames and notes are imported. Stored
+        passwords in the file are ignored — delete the export when done.
+      </p>
+      <input
+        type="file"
+        accept=".json,.csv,.xml,application/json,text/csv,text/xml"
+        aria-label="Export file"
+        className="block w-full text-xs"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          if (!file) return;
+          const content = await file.text();
+          setFileName(file.name);
+          setText(content);
+          setFormat(detectFormat(file.name, content) ?? "");
+          setTicked(new Map());
+        }}
+      />
+      {fileName && (
+        <div>
+          <label htmlFor="import-format" className="text-xs opacity-60">
+            Format
+          </label>
+          <Select
+            id="import-format"
+            value={format}
+            onChange={(e) => {
+              setFormat(e.target.value as ImportFormat | "");
+              setTicked(new Map());
+            }}
+            className="w-full"
+          >
+            <option value="">Choose a format…</option>
+            {IMPORT_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {IMPORT_FORMAT_LABELS[f]}
+              </option>
+            ))}
+          </Select>
+        </div>
+      )}
+      {parsed.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{parsed.error}</p>
+      )}
+      {importable.length > 0 && (
+        <div className="max-h-60 overflow-y-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="opacity-60">
+              <tr>
+                <th className="font-normal" />
+                <th className="font-normal">Name</th>
+                <th className="font-normal">Context</th>
+                <th className="font-normal">Username</th>
+              </tr>
+            </thead>
+            <tbody>
+              {importable.map((r) => (
+                <tr
+                  key={r.source}
+                  className={cn(r.duplicateOf && "opacity-60")}
+                  title={r.duplicateOf ? "Already saved" : r.source}
+                >
+                  <td>
+                    <input
+                      type="checkbox"
+                      aria-label={`Import ${r.profile!.name}`}
+                      checked={isTicked(r)}
+                      onChange={() => toggle(r)}
+                    />
+                  </td>
+                  <td className="truncate pr-2">
+                    {r.profile!.name}
+                    {r.duplicateOf && " (duplicate)"}
+                  </td>
+                  <td className="truncate pr-2">{r.profile!.context}</td>
+                  <td className="truncate">{r.profile!.username}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {failed.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-red-600 dark:text-red-400">
+            {failed.length} row{failed.length === 1 ? "" : "s"} could not be
+            imported
+          </summary>
+          <ul className="mt-1 list-disc pl-5 text-xs">
+            {failed.map((r) => (
+              <li key={r.source}>
+                {r.source}: {r.error}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          disabled={selected.length === 0}
+          onClick={() => onImport(selected.map((r) => r.profile!))}
+        >
+          Import {selected.length} site{selected.length === 1 ? "" : "s"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportSites;
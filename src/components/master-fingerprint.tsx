@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { masterFingerprint, type Fingerprint } from "@/utils/fingerprint";
+
+const DEBOUNCE_MS = 250;
+
+type Props = {
+  master: string;
+};
+
+const MasterFingerprint = ({ master }: Props) => {
+  const [fingerprint, setFingerprint] = useState<Fingerprint | null>(null);
+
+  useEffect(() => {
+    if (!master) {
+      setFingerprint(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      masterFingerprint(master)
+        .then((fp) => {
+          if (!cancelled) setFingerprint(fp);
+        })
+        .catch(() => {
+          if (!cancelled) setFingerprint(null);
+        });
+    }, DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [master]);
+
+  if (!master || !fingerprint) return null;
+
+  const color = `hsl(${fingerprint.hue} 65% 50%)`;
+  return (
+    <div
+      className="mt-2 flex items-center gap-2 text-xs opacity-80"
+      title="Fingerprint of your master passphrase. If it looks unfamiliar, check for typos."
+    >
+      <svg
+        viewBox="0 0 5 5"
+        width={20}
+        height={20}
+        aria-hidden="true"
+        className="rounded-sm border"
+        shapeRendering="crispEdges"
+      >
+        {fingerprint.cells.map((on, i) =>
+          on ? (
+            <rect
+              key={i}
+              x={i % 5}
+              y={Math.floor(i / 5)}
+              width={1}
+              height={1}
+              fill={color}
+            />
+          ) : null
+        )}
+      </svg>
+      <span aria-label="Master passphrase fingerprint" style={{ color }}>
+        {fingerprint.words.join(" ")}
+      </span>
+    </div>
+  );
+};
+
+export default MasterFingerprint;
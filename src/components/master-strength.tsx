@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import StrengthMeter from "@/components/strength-meter";
+import { COMMON_PASSWORDS } from "@/utils/common-passwords";
+import type { KdfOptions } from "@/utils/kdf";
+import { phraseStrength, type PhraseStrength } from "@/utils/strength";
+
+const DEBOUNCE_MS = 250;
+
+type Props = {
+  master: string;
+  kdf: KdfOptions;
+};
+
+const MasterStrength = ({ master, kdf }: Props) => {
+  const [strength, setStrength] = useState<PhraseStrength | null>(null);
+
+  useEffect(() => {
+    if (!master) {
+      setStrength(null);
+      return;
+    }
+    const timer = setTimeout(
+      () => setStrength(phraseStrength(master, kdf)),
+      DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [master, kdf]);
+
+  if (!master || !strength) return null;
+
+  return (
+    <StrengthMeter
+      label="Master passphrase"
+      score={strength.score}
+      detail={`≈ ${Math.round(strength.bits)} bits, offline crack ≈ ${
+        strength.crackTime
+      }`}
+      warnings={strength.warnings}
+      note={`A heuristic estimate: it knows the ${COMMON_PASSWORDS.length} most common passwords and the EFF word list, not every breached password.`}
+    />
+  );
+};
+
+export default MasterStrength;
@@ -0,0 +1,93 @@
+import {
+  PASSPHRASE_CASES,
+  PASSPHRASE_EXTRAS,
+  type PassphraseCase,
+  type PassphraseExtra,
+} from "@/utils/pass-generator";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+
+export type PassphraseSettings = {
+  separator: string;
+  capitalization: PassphraseCase;
+  extra: PassphraseExtra;
+};
+
+const CASE_LABELS: Record<PassphraseCase, string> = {
+  lower: "lowercase",
+  upper: "UPPERCASE",
+  title: "Title Case",
+  first: "First word",
+};
+
+const EXTRA_LABELS: Record<PassphraseExtra, string> = {
+  none: "Nothing",
+  digit: "A digit",
+  symbol: "A symbol",
+  both: "Digit + symbol",
+};
+
+type Props = {
+  value: PassphraseSettings;
+  onChange: (value: PassphraseSettings) => void;
+};
+
+const PassphraseOptions = ({ value, onChange }: Props) => (
+  <div className="mt-4 grid grid-cols-3 gap-2 text-sm">
+    <div>
+      <label htmlFor="pp-separator" className="text-xs opacity-60">
+        Separator
+      </label>
+      <Input
+        id="pp-separator"
+        value={value.separator}
+        maxLength={3}
+        onChange={(e) => onChange({ ...value, separator: e.target.value })}
+        className="h-8 font-mono"
+      />
+    </div>
+    <div>
+      <label htmlFor="pp-case" className="text-xs opacity-60">
+        Capitalisation
+      </label>
+      <Select
+        id="pp-case"
+        value={value.capitalization}
+        onChange={(e) =>
+          onChange({
+            ...value,
+            capitalization: e.target.value as PassphraseCase,
+          })
+        }
+        className="w-full"
+      >
+        {PASSPHRASE_CASES.map((c) => (
+          <option key={c} value={c}>
+            {CASE_LABELS[c]}
+          </option>
+        ))}
+      </Select>
+    </div>
+    <div>
+      <label htmlFor="pp-extra" className="text-xs opacity-60">
+        Add
+      </label>
+      <Select
+        id="pp-extra"
+        value={value.extra}
+        onChange={(e) =>
+          onChange({ ...value, extra: e.target.value as PassphraseExtra })
+        }
+        className="w-full"
+      >
+        {PASSPHRASE_EXTRAS.map((x) => (
+          <option key={x} value={x}>
+            {EXTRA_LABELS[x]}
+          </option>
+        ))}
+      </Select>
+    </div>
+  </div>
+);
+
+export default PassphraseOptions;
@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from "react";
+import { EyeOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { encodeQr, qrSvgPath } from "@/utils/qr-code";
+
+const STORAGE_KEY = "passw.qr-privacy";
+const HIDE_AFTER_SECONDS = 30;
+/** light modules around the code, as the standard asks */
+const QUIET_ZONE = 4;
+
+function loadPrivacy(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== "off";
+  } catch {
+    return true;
+  }
+}
+
+function savePrivacy(on: boolean) {
+  localStorage.setItem(STORAGE_KEY, on ? "on" : "off");
+}
+
+type Props = {
+  value: string;
+  onClose: () => void;
+};
+
+// The result as a QR code for a phone camera; it closes itself after a
+// while and, in privacy mode, stays covered until tapped
+const PasswordQr = ({ value, onClose }: Props) => {
+  const [privacy, setPrivacy] = useState(loadPrivacy);
+  const [revealed, setRevealed] = useState(() => !loadPrivacy());
+  const [hidesAt] = useState(() => Date.now() + HIDE_AFTER_SECONDS * 1000);
+  const [now, setNow] = useState(() => Date.now());
+
+  const qr = useMemo(() => {
+    try {
+      return encodeQr(value);
+    } catch {
+      return null;
+    }
+  }, [value]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const left = Math.max(0, Math.ceil((hidesAt - now) / 1000));
+  useEffect(() => {
+    if (left === 0) onClose();
+  }, [left, onClose]);
+
+  // Cover the code again when the window is left in privacy mode
+  useEffect(() => {
+    if (!privacy) return;
+    const onHide = () => {
+      if (document.hidden) setRevealed(false);
+    };
+    document.addEventListener("visibilitychange", onHide);
+    return () => document.removeEventListener("visibilitychange", onHide);
+  }, [privacy]);
+
+  if (!qr)
+    return (
+      <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+        Too long to show as a QR code
+      </p>
+    );
+
+  const extent = qr.size + QUIET_ZONE * 2;
+  return (
+    <div className="mt-2 flex flex-col items-center gap-2 rounded-lg border p-3 text-xs">
+      <button
+        type="button"
+        className="size-56 overflow-hidden rounded-md"
+        onClick={() => privacy && setRevealed((v) => !v)}
+        aria-label={
+          revealed ? "QR code of the result" : "Covered QR code, tap to show"
+        }
+        title={
+          privacy ? (revealed ? "Tap to cover" : "Tap to show") : undefined
+        }
+      >
+        {revealed ? (
+          <svg
+            viewBox={`0 0 ${extent} ${extent}`}
+            className="size-full"
+            shapeRendering="crispEdges"
+            aria-hidden="true"
+          >
+            <rect width={extent} height={extent} fill="#fff" />
+            <path d={qrSvgPath(qr, QUIET_ZONE)} fill="#000" />
+          </svg>
+        ) : (
+          <span className="flex size-full flex-col items-center justify-center gap-2 bg-muted opacity-80">
+            <EyeOff size={24} aria-hidden="true" />
+            Tap to show
+          </span>
+        )}
+      </button>
+      <div className="flex w-full items-center justify-between gap-2">
+        <label className="flex items-center gap-1 opacity-80">
+          <input
+            type="checkbox"
+            checked={privacy}
+            onChange={(e) => {
+              setPrivacy(e.target.checked);
+              savePrivacy(e.target.checked);
+              setRevealed(!e.target.checked);
+            }}
+          />
+          Tap to reveal
+        </label>
+        <span className="opacity-60">
+          Hides in <span className="tabular-nums">{left}</span> s
+        </span>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Hide
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PasswordQr;
@@ -0,0 +1,204 @@
+import {
+  CHAR_CLASSES,
+  SYMBOLS,
+  validatePolicy,
+  type CharClass,
+  type CharacterPolicy,
+} from "@/utils/policy";
+import { Input } from "@/components/ui/input";
+
+const CLASS_LABELS: Record<CharClass, string> = {
+  lower: "a–z",
+  upper: "A–Z",
+  digit: "0–9",
+  symbol: "Symbols",
+};
+
+const DEFAULT_POLICY: CharacterPolicy = {
+  required: [...CHAR_CLASSES],
+  symbols: SYMBOLS,
+};
+
+type Props = {
+  policy: CharacterPolicy | undefined;
+  length: number;
+  onChange: (policy: CharacterPolicy | undefined) => void;
+};
+
+function toCount(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(0, Math.floor(n)) : undefined;
+}
+
+const PolicyEditor = ({ policy, length, onChange }: Props) => {
+  const error = policy ? validatePolicy(policy, length) : "";
+  const update = (patch: Partial<CharacterPolicy>) =>
+    onChange({ ...(policy ?? DEFAULT_POLICY), ...patch });
+
+  const setCount = (kind: "min" | "max", cls: CharClass, value: string) => {
+    const next = { ...(policy?.[kind] ?? {}) };
+    const n = toCount(value);
+    if (n === undefined) delete next[cls];
+    else next[cls] = n;
+    update({ [kind]: next });
+  };
+
+  const toggleRequired = (cls: CharClass, on: boolean) => {
+    const current = policy?.required ?? [];
+    update({
+      required: on
+        ? [...current.filter((c) => c !== cls), cls]
+        : current.filter((c) => c !== cls),
+    });
+  };
+
+  const toggleEnabled = (cls: CharClass, on: boolean) => {
+    const max = { ...(policy?.max ?? {}) };
+    if (on) delete max[cls];
+    else max[cls] = 0;
+    const required = (policy?.required ?? []).filter((c) => on || c !== cls);
+    update({ max, required });
+  };
+
+  return (
+    <div className="mt-4">
+      <label className="flex items-center gap-2 text-sm opacity-80">
+        <input
+          type="checkbox"
+          checked={!!policy}
+          onChange={(e) =>
+            onChange(e.target.checked ? DEFAULT_POLICY : undefined)
+          }
+        />
+        Custom character rules
+      </label>
+      {policy && (
+        <div className="mt-3 space-y-3 text-sm">
+          <table className="w-full text-left">
+            <thead className="text-xs opacity-60">
+              <tr>
+                <th className="font-normal">Class</th>
+                <th className="font-normal">Use</th>
+                <th className="font-normal">Require</th>
+                <th className="font-normal">Min</th>
+                <th className="font-normal">Max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {CHAR_CLASSES.map((cls) => {
+                const enabled = policy.max?.[cls] !== 0;
+                return (
+                  <tr key={cls}>
+                    <td className="py-1">{CLASS_LABELS[cls]}</td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        aria-label={`Use ${CLASS_LABELS[cls]}`}
+                        checked={enabled}
+                        onChange={(e) => toggleEnabled(cls, e.target.checked)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        aria-label={`Require ${CLASS_LABELS[cls]}`}
+                        disabled={!enabled}
+                        checked={policy.required?.includes(cls) ?? false}
+                        onChange={(e) => toggleRequired(cls, e.target.checked)}
+                      />
+                    </td>
+                    <td className="pr-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        disabled={!enabled}
+                        aria-label={`Minimum ${CLASS_LABELS[cls]}`}
+                        value={policy.min?.[cls] ?? ""}
+                        onChange={(e) => setCount("min", cls, e.target.value)}
+                        className="h-7"
+                      />
+                    </td>
+                    <td>
+                      <Input
+                        type="number"
+                        min={0}
+                        disabled={!enabled}
+                        aria-label={`Maximum ${CLASS_LABELS[cls]}`}
+                        value={enabled ? policy.max?.[cls] ?? "" : 0}
+                        onChange={(e) => setCount("max", cls, e.target.value)}
+                        className="h-7"
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div>
+            <label htmlFor="policy-symbols" className="text-xs opacity-60">
+              Symbol set
+            </label>
+            <Input
+              id="policy-symbols"
+              value={policy.symbols ?? SYMBOLS}
+              onChange={(e) => update({ symbols: e.target.value })}
+              className="h-8 font-mono"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="policy-allowed" className="text-xs opacity-60">
+                Only allow (optional)
+              </label>
+              <Input
+                id="policy-allowed"
+                value={policy.allowed ?? ""}
+                onChange={(e) =>
+                  update({ allowed: e.target.value || undefined })
+                }
+                className="h-8 font-mono"
+              />
+            </div>
+            <div>
+              <label htmlFor="policy-forbidden" className="text-xs opacity-60">
+                Never use
+              </label>
+              <Input
+                id="policy-forbidden"
+                value={policy.forbidden ?? ""}
+                onChange={(e) =>
+                  update({ forbidden: e.target.value || undefined })
+                }
+                className="h-8 font-mono"
+              />
+            </div>
+          </div>
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!policy.noRepeat}
+                onChange={(e) => update({ noRepeat: e.target.checked })}
+              />
+              No repeats
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!policy.noSequential}
+                onChange={(e) => update({ noSequential: e.target.checked })}
+              />
+              No sequences
+            </label>
+          </div>
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PolicyEditor;
@@ -0,0 +1,106 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import type { ProfileField } from "@/utils/profiles";
+import {
+  EXTRA_PURPOSES,
+  PURPOSE_LABELS,
+  PURPOSE_STYLES,
+  type ExtraPurpose,
+} from "@/utils/purposes";
+
+type Props = {
+  fields: ProfileField[] | undefined;
+  onChange: (fields: ProfileField[] | undefined) => void;
+};
+
+// Derived usernames and security answers stored with a site profile
+const ProfileFieldsEditor = ({ fields = [], onChange }: Props) => {
+  const update = (i: number, patch: Partial<ProfileField>) =>
+    onChange(fields.map((f, j) => (j === i ? { ...f, ...patch } : f)));
+  const remove = (i: number) => {
+    const next = fields.filter((_, j) => j !== i);
+    onChange(next.length ? next : undefined);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <span className="text-xs opacity-60">Usernames and answers</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...fields, { purpose: "recovery" }])}
+        >
+          <Plus size={14} aria-hidden="true" /> Add
+        </Button>
+      </div>
+      {fields.map((f, i) => (
+        <div key={i} className="mt-1 flex items-center gap-1">
+          <Select
+            aria-label="Purpose"
+            value={f.purpose}
+            onChange={(e) =>
+              update(i, {
+                purpose: e.target.value as ExtraPurpose,
+                style: undefined,
+              })
+            }
+            size="narrow"
+            className="w-28 shrink-0"
+          >
+            {EXTRA_PURPOSES.map((p) => (
+              <option key={p} value={p}>
+                {PURPOSE_LABELS[p]}
+              </option>
+            ))}
+          </Select>
+          <Input
+            aria-label="Keyword"
+            value={f.keyword ?? ""}
+            placeholder={
+              f.purpose === "recovery" ? "Question, e.g. first pet" : "Keyword"
+            }
+            onChange={(e) =>
+              update(i, { keyword: e.target.value || undefined })
+            }
+            className="h-8 min-w-0"
+          />
+          <Select
+            aria-label="Style"
+            value={f.style ?? PURPOSE_STYLES[f.purpose][0].id}
+            onChange={(e) => update(i, { style: e.target.value })}
+            size="narrow"
+            className="w-28 shrink-0"
+          >
+            {PURPOSE_STYLES[f.purpose].map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Remove field"
+            onClick={() => remove(i)}
+            className="size-8 shrink-0"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      ))}
+      {fields.length > 0 && (
+        <p className="mt-1 text-xs opacity-60">
+          The keyword tells answers apart; changing it changes the value.
+          Rotating the password keeps these.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProfileFieldsEditor;
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { ClipboardCopy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  cancelDerivation,
+  derive,
+  DerivationCancelled,
+} from "@/utils/derivation-client";
+import type { SiteProfile } from "@/utils/profiles";
+import {
+  PURPOSE_COUNTER,
+  PURPOSE_LABELS,
+  purposeLabel,
+} from "@/utils/purposes";
+
+type Props = {
+  profile: SiteProfile;
+  master: string;
+  iterations: number;
+  onCopy: (value: string, label: string) => void;
+};
+
+// A site's derived usernames and recovery answers, each derived on demand
+const PurposeFields = ({ profile, master, iterations, onCopy }: Props) => {
+  const [values, setValues] = useState<Record<number, string>>({});
+  const [busy, setBusy] = useState<number | null>(null);
+  const [error, setError] = useState("");
+  const fields = profile.fields ?? [];
+
+  // Runs in its own slot, so it neither cancels nor is cancelled by the
+  // main generator; a new site or phrase makes its derivation stale
+  useEffect(() => {
+    setValues({});
+    setError("");
+    return () => cancelDerivation("fields");
+  }, [profile, master]);
+
+  const copy = async (i: number) => {
+    const field = fields[i];
+    const label = purposeLabel(field);
+    let value = values[i];
+    if (value === undefined) {
+      setBusy(i);
+      setError("");
+      try {
+        value = await derive(
+          {
+            mode: "purpose",
+            master,
+            number: PURPOSE_COUNTER,
+            options: {
+              context: profile.context,
+              iterations,
+              purpose: field.purpose,
+              keyword: field.keyword,
+              style: field.style,
+            },
+          },
+          undefined,
+          "fields"
+        );
+      } catch (e: any) {
+        if (!(e instanceof DerivationCancelled))
+          setError(e?.message ?? String(e));
+        return;
+      } finally {
+        setBusy(null);
+      }
+      setValues((v) => ({ ...v, [i]: value! }));
+    }
+    onCopy(value, label);
+  };
+
+  if (fields.length === 0) return null;
+  return (
+    <div className="mt-4 text-sm">
+      <span className="opacity-80">Usernames and answers</span>
+      <ul className="mt-1 space-y-1">
+        {fields.map((f, i) => (
+          <li key={i} className="flex items-center gap-2">
+            <span className="w-32 shrink-0 truncate text-xs opacity-80">
+              {purposeLabel(f)}
+              {f.keyword?.trim() && (
+                <span className="block opacity-60">
+                  {PURPOSE_LABELS[f.purpose]}
+                </span>
+              )}
+            </span>
+            <code className="min-w-0 flex-1 truncate rounded border px-2 py-1 text-xs select-all">
+              {busy === i ? "Deriving..." : values[i] ?? "••••••••"}
+            </code>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Copy ${purposeLabel(f)}`}
+              title="Copy"
+              disabled={!master || busy !== null}
+              onClick={() => copy(i)}
+              className="size-7 shrink-0"
+            >
+              <ClipboardCopy size={14} />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {!master && (
+        <p className="mt-1 text-xs opacity-60">
+          Enter the master passphrase to derive these.
+        </p>
+      )}
+      {error && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default PurposeFields;
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from "react";
+import { getCurrentWindow } from "@tauri-apps/api/window";
+import { KeyRound, LockOpen } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { searchProfiles, type SiteProfile } from "@/utils/profiles";
+import { loadProfiles } from "@/utils/profile-store";
+import {
+  requestQuickGenerate,
+  subscribeMainSession,
+} from "@/utils/quick-generate";
+import { needsMaster } from "@/utils/site-password";
+import { cn } from "@/lib/utils";
+
+const MAX_RESULTS = 8;
+
+// Tray / global shortcut popup: pick a site, Enter copies its password and
+// hides the popup again. The main window does the generating and copying.
+const QuickGenerate = () => {
+  const [profiles, setProfiles] = useState<SiteProfile[]>([]);
+  const [query, setQuery] = useState("");
+  const [master, setMaster] = useState("");
+  const [selected, setSelected] = useState(0);
+  const [unlocked, setUnlocked] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const searchRef = useRef<HTMLInputElement>(null);
+  const masterRef = useRef<HTMLInputElement>(null);
+
+  const matches = searchProfiles(profiles, query).slice(0, MAX_RESULTS);
+  const profile = matches[Math.min(selected, matches.length - 1)] ?? null;
+  const phraseNeeded = profile === null || needsMaster(profile, unlocked);
+
+  // Fresh every time it is shown, and gone (with the phrase) once it loses focus
+  useEffect(() => {
+    const win = getCurrentWindow();
+    const reset = () => {
+      setQuery("");
+      setMaster("");
+      setSelected(0);
+      setError("");
+      loadProfiles()
+        .then(setProfiles)
+        .catch((e) => setError(`Could not load sites: ${e?.message ?? e}`));
+      searchRef.current?.focus();
+    };
+    reset();
+    const unlisten = win.onFocusChanged(({ payload: focused }) => {
+      if (focused) return reset();
+      setMaster("");
+      void win.hide();
+    });
+    return () => {
+      unlisten.then((off) => off());
+    };
+  }, []);
+
+  useEffect(() => {
+    const unlisten = subscribeMainSession(setUnlocked);
+    return () => {
+      unlisten.then((off) => off());
+    };
+  }, []);
+
+  const submit = async () => {
+    if (!profile || busy) return;
+    if (phraseNeeded && !master) {
+      masterRef.current?.focus();
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await requestQuickGenerate(profile.id, master);
+      setMaster("");
+      await getCurrentWindow().hide();
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSelected((i) =>
+        Math.min(Math.max(i + step, 0), Math.max(matches.length - 1, 0))
+      );
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      void submit();
+    } else if (e.key === "Escape") {
+      void getCurrentWindow().hide();
+    }
+  };
+
+  return (
+    <div
+      className="h-dvh overflow-hidden bg-secondary p-3 text-secondary-foreground"
+      onKeyDown={onKeyDown}
+    >
+      <Input
+        ref={searchRef}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setSelected(0);
+        }}
+        placeholder="Search sites..."
+        aria-label="Search sites"
+        autoFocus
+      />
+      <ul className="mt-2 space-y-0.5 text-sm" role="listbox">
+        {matches.map((p) => (
+          <li
+            key={p.id}
+            role="option"
+            aria-selected={p === profile}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => setSelected(matches.indexOf(p))}
+            onDoubleClick={() => void submit()}
+            className={cn(
+              "flex cursor-default items-center gap-2 rounded-md px-2 py-1",
+              p === profile && "bg-primary text-primary-foreground"
+            )}
+          >
+            <KeyRound size={14} aria-hidden="true" className="shrink-0" />
+            <span className="flex-1 truncate">{p.name}</span>
+            <span className="truncate text-xs opacity-70">
+              {p.username || p.context}
+            </span>
+          </li>
+        ))}
+        {matches.length === 0 && (
+          <li className="px-2 py-1 text-xs opacity-60">
+            {profiles.length ? "No matching site" : "No saved sites yet"}
+          </li>
+        )}
+      </ul>
+      <div className="mt-2">
+        {phraseNeeded ? (
+          <Input
+            ref={masterRef}
+            type="password"
+            value={master}
+            onChange={(e) => setMaster(e.target.value)}
+            placeholder="Master passphrase"
+            aria-label="Master passphrase"
+          />
+        ) : (
+          <p className="flex items-center gap-1.5 text-xs opacity-80">
+            <LockOpen size={14} aria-hidden="true" />
+            Session unlocked, no phrase needed
+          </p>
+        )}
+      </div>
+      <p
+        className={cn(
+          "mt-2 text-xs",
+          error ? "text-red-600 dark:text-red-400" : "opacity-60"
+        )}
+      >
+        {error ||
+          (busy
+            ? "Generating..."
+            : "Enter copies the password · ↑↓ choose · Esc hides")}
+      </p>
+    </div>
+  );
+};
+
+export default QuickGenerate;
@@ -0,0 +1,37 @@
+import { TriangleAlert } from "lucide-react";
+import type { SelfTestReport } from "@/utils/self-test";
+
+type Props = {
+  report: SelfTestReport;
+};
+
+// Shown instead of generating when this runtime fails the known answers
+const SelfTestAlert = ({ report }: Props) => (
+  <div
+    role="alert"
+    className="mb-4 rounded-md border border-red-300 px-3 py-2 text-sm text-red-700 dark:border-red-800 dark:text-red-400"
+  >
+    <p className="flex items-center gap-1.5 font-medium">
+      <TriangleAlert size={16} aria-hidden="true" />
+      Generation disabled: crypto self-test failed
+    </p>
+    <p className="mt-1 text-xs">
+      This browser or app computed {report.failures.length} of {report.checked}{" "}
+      known answers differently, so its passwords would not match your other
+      devices. Try another browser or update this one.
+    </p>
+    <ul className="mt-2 space-y-1 text-xs">
+      {report.failures.map((f) => (
+        <li key={f.id}>
+          <span className="font-medium">{f.id}</span>: {f.covers}
+          <code className="block break-all opacity-80">
+            expected {f.expected}
+          </code>
+          <code className="block break-all opacity-80">got {f.actual}</code>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default SelfTestAlert;
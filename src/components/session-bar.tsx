@@ -0,0 +1,60 @@
+import { Lock, LockOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { AUTO_LOCK_MINUTES } from "@/utils/session";
+
+type Props = {
+  autoLockMinutes: number;
+  onAutoLockMinutesChange: (minutes: number) => void;
+  lockOnBlur: boolean;
+  onLockOnBlurChange: (lockOnBlur: boolean) => void;
+  onLock: () => void;
+};
+
+const SessionBar = ({
+  autoLockMinutes,
+  onAutoLockMinutesChange,
+  lockOnBlur,
+  onLockOnBlurChange,
+  onLock,
+}: Props) => (
+  <div className="mt-2 rounded-md border px-3 py-2 text-xs">
+    <div className="flex items-center justify-between">
+      <span className="flex items-center gap-1.5 font-medium">
+        <LockOpen size={14} aria-hidden="true" />
+        Session unlocked (v3)
+      </span>
+      <Button type="button" variant="outline" size="sm" onClick={onLock}>
+        <Lock size={14} aria-hidden="true" />
+        Lock
+      </Button>
+    </div>
+    <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 opacity-80">
+      <label className="flex items-center gap-1">
+        Auto-lock after
+        <Select
+          value={autoLockMinutes}
+          onChange={(e) => onAutoLockMinutesChange(Number(e.target.value))}
+          size="sm"
+        >
+          {AUTO_LOCK_MINUTES.map((m) => (
+            <option key={m} value={m}>
+              {m} min
+            </option>
+          ))}
+        </Select>
+        idle
+      </label>
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={lockOnBlur}
+          onChange={(e) => onLockOnBlurChange(e.target.checked)}
+        />
+        Lock when the window loses focus
+      </label>
+    </div>
+  </div>
+);
+
+export default SessionBar;
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Keyboard } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_KEYMAP,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_LABELS,
+  bindingConflicts,
+  bindingFromEvent,
+  formatBinding,
+  type Keymap,
+  type ShortcutAction,
+} from "@/utils/shortcuts";
+
+type Props = {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+};
+
+// On-screen list of the shortcuts; "Change" records the next key press
+const ShortcutCheatSheet = ({ keymap, onChange, onClose }: Props) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!recording) {
+        if (e.key === "Escape") onClose();
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === "Escape") {
+        setRecording(null);
+        return;
+      }
+      const binding = bindingFromEvent(e);
+      if (!binding) return;
+      const taken = bindingConflicts(keymap, recording, binding);
+      if (taken.length) {
+        setError(
+          `${formatBinding(binding)} is already used for "${
+            SHORTCUT_LABELS[taken[0]]
+          }"`
+        );
+        return;
+      }
+      setError("");
+      setRecording(null);
+      onChange({ ...keymap, [recording]: [binding] });
+    };
+    // Capture, so the recorded key never reaches the app's own shortcuts
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [keymap, recording, onChange, onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-[10dvh]"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        className="w-full max-w-md rounded-xl border bg-secondary p-4 text-sm text-secondary-foreground shadow-lg"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="mb-2 flex items-center justify-between">
+          <h2
+            id="shortcuts-title"
+            className="flex items-center gap-1.5 font-medium"
+          >
+            <Keyboard size={16} aria-hidden="true" />
+            Keyboard shortcuts
+          </h2>
+          <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+        <ul className="divide-y">
+          {SHORTCUT_ACTIONS.map((action) => (
+            <li key={action} className="flex items-center gap-2 py-1.5">
+              <span className="flex-1">{SHORTCUT_LABELS[action]}</span>
+              {recording === action ? (
+                <span className="text-xs opacity-80">
+                  Press keys… (Esc cancels)
+                </span>
+              ) : (
+                keymap[action].map((b) => (
+                  <kbd
+                    key={b}
+                    className="rounded border px-1.5 py-0.5 font-mono text-xs"
+                  >
+                    {formatBinding(b)}
+                  </kbd>
+                ))
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setError("");
+                  setRecording(recording === action ? null : action);
+                }}
+              >
+                Change
+              </Button>
+            </li>
+          ))}
+        </ul>
+        {error && (
+          <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+        )}
+        <div className="mt-3 flex items-center justify-between gap-2">
+          <p className="text-xs opacity-60">
+            Keys without a modifier work in the phrase field, not in other
+            fields or on buttons; {formatBinding("Mod+C")} still copies selected
+            text.
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setRecording(null);
+              setError("");
+              onChange(DEFAULT_KEYMAP);
+            }}
+          >
+            Reset
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutCheatSheet;
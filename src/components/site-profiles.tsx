@@ -0,0 +1,587 @@
+import { Suspense, lazy, useState } from "react";
+import {
+  Download,
+  Link2,
+  Pencil,
+  Plus,
+  RotateCw,
+  Search,
+  ShieldAlert,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import {
+  ALGORITHM_VERSIONS,
+  type AlgorithmVersion,
+} from "@/utils/pass-generator";
+import { ENGINES, ENGINE_REGISTRY, type EngineId } from "@/utils/engines";
+import {
+  SPECTRE_RESULT_TYPES,
+  SPECTRE_RESULT_TYPE_LABELS,
+  type SpectreResultType,
+} from "@/utils/spectre";
+import {
+  filterProfiles,
+  validateProfile,
+  type SiteProfile,
+  type SiteProfileInput,
+} from "@/utils/profiles";
+import { MAX_AGE_CHOICES, isOverdue, passwordAgeDays } from "@/utils/rotation";
+import {
+  entryContext,
+  resolveContext,
+  type ContextAlias,
+} from "@/utils/site-context";
+import type { ExportEntry } from "@/utils/exporters";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import BreachReport from "@/components/breach-report";
+import ConfirmDialog from "@/components/confirm-dialog";
+import ContextAliases from "@/components/context-aliases";
+import PolicyEditor from "@/components/policy-editor";
+import ProfileFieldsEditor from "@/components/profile-fields-editor";
+import { cn } from "@/lib/utils";
+
+// The importers and exporters are only needed once their dialog opens
+const BatchExport = lazy(() => import("@/components/batch-export"));
+const ImportSites = lazy(() => import("@/components/import-sites"));
+
+type FormProps = {
+  initial: SiteProfileInput;
+  aliases: ContextAlias[];
+  onSave: (input: SiteProfileInput) => void;
+  onCancel: () => void;
+};
+
+const ProfileForm = ({ initial, aliases, onSave, onCancel }: FormProps) => {
+  const [draft, setDraft] = useState<SiteProfileInput>(initial);
+  const errors = validateProfile(draft);
+  const set = (patch: Partial<SiteProfileInput>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+  const engine = ENGINE_REGISTRY[draft.engine ?? "passw"];
+  const range = engine.lengthRange;
+  // passw contexts are normalised when entered; a saved one is kept as is so
+  // its password does not change. Other engines salt with the site as typed.
+  const resolved = resolveContext(draft.context, aliases);
+  const contextEdited = draft.context !== initial.context;
+  const contextHint =
+    engine.id !== "passw" || resolved.context === draft.context
+      ? ""
+      : contextEdited
+      ? `Passwords use: ${resolved.context}${
+          resolved.alias ? ` (alias of ${resolved.site})` : ""
+        }`
+      : `Kept as saved so the password does not change (would be ${resolved.context})`;
+
+  const setEngine = (id: EngineId) => {
+    const next = ENGINE_REGISTRY[id].lengthRange;
+    set({
+      engine: id === "passw" ? undefined : id,
+      length: next
+        ? Math.min(Math.max(draft.length, next[0]), next[1])
+        : draft.length,
+    });
+  };
+
+  return (
+    <form
+      className="mt-3 space-y-2 rounded-lg border p-3 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (errors.length === 0)
+          onSave(
+            contextEdited
+              ? {
+                  ...draft,
+                  context: entryContext(draft.context, aliases, engine.id),
+                }
+              : draft
+          );
+      }}
+    >
+      <div>
+        <label htmlFor="profile-engine" className="text-xs opacity-60">
+          Engine
+        </label>
+        <Select
+          id="profile-engine"
+          value={engine.id}
+          onChange={(e) => setEngine(e.target.value as EngineId)}
+          className="w-full"
+        >
+          {ENGINES.map((id) => (
+            <option key={id} value={id}>
+              {ENGINE_REGISTRY[id].name}
+            </option>
+          ))}
+        </Select>
+        {engine.id !== "passw" && (
+          <p className="mt-1 text-xs opacity-60">{engine.description}</p>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="profile-name" className="text-xs opacity-60">
+            Name
+          </label>
+          <Input
+            id="profile-name"
+            value={draft.name}
+            onChange={(e) => set({ name: e.target.value })}
+            className="h-8"
+          />
+        </div>
+        <div>
+          <label htmlFor="profile-context" className="text-xs opacity-60">
+            Context
+          </label>
+          <Input
+            id="profile-context"
+            value={draft.context}
+            placeholder="example.com"
+            onChange={(e) => set({ context: e.target.value })}
+            className="h-8"
+          />
+          {contextHint && (
+            <p className="mt-1 text-xs opacity-60">{contextHint}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="profile-username" className="text-xs opacity-60">
+            {engine.id === "lesspass-v2" ? "Login" : "Username"}
+          </label>
+          <Input
+            id="profile-username"
+            value={draft.username ?? ""}
+            onChange={(e) => set({ username: e.target.value || undefined })}
+            className="h-8"
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label htmlFor="profile-counter" className="text-xs opacity-60">
+              Counter
+            </label>
+            <Input
+              id="profile-counter"
+              type="number"
+              min={1}
+              value={draft.counter}
+              onChange={(e) => set({ counter: Number(e.target.value) })}
+              className="h-8 px-1"
+            />
+          </div>
+          {range && (
+            <div>
+              <label htmlFor="profile-length" className="text-xs opacity-60">
+                Length
+              </label>
+              <Input
+                id="profile-length"
+                type="number"
+                min={range[0]}
+                max={range[1]}
+                value={draft.length}
+                onChange={(e) => set({ length: Number(e.target.value) })}
+                className="h-8 px-1"
+              />
+            </div>
+          )}
+          {engine.id === "passw" && (
+            <div>
+              <label htmlFor="profile-version" className="text-xs opacity-60">
+                Algo
+              </label>
+              <Select
+                id="profile-version"
+                value={draft.algorithmVersion}
+                onChange={(e) =>
+                  set({ algorithmVersion: e.target.value as AlgorithmVersion })
+                }
+                size="narrow"
+                className="w-full"
+              >
+                {ALGORITHM_VERSIONS.map((v) => (
+                  <option key={v} value={v}>
+                    {v}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          )}
+        </div>
+        {engine.id === "spectre-v3" && (
+          <>
+            <div>
+              <label htmlFor="profile-full-name" className="text-xs opacity-60">
+                Full name
+              </label>
+              <Input
+                id="profile-full-name"
+                value={draft.fullName ?? ""}
+                onChange={(e) => set({ fullName: e.target.value || undefined })}
+                className="h-8"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="profile-result-type"
+                className="text-xs opacity-60"
+              >
+                Result type
+              </label>
+              <Select
+                id="profile-result-type"
+                value={draft.resultType ?? "long"}
+                onChange={(e) =>
+                  set({ resultType: e.target.value as SpectreResultType })
+                }
+                className="w-full"
+              >
+                {SPECTRE_RESULT_TYPES.map((t) => (
+                  <option key={t} value={t}>
+                    {SPECTRE_RESULT_TYPE_LABELS[t]}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          </>
+        )}
+      </div>
+      <div>
+        <label htmlFor="profile-max-age" className="text-xs opacity-60">
+          Rotate after
+        </label>
+        <Select
+          id="profile-max-age"
+          value={draft.maxAgeDays ?? ""}
+          onChange={(e) =>
+            set({
+              maxAgeDays: e.target.value ? Number(e.target.value) : undefined,
+            })
+          }
+          className="w-full"
+        >
+          <option value="">No maximum age</option>
+          {MAX_AGE_CHOICES.map((d) => (
+            <option key={d} value={d}>
+              {d} days
+            </option>
+          ))}
+        </Select>
+      </div>
+      <div>
+        <label htmlFor="profile-notes" className="text-xs opacity-60">
+          Notes
+        </label>
+        <textarea
+          id="profile-notes"
+          rows={2}
+          value={draft.notes ?? ""}
+          onChange={(e) => set({ notes: e.target.value || undefined })}
+          className="border-input dark:bg-input/30 w-full rounded-md border bg-transparent px-3 py-1 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+        />
+      </div>
+      <ProfileFieldsEditor
+        fields={draft.fields}
+        onChange={(fields) => set({ fields })}
+      />
+      {engine.id !== "spectre-v3" && (
+        <PolicyEditor
+          policy={draft.policy}
+          length={draft.length}
+          onChange={(policy) => set({ policy })}
+        />
+      )}
+      {errors.length > 0 && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {errors.join("; ")}
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={errors.length > 0}>
+          Save site
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+type Props = {
+  profiles: SiteProfile[];
+  activeId: string | null;
+  /** settings used to prefill a new profile */
+  defaults: SiteProfileInput;
+  onSelect: (profile: SiteProfile | null) => void;
+  onAdd: (input: SiteProfileInput) => void;
+  onUpdate: (id: string, input: SiteProfileInput) => void;
+  /** bump the counter, recording the reason */
+  onRotate: (id: string, reason: string) => void;
+  aliases: ContextAlias[];
+  onAliasesChange: (aliases: ContextAlias[]) => void;
+  onDelete: (id: string) => void;
+  onImport: (inputs: SiteProfileInput[]) => void;
+  /** derive passwords for a batch export */
+  onGenerateBatch: (
+    sites: SiteProfileInput[],
+    onProgress: (done: number, total: number) => void
+  ) => Promise<ExportEntry[]>;
+};
+
+const SiteProfiles = ({
+  profiles,
+  activeId,
+  defaults,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onRotate,
+  aliases,
+  onAliasesChange,
+  onDelete,
+  onImport,
+  onGenerateBatch,
+}: Props) => {
+  const [query, setQuery] = useState("");
+  const [editing, setEditing] = useState<SiteProfile | "new" | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const [aliasing, setAliasing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const visible = filterProfiles(profiles, query);
+
+  const [asking, setAsking] = useState<
+    | { action: "rotate"; profile: SiteProfile; reason: string }
+    | { action: "delete"; profile: SiteProfile }
+    | null
+  >(null);
+  const rotate = (profile: SiteProfile, reason = "") =>
+    setAsking({ action: "rotate", profile, reason });
+
+  return (
+    <div className="mt-6 rounded-xl border backdrop-blur p-5 shadow-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-sm opacity-80">Sites</h2>
+        <div className="flex gap-1">
+          {profiles.length > 0 && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setReporting((v) => !v)}
+              title="Sites to rotate after a breach"
+            >
+              <ShieldAlert size={16} /> Breach
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setAliasing((v) => !v)}
+            title="Sites that share one login"
+          >
+            <Link2 size={16} /> Aliases
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setImporting((v) => !v)}
+          >
+            <Upload size={16} /> Import
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setExporting((v) => !v)}
+            title="Generate many passwords for another password manager"
+          >
+            <Download size={16} /> Export
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setEditing("new")}
+          >
+            <Plus size={16} /> Add site
+          </Button>
+        </div>
+      </div>
+      {asking?.action === "rotate" && (
+        <ConfirmDialog
+          title={`Rotate "${asking.profile.name}"?`}
+          message={`Switches to password #${
+            asking.profile.counter + 1
+          }. The old one stays available to log in one last time.`}
+          confirmLabel="Rotate"
+          input={{ label: "Reason (optional)", initial: asking.reason }}
+          onConfirm={(reason) => {
+            onRotate(asking.profile.id, reason);
+            setAsking(null);
+          }}
+          onCancel={() => setAsking(null)}
+        />
+      )}
+      {asking?.action === "delete" && (
+        <ConfirmDialog
+          title={`Delete site "${asking.profile.name}"?`}
+          message="Its settings and rotation history are removed. Passwords can be derived again by re-adding the same settings."
+          confirmLabel="Delete"
+          destructive
+          onConfirm={() => {
+            onDelete(asking.profile.id);
+            setAsking(null);
+          }}
+          onCancel={() => setAsking(null)}
+        />
+      )}
+      {importing && (
+        <Suspense fallback={null}>
+          <ImportSites
+            existing={profiles}
+            onClose={() => setImporting(false)}
+            onImport={(inputs) => {
+              onImport(inputs);
+              setImporting(false);
+            }}
+          />
+        </Suspense>
+      )}
+      {exporting && (
+        <Suspense fallback={null}>
+          <BatchExport
+            profiles={profiles}
+            defaults={defaults}
+            aliases={aliases}
+            onGenerate={onGenerateBatch}
+            onClose={() => setExporting(false)}
+          />
+        </Suspense>
+      )}
+      {aliasing && (
+        <ContextAliases
+          aliases={aliases}
+          onChange={onAliasesChange}
+          onClose={() => setAliasing(false)}
+        />
+      )}
+      {reporting && (
+        <BreachReport
+          profiles={profiles}
+          onRotate={(p) => rotate(p, "breach")}
+          onClose={() => setReporting(false)}
+        />
+      )}
+      {editing && (
+        <ProfileForm
+          key={editing === "new" ? "new" : editing.id}
+          initial={editing === "new" ? defaults : editing}
+          aliases={aliases}
+          onCancel={() => setEditing(null)}
+          onSave={(input) => {
+            if (editing === "new") onAdd(input);
+            else onUpdate(editing.id, input);
+            setEditing(null);
+          }}
+        />
+      )}
+      {profiles.length > 0 && (
+        <div className="relative mt-3">
+          <Search
+            size={16}
+            className="absolute left-2.5 top-1/2 -translate-y-1/2 opacity-60"
+          />
+          <Input
+            aria-label="Search sites"
+            placeholder="Search sites..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="h-8 pl-8"
+          />
+        </div>
+      )}
+      <ul className="mt-2 divide-y text-sm">
+        {visible.map((p) => (
+          <li
+            key={p.id}
+            className={cn(
+              "flex items-center gap-2 py-1.5",
+              p.id === activeId && "font-medium"
+            )}
+          >
+            <button
+              type="button"
+              className="flex-1 truncate text-left"
+              onClick={() => onSelect(p.id === activeId ? null : p)}
+              title={p.notes}
+            >
+              {p.name}
+              <span className="ml-2 text-xs opacity-60">
+                {p.context || "no context"} · #{p.counter}
+                {p.username ? ` · ${p.username}` : ""}
+                {p.engine && p.engine !== "passw"
+                  ? ` · ${ENGINE_REGISTRY[p.engine].name}`
+                  : ""}
+                {` · ${passwordAgeDays(p)} d old`}
+              </span>
+              {isOverdue(p) && (
+                <span
+                  title={`Older than ${p.maxAgeDays} days`}
+                  className="ml-2 rounded bg-amber-100 px-1 text-xs text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
+                >
+                  rotate
+                </span>
+              )}
+            </button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Rotate ${p.name}`}
+              title="Rotate: switch to the next counter"
+              onClick={() => rotate(p)}
+            >
+              <RotateCw className="text-current" size={14} />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Edit ${p.name}`}
+              onClick={() => setEditing(p)}
+            >
+              <Pencil className="text-current" size={14} />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Delete ${p.name}`}
+              onClick={() => setAsking({ action: "delete", profile: p })}
+            >
+              <Trash2 className="text-current" size={14} />
+            </Button>
+          </li>
+        ))}
+        {profiles.length > 0 && visible.length === 0 && (
+          <li className="py-2 text-xs opacity-60">No matching sites</li>
+        )}
+        {profiles.length === 0 && !editing && (
+          <li className="py-2 text-xs opacity-60">
+            No saved sites yet. Profiles store context, counter and rules —
+            never passwords.
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default SiteProfiles;
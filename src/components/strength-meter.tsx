@@ -0,0 +1,62 @@
+import { STRENGTH_LABELS, type StrengthScore } from "@/utils/strength";
+
+const SEGMENT_COLORS = [
+  "bg-red-500",
+  "bg-orange-500",
+  "bg-yellow-500",
+  "bg-lime-500",
+  "bg-green-600",
+];
+
+type Props = {
+  score: StrengthScore;
+  /** e.g. "≈ 120 bits" */
+  detail: string;
+  warnings?: string[];
+  label?: string;
+  /** small print under the warnings, e.g. what the estimate cannot see */
+  note?: string;
+};
+
+const StrengthMeter = ({
+  score,
+  detail,
+  warnings = [],
+  label,
+  note,
+}: Props) => (
+  <div className="mt-2 text-xs">
+    <div
+      className="flex gap-1"
+      role="meter"
+      aria-label={label ?? "Strength"}
+      aria-valuemin={0}
+      aria-valuemax={4}
+      aria-valuenow={score}
+      aria-valuetext={STRENGTH_LABELS[score]}
+    >
+      {STRENGTH_LABELS.map((_, i) => (
+        <div
+          key={i}
+          className={`h-1 flex-1 rounded ${
+            i <= score ? SEGMENT_COLORS[score] : "bg-muted"
+          }`}
+        />
+      ))}
+    </div>
+    <p className="mt-1 opacity-80">
+      {label && <>{label}: </>}
+      <span className="font-medium">{STRENGTH_LABELS[score]}</span> · {detail}
+    </p>
+    {warnings.length > 0 && (
+      <ul className="mt-1 list-disc pl-4 text-amber-700 dark:text-amber-400">
+        {warnings.map((w) => (
+          <li key={w}>{w}</li>
+        ))}
+      </ul>
+    )}
+    {note && <p className="mt-1 opacity-60">{note}</p>}
+  </div>
+);
+
+export default StrengthMeter;
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import {
+  BUILTIN_TEMPLATES,
+  TEMPLATE_CLASS_LABELS,
+  validateTemplate,
+  type NamedTemplate,
+} from "@/utils/templates";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+
+const STORAGE_KEY = "passw.templates";
+
+function loadCustomTemplates(): NamedTemplate[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const list = raw ? (JSON.parse(raw) as NamedTemplate[]) : [];
+    return list.filter((t) => !validateTemplate(t.pattern));
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomTemplates(list: NamedTemplate[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+}
+
+type Props = {
+  value: string;
+  onChange: (pattern: string) => void;
+};
+
+const TemplatePicker = ({ value, onChange }: Props) => {
+  const [custom, setCustom] = useState<NamedTemplate[]>(loadCustomTemplates);
+  const [name, setName] = useState("");
+  const all = [...BUILTIN_TEMPLATES, ...custom];
+  const selected = all.find((t) => t.pattern === value);
+  const error = validateTemplate(value);
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed || error) return;
+    const next = [
+      ...custom.filter((t) => t.name !== trimmed),
+      { id: `custom-${Date.now()}`, name: trimmed, pattern: value },
+    ];
+    setCustom(next);
+    saveCustomTemplates(next);
+    setName("");
+  };
+
+  const remove = (id: string) => {
+    const next = custom.filter((t) => t.id !== id);
+    setCustom(next);
+    saveCustomTemplates(next);
+  };
+
+  return (
+    <div className="mt-4 space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <Select
+          aria-label="Template"
+          value={selected?.id ?? ""}
+          onChange={(e) => {
+            const t = all.find((x) => x.id === e.target.value);
+            if (t) onChange(t.pattern);
+          }}
+          className="w-full"
+        >
+          <option value="">Custom…</option>
+          {all.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name} ({t.pattern})
+            </option>
+          ))}
+        </Select>
+        {selected && custom.includes(selected) && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Delete template"
+            onClick={() => remove(selected.id)}
+          >
+            <Trash2 className="text-current" size={16} />
+          </Button>
+        )}
+      </div>
+      <Input
+        aria-label="Template pattern"
+        aria-invalid={!!error}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 font-mono"
+      />
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : (
+        !selected && (
+          <div className="flex gap-2">
+            <Input
+              aria-label="Template name"
+              placeholder="Name to save this template"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="h-8"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={!name.trim()}
+              onClick={save}
+            >
+              Save
+            </Button>
+          </div>
+        )
+      )}
+      <p className="text-xs opacity-60">
+        {Object.entries(TEMPLATE_CLASS_LABELS)
+          .filter(([k]) => k !== " ")
+          .map(([k, label]) => `${k} ${label}`)
+          .join(" · ")}
+        {" · \\ literal"}
+      </p>
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,38 @@
+import * as React from "react";
+import { cva, type VariantProps } from "class-variance-authority";
+
+import { cn } from "@/lib/utils";
+
+const selectVariants = cva(
+  "border-input dark:bg-input/30 rounded-md border bg-transparent outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50",
+  {
+    variants: {
+      size: {
+        default: "h-8 px-2 text-sm",
+        narrow: "h-8 px-1 text-sm",
+        sm: "h-7 px-1 text-xs",
+      },
+    },
+    defaultVariants: {
+      size: "default",
+    },
+  }
+);
+
+// A native <select>, styled like Input; `size` picks the height and padding
+function Select({
+  className,
+  size,
+  ...props
+}: Omit<React.ComponentProps<"select">, "size"> &
+  VariantProps<typeof selectVariants>) {
+  return (
+    <select
+      data-slot="select"
+      className={cn(selectVariants({ size, className }))}
+      {...props}
+    />
+  );
+}
+
+export { Select, selectVariants };
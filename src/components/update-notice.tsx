@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PendingUpdate } from "@/utils/pwa";
+
+type Props = {
+  update: PendingUpdate;
+  onLater: () => void;
+};
+
+// A new offline version is installed and waits for the user to switch to it
+const UpdateNotice = ({ update, onLater }: Props) => {
+  const [showFiles, setShowFiles] = useState(false);
+  const { current, next, changedFiles } = update;
+
+  return (
+    <div
+      role="status"
+      className="mb-4 rounded-md border px-3 py-2 text-sm"
+      aria-live="polite"
+    >
+      <p className="flex items-center gap-1.5 font-medium">
+        <Download size={16} aria-hidden="true" />A new version is ready
+      </p>
+      <p className="mt-1 text-xs opacity-80">
+        Version {next.version} (build {next.build}) is downloaded and waits for
+        you; this page keeps running{" "}
+        {current
+          ? `version ${current.version} (build ${current.build})`
+          : "the current version"}{" "}
+        until you switch. Later asks again on the next visit.
+      </p>
+      <button
+        type="button"
+        className="mt-1 text-xs underline opacity-80"
+        onClick={() => setShowFiles((v) => !v)}
+      >
+        {changedFiles.length} of {next.files.length} files changed
+      </button>
+      {showFiles && (
+        <ul className="mt-1 max-h-32 overflow-y-auto text-xs opacity-80">
+          {changedFiles.map((f) => (
+            <li key={f}>
+              <code className="break-all">{f}</code>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-2 flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onLater}>
+          Later
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={update.activate}
+        >
+          Update and reload
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default UpdateNotice;
@@ -0,0 +1,45 @@
+/**
+ * The WebExtension APIs the extension uses
+ * - Chrome and Firefox both offer the promise-based `chrome` namespace in
+ *   Manifest V3, so one declaration covers both
+ * - The app is type-checked without @types/chrome, hence the subset here
+ */
+
+export interface Tab {
+  id?: number;
+  url?: string;
+}
+
+interface InjectionResult<T> {
+  result?: T;
+}
+
+interface ExtensionApi {
+  tabs: {
+    query(query: { active: boolean; currentWindow: boolean }): Promise<Tab[]>;
+  };
+  scripting: {
+    executeScript<Args extends unknown[], Result>(injection: {
+      target: { tabId: number };
+      func: (...args: Args) => Result;
+      args: Args;
+    }): Promise<InjectionResult<Result>[]>;
+  };
+  storage: {
+    local: {
+      get(keys: string[]): Promise<Record<string, unknown>>;
+      set(items: Record<string, unknown>): Promise<void>;
+    };
+  };
+  runtime: {
+    openOptionsPage(): Promise<void>;
+  };
+}
+
+export const browser = (globalThis as unknown as { chrome: ExtensionApi })
+  .chrome;
+
+export async function activeTab(): Promise<Tab | undefined> {
+  const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+  return tab;
+}
@@ -0,0 +1,140 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createProfile } from "@/utils/profiles";
+import { fillLoginForm, profilesForUrl } from "./fill";
+import FIXTURE from "./fixture/login.html?raw";
+
+// jsdom does no layout, so give every rendered element a box and leave the
+// ones that are not displayed (the fixture's honeypot) without one
+function hiddenByStyle(el: Element | null): boolean {
+  for (; el; el = el.parentElement)
+    if (getComputedStyle(el).display === "none") return true;
+  return false;
+}
+
+function loadFixture() {
+  const page = new DOMParser().parseFromString(FIXTURE, "text/html");
+  document.replaceChild(
+    document.importNode(page.documentElement, true),
+    document.documentElement
+  );
+}
+
+const field = (name: string) =>
+  document.querySelector<HTMLInputElement>(`input[name="${name}"]`)!;
+const values = () =>
+  Object.fromEntries(
+    Array.from(document.querySelectorAll("input"), (el) => [
+      el.name || el.type,
+      el.value,
+    ])
+  );
+
+describe("fillLoginForm on the login fixture", () => {
+  beforeEach(() => {
+    vi.spyOn(Element.prototype, "getBoundingClientRect").mockImplementation(
+      function (this: Element) {
+        const size = hiddenByStyle(this) ? 0 : 20;
+        return new DOMRect(0, 0, size * 10, size);
+      }
+    );
+    loadFixture();
+  });
+
+  it("fills the login form's username and password only", () => {
+    const events: string[] = [];
+    for (const type of ["input", "change"])
+      document.addEventListener(type, (e) =>
+        events.push(`${type} ${(e.target as HTMLInputElement).name}`)
+      );
+
+    const result = fillLoginForm(location.origin, "me@example.com", "s3cret!");
+
+    expect(result).toEqual({ sameOrigin: true, username: true, passwords: 1 });
+    expect(values()).toEqual({
+      search: "",
+      honeypot: "",
+      email: "me@example.com",
+      password: "s3cret!",
+      newsletter: "",
+    });
+    expect(events).toEqual([
+      "input email",
+      "change email",
+      "input password",
+      "change password",
+    ]);
+  });
+
+  it("fills only the password without a username", () => {
+    const result = fillLoginForm(location.origin, null, "s3cret!");
+    expect(result).toEqual({ sameOrigin: true, username: false, passwords: 1 });
+    expect(field("email").value).toBe("");
+    expect(field("password").value).toBe("s3cret!");
+  });
+
+  it("fills the username on the first step of a two-step login", () => {
+    field("password").remove();
+    field("honeypot").remove();
+    const result = fillLoginForm(location.origin, "me@example.com", "s3cret!");
+    expect(result).toEqual({ sameOrigin: true, username: true, passwords: 0 });
+    expect(field("email").value).toBe("me@example.com");
+    expect(field("newsletter").value).toBe("");
+  });
+
+  it("refuses a page that is on another origin", () => {
+    const result = fillLoginForm(
+      "https://example.com",
+      "me@example.com",
+      "s3cret!"
+    );
+    expect(result).toEqual({
+      sameOrigin: false,
+      username: false,
+      passwords: 0,
+    });
+    expect(Object.values(values()).every((v) => v === "")).toBe(true);
+  });
+});
+
+describe("profilesForUrl", () => {
+  const profile = (name: string, context: string) =>
+    createProfile({
+      name,
+      context,
+      counter: 1,
+      length: 16,
+      algorithmVersion: "v3",
+    });
+  const profiles = [
+    profile("Google", "google.com"),
+    profile("Gmail", "https://mail.google.com/"),
+    profile("Work", "google.co.uk"),
+    profile("Other", "example.com"),
+    profile("Note", "Work VPN"),
+    profile("Empty", ""),
+  ];
+  const names = (url: string) =>
+    profilesForUrl(profiles, url, []).map((p) => p.name);
+
+  it("matches a page by its registrable domain", () => {
+    expect(names("https://accounts.google.com/signin?hl=en")).toEqual([
+      "Google",
+      "Gmail",
+    ]);
+    expect(names("https://www.google.co.uk/")).toEqual(["Work"]);
+  });
+
+  it("does not match look-alike or unrelated hosts", () => {
+    expect(names("https://google.com.evil.example/")).toEqual([]);
+    expect(names("https://notexample.com/")).toEqual([]);
+  });
+
+  it("follows aliases on both sides", () => {
+    expect(
+      profilesForUrl(profiles, "https://www.youtube.com/", [
+        { from: "youtube.com", to: "google.com" },
+      ]).map((p) => p.name)
+    ).toEqual(["Google", "Gmail"]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Login form filling, run in the page as an injected content script
+ * - `fillLoginForm` is serialized by `scripting.executeScript`, so it must
+ *   not use anything from outside its own body
+ * - It refuses to fill when the page has navigated to another origin since
+ *   the popup looked at it
+ * - Fills the password fields of one form (the focused one, or else the
+ *   first) and the username field before them; on the first step of a
+ *   two-step login, where there is no password field yet, only the username
+ * - Saved sites match a page by its registrable domain after aliases, as
+ *   contexts are normalised in the app (see ../utils/site-context)
+ */
+
+import { normalizeContext, type ContextAlias } from "@/utils/site-context";
+import type { SiteProfile } from "@/utils/profiles";
+import { browser } from "./browser";
+
+export interface FillResult {
+  /** false when the page is no longer on the expected origin */
+  sameOrigin: boolean;
+  username: boolean;
+  passwords: number;
+}
+
+export function fillLoginForm(
+  origin: string,
+  username: string | null,
+  password: string
+): FillResult {
+  if (location.origin !== origin)
+    return { sameOrigin: false, username: false, passwords: 0 };
+
+  const usable = (el: HTMLInputElement) => {
+    const box = el.getBoundingClientRect();
+    return (
+      !el.disabled &&
+      !el.readOnly &&
+      box.width > 0 &&
+      box.height > 0 &&
+      getComputedStyle(el).visibility !== "hidden"
+    );
+  };
+  const inputs = (selector: string) =>
+    Array.from(document.querySelectorAll<HTMLInputElement>(selector)).filter(
+      usable
+    );
+  // Content scripts see the page's DOM but not its JavaScript objects, so a
+  // plain assignment plus the events a user would cause is enough for
+  // framework-controlled inputs too
+  const set = (el: HTMLInputElement, value: string) => {
+    el.focus();
+    el.value = value;
+    el.dispatchEvent(new Event("input", { bubbles: true }));
+    el.dispatchEvent(new Event("change", { bubbles: true }));
+  };
+
+  const all = inputs('input[type="password"]');
+  const focused = document.activeElement;
+  const first =
+    all.find((p) => p.form && focused && p.form.contains(focused)) ?? all[0];
+  const form = first?.form ?? null;
+  const inForm = all.filter((p) => p.form === form);
+  // A change-password form also asks for the current password; fill only
+  // that, unless every field is a new one (sign-up: password and confirm)
+  const current = inForm.filter(
+    (p) => p.autocomplete.toLowerCase() !== "new-password"
+  );
+  const passwords = current.length ? current.slice(0, 1) : inForm;
+
+  let filledUsername = false;
+  if (username) {
+    const candidates = inputs(
+      'input[type="text"], input[type="email"], input[type="tel"], input:not([type])'
+    ).filter(
+      (el) =>
+        !first ||
+        (el.form === form &&
+          first.compareDocumentPosition(el) & Node.DOCUMENT_POSITION_PRECEDING)
+    );
+    const named = candidates.filter((el) =>
+      /\b(username|email)\b/.test(el.autocomplete.toLowerCase())
+    );
+    const field = first
+      ? named[named.length - 1] ?? candidates[candidates.length - 1]
+      : named[0] ?? candidates.find((el) => el.type === "email");
+    if (field) {
+      set(field, username);
+      filledUsername = true;
+    }
+  }
+  passwords.forEach((p) => set(p, password));
+  return {
+    sameOrigin: true,
+    username: filledUsername,
+    passwords: passwords.length,
+  };
+}
+
+/** The saved sites for a page, by the page's (aliased) registrable domain. */
+export function profilesForUrl(
+  profiles: SiteProfile[],
+  url: string,
+  aliases: readonly ContextAlias[]
+): SiteProfile[] {
+  const site = normalizeContext(url, aliases);
+  return profiles.filter(
+    (p) => p.context && normalizeContext(p.context, aliases) === site
+  );
+}
+
+export async function fillTab(
+  tabId: number,
+  origin: string,
+  username: string | null,
+  password: string
+): Promise<FillResult> {
+  const [injection] = await browser.scripting.executeScript({
+    target: { tabId },
+    func: fillLoginForm,
+    args: [origin, username, password],
+  });
+  if (!injection?.result) throw new Error("The page could not be filled");
+  return injection.result;
+}
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from "react";
+import ReactDOM from "react-dom/client";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ThemeProvider } from "@/theme";
+import { cn } from "@/lib/utils";
+import {
+  filterProfiles,
+  parseProfiles,
+  type SiteProfile,
+} from "@/utils/profiles";
+import { parseAliases, type ContextAlias } from "@/utils/site-context";
+import {
+  loadAliases,
+  loadProfiles,
+  saveAliases,
+  saveProfiles,
+} from "./storage";
+import "@/index.css";
+
+// Extension settings page: replace the saved sites and aliases with the
+// app's profiles.json / aliases.json. Neither file holds a secret.
+const Options = () => {
+  const [profiles, setProfiles] = useState<SiteProfile[]>([]);
+  const [aliases, setAliases] = useState<ContextAlias[]>([]);
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    Promise.all([loadProfiles(), loadAliases()])
+      .then(([p, a]) => {
+        setProfiles(p);
+        setAliases(a);
+      })
+      .catch((e) => setError(`Could not load sites: ${e?.message ?? e}`));
+  }, []);
+
+  const importFile = async (file: File) => {
+    setStatus("");
+    setError("");
+    try {
+      const text = await file.text();
+      const data = JSON.parse(text);
+      if (Array.isArray(data?.aliases)) {
+        const next = parseAliases(text);
+        await saveAliases(next);
+        setAliases(next);
+        setStatus(`Imported ${next.length} aliases from ${file.name}`);
+      } else {
+        const next = parseProfiles(text);
+        if (!next.length) throw new Error("no site profiles in this file");
+        await saveProfiles(next);
+        setProfiles(next);
+        setStatus(`Imported ${next.length} sites from ${file.name}`);
+      }
+    } catch (e: any) {
+      setError(`Could not import ${file.name}: ${e?.message ?? e}`);
+    }
+  };
+
+  return (
+    <div className="min-h-dvh bg-secondary text-secondary-foreground">
+      <div className="mx-auto max-w-md space-y-4 p-6 text-sm">
+        <h1 className="text-2xl font-semibold">passw saved sites</h1>
+        <p className="opacity-80">
+          Import profiles.json, and aliases.json if you use aliases, from the
+          desktop app's data directory or the command line. An import replaces
+          what is saved here; the files hold site settings only, never passwords
+          or the master phrase.
+        </p>
+        <label className="inline-flex cursor-pointer items-center gap-2 rounded-md border px-3 py-1.5">
+          <Upload size={16} aria-hidden="true" /> Import file
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void importFile(file);
+            }}
+          />
+        </label>
+        {(status || error) && (
+          <p
+            className={cn(
+              "text-xs",
+              error ? "text-red-600 dark:text-red-400" : "opacity-80"
+            )}
+          >
+            {error || status}
+          </p>
+        )}
+        <div>
+          <span className="opacity-80">
+            {profiles.length} sites, {aliases.length} aliases
+          </span>
+          {profiles.length > 0 && (
+            <ul className="mt-1 divide-y rounded-lg border">
+              {filterProfiles(profiles, "").map((p) => (
+                <li key={p.id} className="flex gap-2 px-3 py-1.5">
+                  <span className="flex-1 truncate">{p.name}</span>
+                  <span className="truncate text-xs opacity-70">
+                    {p.username ? `${p.username} · ` : ""}
+                    {p.context}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {profiles.length > 0 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={async () => {
+              await Promise.all([saveProfiles([]), saveAliases([])]);
+              setProfiles([]);
+              setAliases([]);
+              setStatus("Removed all sites and aliases");
+            }}
+          >
+            Remove all
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
+  <React.StrictMode>
+    <ThemeProvider attribute="class" enableSystem>
+      <Options />
+    </ThemeProvider>
+  </React.StrictMode>
+);
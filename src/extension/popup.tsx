@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import ReactDOM from "react-dom/client";
+import { KeyRound, Settings, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import MasterFingerprint from "@/components/master-fingerprint";
+import { ThemeProvider } from "@/theme";
+import { cn } from "@/lib/utils";
+import { searchProfiles, type SiteProfile } from "@/utils/profiles";
+import { selfTest } from "@/utils/self-test";
+import { normalizeContext, type ContextAlias } from "@/utils/site-context";
+import { generateForProfile } from "@/utils/site-password";
+import { activeTab, browser } from "./browser";
+import { fillTab, profilesForUrl } from "./fill";
+import { loadAliases, loadProfiles } from "./storage";
+import "@/index.css";
+
+// Same cost as the app and the CLI, or the passwords would differ
+const ITERATIONS = 600_000;
+const MAX_RESULTS = 6;
+
+interface Page {
+  tabId: number;
+  url: string;
+  origin: string;
+}
+
+// Browser toolbar popup: the sites saved for the current tab, the master
+// phrase, and Fill. The phrase lives in this popup's memory only and is gone
+// when the popup closes.
+const Popup = () => {
+  const [page, setPage] = useState<Page | null>(null);
+  const [profiles, setProfiles] = useState<SiteProfile[]>([]);
+  const [aliases, setAliases] = useState<ContextAlias[]>([]);
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [master, setMaster] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+  const [selfTestFailed, setSelfTestFailed] = useState(false);
+
+  useEffect(() => {
+    selfTest().then((report) => setSelfTestFailed(!report.ok));
+    Promise.all([loadProfiles(), loadAliases(), activeTab()])
+      .then(([p, a, tab]) => {
+        setProfiles(p);
+        setAliases(a);
+        if (tab?.id !== undefined && tab.url && /^https?:/.test(tab.url))
+          setPage({
+            tabId: tab.id,
+            url: tab.url,
+            origin: new URL(tab.url).origin,
+          });
+      })
+      .catch((e) => setError(`Could not load sites: ${e?.message ?? e}`));
+  }, []);
+
+  const site = page ? normalizeContext(page.url, aliases) : "";
+  const forPage = page ? profilesForUrl(profiles, page.url, aliases) : [];
+  const shown = query
+    ? searchProfiles(profiles, query).slice(0, MAX_RESULTS)
+    : forPage;
+  const profile =
+    shown.find((p) => p.id === selectedId) ?? (query ? null : shown[0]) ?? null;
+  // A site saved for another domain is fine to pick, but worth a warning:
+  // filling it here is what a phishing page would want
+  const otherSite = profile !== null && !forPage.includes(profile);
+
+  const fill = async () => {
+    if (!page || !profile || busy) return;
+    setBusy(true);
+    setStatus("");
+    setError("");
+    try {
+      const password = await generateForProfile(profile, master, ITERATIONS);
+      const result = await fillTab(
+        page.tabId,
+        page.origin,
+        profile.username ?? null,
+        password
+      );
+      if (!result.sameOrigin)
+        throw new Error("The page changed; open the popup again");
+      if (!result.passwords && !result.username)
+        throw new Error("No login form found on this page");
+      setMaster("");
+      setStatus(
+        result.passwords
+          ? `Filled ${result.username ? "username and " : ""}password`
+          : "Filled username; fill again on the password step"
+      );
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-80 bg-secondary p-3 text-sm text-secondary-foreground">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="truncate font-medium">
+          {page ? site : "No web page in this tab"}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          aria-label="Saved sites"
+          title="Saved sites"
+          onClick={() => browser.runtime.openOptionsPage()}
+          className="size-7"
+        >
+          <Settings size={14} />
+        </Button>
+      </div>
+      {selfTestFailed && (
+        <p role="alert" className="mb-2 text-xs text-red-600 dark:text-red-400">
+          Filling disabled: the crypto self-test failed in this browser, so its
+          passwords would not match your other devices.
+        </p>
+      )}
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setSelectedId(null);
+        }}
+        placeholder="Search all sites..."
+        aria-label="Search all sites"
+        className="h-8"
+      />
+      <ul className="mt-2 space-y-0.5" role="listbox" aria-label="Sites">
+        {shown.map((p) => (
+          <li
+            key={p.id}
+            role="option"
+            aria-selected={p === profile}
+            onClick={() => setSelectedId(p.id)}
+            className={cn(
+              "flex cursor-default items-center gap-2 rounded-md px-2 py-1",
+              p === profile && "bg-primary text-primary-foreground"
+            )}
+          >
+            <KeyRound size={14} aria-hidden="true" className="shrink-0" />
+            <span className="flex-1 truncate">{p.name}</span>
+            <span className="truncate text-xs opacity-70">
+              {p.username || p.context}
+            </span>
+          </li>
+        ))}
+        {shown.length === 0 && (
+          <li className="px-2 py-1 text-xs opacity-60">
+            {profiles.length
+              ? query
+                ? "No matching site"
+                : "No saved site for this page; search all sites"
+              : "No saved sites yet: import them under Saved sites"}
+          </li>
+        )}
+      </ul>
+      {otherSite && (
+        <p className="mt-2 flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+          <TriangleAlert size={14} aria-hidden="true" className="shrink-0" />
+          {profile.name} is saved for {profile.context}, not{" "}
+          {site || "this page"}. Make sure this is the right site before
+          filling.
+        </p>
+      )}
+      <form
+        className="mt-2 flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void fill();
+        }}
+      >
+        <Input
+          type="password"
+          value={master}
+          onChange={(e) => setMaster(e.target.value)}
+          placeholder="Master passphrase"
+          aria-label="Master passphrase"
+          className="h-8"
+          autoFocus
+        />
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!page || !profile || !master || busy || selfTestFailed}
+        >
+          Fill
+        </Button>
+      </form>
+      <MasterFingerprint master={master} />
+      <p
+        className={cn(
+          "mt-2 text-xs",
+          error ? "text-red-600 dark:text-red-400" : "opacity-60"
+        )}
+      >
+        {error || (busy ? "Generating..." : status)}
+      </p>
+    </div>
+  );
+};
+
+ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
+  <React.StrictMode>
+    <ThemeProvider attribute="class" enableSystem>
+      <Popup />
+    </ThemeProvider>
+  </React.StrictMode>
+);
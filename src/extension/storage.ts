@@ -0,0 +1,43 @@
+/**
+ * Persistence for the extension: site profiles and context aliases in
+ * `storage.local`, as the same JSON the app and CLI keep in profiles.json and
+ * aliases.json. The master phrase is never stored, not even for a session.
+ */
+
+import {
+  parseProfiles,
+  serializeProfiles,
+  type SiteProfile,
+} from "@/utils/profiles";
+import {
+  parseAliases,
+  serializeAliases,
+  type ContextAlias,
+} from "@/utils/site-context";
+import { browser } from "./browser";
+
+const PROFILES_KEY = "profiles";
+const ALIASES_KEY = "aliases";
+
+async function read(key: string): Promise<string | null> {
+  const value = (await browser.storage.local.get([key]))[key];
+  return typeof value === "string" ? value : null;
+}
+
+export async function loadProfiles(): Promise<SiteProfile[]> {
+  return parseProfiles(await read(PROFILES_KEY));
+}
+
+export async function saveProfiles(profiles: SiteProfile[]): Promise<void> {
+  await browser.storage.local.set({
+    [PROFILES_KEY]: serializeProfiles(profiles),
+  });
+}
+
+export async function loadAliases(): Promise<ContextAlias[]> {
+  return parseAliases(await read(ALIASES_KEY));
+}
+
+export async function saveAliases(aliases: ContextAlias[]): Promise<void> {
+  await browser.storage.local.set({ [ALIASES_KEY]: serializeAliases(aliases) });
+}
@@ -1,14 +1,21 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
+import { isTauri } from "@tauri-apps/api/core";
+import { getCurrentWindow } from "@tauri-apps/api/window";
 import App from "./App";
+import QuickGenerate from "./components/quick-generate";
+import { QUICK_WINDOW } from "./utils/quick-generate";
 import "./index.css";
 import { ThemeProvider } from "./theme";
 import { Toaster } from "./components/ui/sonner";
 
+// Both desktop windows load this page; the tray popup is told apart by its label
+const quick = isTauri() && getCurrentWindow().label === QUICK_WINDOW;
+
 ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
   <React.StrictMode>
     <ThemeProvider attribute="class" enableSystem>
-      <App />
+      {quick ? <QuickGenerate /> : <App />}
       <Toaster />
     </ThemeProvider>
   </React.StrictMode>
@@ -0,0 +1,32 @@
+/**
+ * Persistence for context alias rules (see ./site-context)
+ * - Tauri build: aliases.json next to profiles.json (via Rust commands),
+ *   also read by the CLI
+ * - Web build: localStorage
+ */
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+import {
+  parseAliases,
+  serializeAliases,
+  type ContextAlias,
+} from "./site-context";
+
+const STORAGE_KEY = "passw.aliases";
+
+export async function loadAliases(): Promise<ContextAlias[]> {
+  if (isTauri()) {
+    const json = await invoke<string | null>("load_aliases");
+    return parseAliases(json);
+  }
+  return parseAliases(localStorage.getItem(STORAGE_KEY));
+}
+
+export async function saveAliases(aliases: ContextAlias[]): Promise<void> {
+  const data = serializeAliases(aliases);
+  if (isTauri()) {
+    await invoke("save_aliases", { data });
+    return;
+  }
+  localStorage.setItem(STORAGE_KEY, data);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { generateBatch, parseContextList } from "./batch";
+import {
+  cancelDerivation,
+  derive,
+  DerivationCancelled,
+} from "./derivation-client";
+import type { SiteProfileInput } from "./profiles";
+
+const MASTER = "correct horse battery staple";
+const DEFAULTS: SiteProfileInput = {
+  name: "",
+  context: "",
+  counter: 1,
+  length: 16,
+  algorithmVersion: "v2",
+};
+const sites = ["a.example", "b.example", "c.example"].map((context) => ({
+  ...DEFAULTS,
+  name: context,
+  context,
+}));
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("parseContextList", () => {
+  it("reads named columns, or a context and username per row", () => {
+    const named = parseContextList(
+      "url,username,length\nhttps://mail.google.com/,me,24\n,nobody,",
+      DEFAULTS
+    );
+    expect(named[0].profile).toMatchObject({
+      name: "google.com",
+      context: "google.com",
+      username: "me",
+      length: 24,
+    });
+    expect(named[1]).toEqual({ source: "line 3", error: "no context" });
+
+    const plain = parseContextList("Work VPN,me", DEFAULTS);
+    expect(plain[0].profile).toMatchObject({
+      context: "Work VPN",
+      username: "me",
+    });
+  });
+});
+
+// No Worker in Node, so each slot derives inline on this thread
+describe("generateBatch", () => {
+  it("keeps going while the generator derives or cancels", async () => {
+    const batch = generateBatch(sites, MASTER, 600_000);
+    await tick();
+    const generator = derive({
+      mode: "password",
+      master: MASTER,
+      number: 1,
+      options: { context: "d.example", length: 16, iterations: 100_000 },
+    });
+    expect(await generator).toHaveLength(16);
+    // What App does when the phrase or site changes
+    cancelDerivation();
+    const entries = await batch;
+    expect(entries.map((e) => e.name)).toEqual(sites.map((s) => s.name));
+    expect(entries.every((e) => e.password.length === 16)).toBe(true);
+  }, 60_000);
+
+  it("stops on a cancel in its own slot only", async () => {
+    const batch = generateBatch(sites, MASTER, 600_000);
+    const generator = derive({
+      mode: "password",
+      master: MASTER,
+      number: 1,
+      options: { context: "d.example", length: 16, iterations: 100_000 },
+    });
+    await tick();
+    cancelDerivation("batch");
+    await expect(batch).rejects.toBeInstanceOf(DerivationCancelled);
+    expect(await generator).toHaveLength(16);
+  }, 60_000);
+});
@@ -0,0 +1,101 @@
+/**
+ * Batch generation: passwords for many sites with one master phrase, for
+ * setting up a machine or handing over a list of shared accounts
+ * - Sites come from saved profiles or from a CSV list of contexts
+ * - A CSV with a header row may name the columns name, context (or url,
+ *   site), username, counter, length and notes; without a header each row
+ *   is a context followed by an optional username
+ * - List rows take every other setting from the current defaults; their
+ *   contexts are normalised as everywhere else one is entered
+ */
+
+import { DerivationCancelled } from "./derivation-client";
+import type { ExportEntry } from "./exporters";
+import { parseCsv, type ImportRow } from "./importers";
+import { validateProfile, type SiteProfileInput } from "./profiles";
+import { entryContext, type ContextAlias } from "./site-context";
+import { generateForProfile } from "./site-password";
+
+const COLUMNS: Record<string, string[]> = {
+  name: ["name", "title"],
+  context: ["context", "url", "site", "login_uri"],
+  username: ["username", "user", "login", "login_username"],
+  counter: ["counter"],
+  length: ["length"],
+  notes: ["notes"],
+};
+
+function toNumber(raw: string, fallback: number): number {
+  return raw.trim() ? Number(raw) : fallback;
+}
+
+/** One row per listed site, with a profile or the reason it was skipped. */
+export function parseContextList(
+  text: string,
+  defaults: SiteProfileInput,
+  aliases: readonly ContextAlias[] = []
+): ImportRow[] {
+  const rows = parseCsv(text);
+  const names = (rows[0] ?? []).map((h) => h.trim().toLowerCase());
+  const hasHeader = names.some((n) => COLUMNS.context.includes(n));
+  const col = (key: string) =>
+    hasHeader ? names.findIndex((n) => COLUMNS[key].includes(n)) : -1;
+  const idx = {
+    name: col("name"),
+    context: hasHeader ? col("context") : 0,
+    username: hasHeader ? col("username") : 1,
+    counter: col("counter"),
+    length: col("length"),
+    notes: col("notes"),
+  };
+  const get = (r: string[], i: number) => (i >= 0 ? r[i] ?? "" : "").trim();
+
+  return rows.slice(hasHeader ? 1 : 0).map((r, i) => {
+    const source = `line ${i + (hasHeader ? 2 : 1)}`;
+    const context = entryContext(get(r, idx.context), aliases, defaults.engine);
+    const profile: SiteProfileInput = {
+      ...defaults,
+      name: get(r, idx.name) || context,
+      context,
+      counter: toNumber(get(r, idx.counter), defaults.counter),
+      length: toNumber(get(r, idx.length), defaults.length),
+      username: get(r, idx.username) || undefined,
+      notes: get(r, idx.notes) || undefined,
+    };
+    const errors = context ? validateProfile(profile) : ["no context"];
+    return errors.length
+      ? { source, error: errors.join("; ") }
+      : { source, profile };
+  });
+}
+
+/**
+ * Derive every site's password in turn, in the "batch" derivation slot.
+ * Stops at the first failure, naming the site; `cancelDerivation("batch")`
+ * stops the batch.
+ */
+export async function generateBatch(
+  sites: SiteProfileInput[],
+  master: string,
+  iterations: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<ExportEntry[]> {
+  const entries: ExportEntry[] = [];
+  onProgress?.(0, sites.length);
+  for (const site of sites) {
+    try {
+      entries.push({
+        name: site.name,
+        context: site.context,
+        username: site.username,
+        notes: site.notes,
+        password: await generateForProfile(site, master, iterations, "batch"),
+      });
+    } catch (e: any) {
+      if (e instanceof DerivationCancelled) throw e;
+      throw new Error(`${site.name}: ${e?.message ?? e}`);
+    }
+    onProgress?.(entries.length, sites.length);
+  }
+  return entries;
+}
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clearSecret, copySecret } from "./clipboard";
+
+// A clipboard that holds one value, as navigator.clipboard does
+function stubClipboard(initial = "", readText?: () => Promise<string>) {
+  const clipboard = {
+    contents: initial,
+    readText: vi.fn(
+      readText ?? (async (): Promise<string> => clipboard.contents)
+    ),
+    writeText: vi.fn(async (text: string) => {
+      clipboard.contents = text;
+    }),
+  };
+  vi.stubGlobal("navigator", { clipboard });
+  return clipboard;
+}
+
+describe("copySecret (web)", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("clears the value after the chosen time", async () => {
+    vi.useFakeTimers();
+    const clipboard = stubClipboard();
+    const onCleared = vi.fn();
+    await copySecret("secret", 10, onCleared);
+    expect(clipboard.contents).toBe("secret");
+    await vi.advanceTimersByTimeAsync(9_000);
+    expect(clipboard.contents).toBe("secret");
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(clipboard.contents).toBe("");
+    expect(onCleared).toHaveBeenCalledWith("cleared");
+  });
+
+  it("leaves something copied since then alone", async () => {
+    vi.useFakeTimers();
+    const clipboard = stubClipboard();
+    const onCleared = vi.fn();
+    await copySecret("secret", 10, onCleared);
+    clipboard.contents = "something else";
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(clipboard.contents).toBe("something else");
+    expect(onCleared).toHaveBeenCalledWith("changed");
+  });
+
+  it("keeps the value when clearing is off", async () => {
+    vi.useFakeTimers();
+    const clipboard = stubClipboard();
+    await copySecret("secret", 0);
+    await vi.runAllTimersAsync();
+    expect(clipboard.contents).toBe("secret");
+  });
+
+  it("reports a clipboard the page may no longer read", async () => {
+    vi.useFakeTimers();
+    stubClipboard("", () => Promise.reject(new Error("NotAllowedError")));
+    const onCleared = vi.fn();
+    await copySecret("secret", 10, onCleared);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(onCleared).toHaveBeenCalledWith("failed");
+  });
+});
+
+describe("clearSecret (web)", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("clears the clipboard while it holds the value", async () => {
+    const clipboard = stubClipboard("secret");
+    expect(await clearSecret("secret")).toBe("cleared");
+    expect(clipboard.contents).toBe("");
+  });
+
+  it("leaves other contents alone", async () => {
+    const clipboard = stubClipboard("something else");
+    expect(await clearSecret("secret")).toBe("changed");
+    expect(clipboard.writeText).not.toHaveBeenCalled();
+  });
+
+  it("reports a denied read as a failure", async () => {
+    stubClipboard("secret", () => Promise.reject(new Error("NotAllowedError")));
+    expect(await clearSecret("secret")).toBe("failed");
+  });
+
+  it("gives up on a read held behind a prompt", async () => {
+    vi.useFakeTimers();
+    const clipboard = stubClipboard("secret", () => new Promise(() => {}));
+    const outcome = clearSecret("secret");
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await outcome).toBe("failed");
+    expect(clipboard.writeText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Copy secrets to the clipboard and clear them again after a while
+ * - Tauri build: Rust commands; the clipboard is cleared only if it still
+ *   holds our value, even when the app is in the background
+ * - Web build: best-effort timer in the page. Browsers may refuse to read
+ *   or write the clipboard without focus, in which case it is left alone
+ *   and the caller hears "failed" rather than a false success
+ */
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+
+/** Choices offered in the UI; 0 keeps the value on the clipboard. */
+export const CLIPBOARD_CLEAR_SECONDS = [10, 20, 30, 60, 90, 0] as const;
+export const DEFAULT_CLIPBOARD_CLEAR_SECONDS = 30;
+
+/**
+ * How clearing went: "changed" when the clipboard no longer holds our
+ * value (left alone), "failed" when the browser refused or asked first.
+ */
+export type ClearOutcome = "cleared" | "changed" | "failed";
+
+/** Longest wait for `readText`, which some browsers hold behind a prompt. */
+const READ_TIMEOUT_MS = 1000;
+
+let webTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function clearWebClipboard(text: string): Promise<ClearOutcome> {
+  try {
+    const current = await Promise.race([
+      navigator.clipboard.readText(),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error("timed out")), READ_TIMEOUT_MS)
+      ),
+    ]);
+    if (current !== text) return "changed";
+    await navigator.clipboard.writeText("");
+    return "cleared";
+  } catch {
+    return "failed";
+  }
+}
+
+/**
+ * Copy `text` and clear it after `clearAfterSeconds`. `onCleared` hears how
+ * the web build's timer went; the Tauri build clears in the background.
+ */
+export async function copySecret(
+  text: string,
+  clearAfterSeconds: number = DEFAULT_CLIPBOARD_CLEAR_SECONDS,
+  onCleared?: (outcome: ClearOutcome) => void
+): Promise<void> {
+  const clearAfterMs = Math.max(0, clearAfterSeconds) * 1000;
+  if (isTauri()) {
+    await invoke("copy_secret", { text, clearAfterMs });
+    return;
+  }
+  await navigator.clipboard.writeText(text);
+  if (webTimer) clearTimeout(webTimer);
+  webTimer = clearAfterMs
+    ? setTimeout(async () => {
+        webTimer = null;
+        onCleared?.(await clearWebClipboard(text));
+      }, clearAfterMs)
+    : null;
+}
+
+/** Clear now, if the clipboard still holds `text`. */
+export async function clearSecret(text: string): Promise<ClearOutcome> {
+  if (isTauri())
+    return (await invoke<boolean>("clear_secret", { text }))
+      ? "cleared"
+      : "changed";
+  if (webTimer) clearTimeout(webTimer);
+  webTimer = null;
+  return clearWebClipboard(text);
+}
@@ -0,0 +1,28 @@
+/**
+ * Most common passwords, most frequent first, from the top of public
+ * breach-corpus frequency lists. Used by ./strength as a ranked dictionary.
+ *
+ * Only the very top of those lists, to keep the bundle small: a phrase that
+ * is missing here may still be in a breach corpus, so the UI presents the
+ * master phrase check as a heuristic, not a breach lookup.
+ */
+
+export const COMMON_PASSWORDS: readonly string[] = `
+123456 password 123456789 12345678 12345 qwerty 1234567 111111 1234567890
+123123 abc123 password1 1234 iloveyou 1q2w3e4r 000000 qwerty123 zaq12wsx
+dragon sunshine princess letmein 654321 monkey 1qaz2wsx 123321 qwertyuiop
+superman asdfghjkl trustno1 football baseball welcome shadow master hello
+freedom whatever qazwsx michael login starwars admin passw0rd charlie
+donald aa123456 121212 666666 7777777 987654321 ashley bailey access
+flower mustang jordan hunter ranger buster soccer harley batman andrew
+tigger robert thomas hockey killer george computer michelle jessica pepper
+daniel summer internet cheese secret love lovely ginger hannah matrix
+chelsea biteme yankees dallas austin thunder taylor matthew 696969 112233
+maggie jennifer joshua amanda nicole corvette mercedes samsung pokemon
+liverpool arsenal 123qwe zxcvbnm asdfgh 1q2w3e q1w2e3r4 qwe123 test guest
+changeme default root letmein1 welcome1 password123 admin123 p@ssword
+qwerty1 football1 baseball1 princess1 monkey1 dragon1 sunshine1 iloveyou1
+abcdef abcd1234 a1b2c3 11111111 88888888 55555 987654 159753 147258369
+`
+  .trim()
+  .split(/\s+/);
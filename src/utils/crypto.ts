@@ -0,0 +1,88 @@
+/**
+ * Shared Web Crypto primitives used by the generator and the KDFs.
+ * - No external libraries; works in Browser, Tauri (WebView) and Node.js >= 18
+ */
+
+// ---------- Environment helpers ----------
+export async function getSubtle(): Promise<SubtleCrypto> {
+  const g = globalThis as any;
+  if (g?.crypto?.subtle) {
+    return g.crypto.subtle as SubtleCrypto;
+  }
+  // Node fallback: only attempt dynamic import when not in browser to avoid bundler resolution
+  if (typeof window === "undefined") {
+    try {
+      const { webcrypto } = await import(/* @vite-ignore */ "crypto");
+      return (webcrypto as Crypto).subtle as SubtleCrypto;
+    } catch {
+      // fallthrough to error below
+    }
+  }
+  throw new Error(
+    "Web Crypto API not available. In Node, use v18+; in browser/Tauri, use a modern runtime."
+  );
+}
+
+export const enc = new TextEncoder();
+
+// ---------- Utilities ----------
+export function normText(s: string): string {
+  return s.normalize("NFKC").trim();
+}
+
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const total = arrays.reduce((n, a) => n + a.length, 0);
+  const out = new Uint8Array(total);
+  let off = 0;
+  for (const a of arrays) {
+    out.set(a, off);
+    off += a.length;
+  }
+  return out;
+}
+
+export async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  const subtle = await getSubtle();
+  const digest = await subtle.digest("SHA-256", data);
+  return new Uint8Array(digest);
+}
+
+export async function hmacSha256(
+  keyBytes: Uint8Array,
+  msg: Uint8Array
+): Promise<Uint8Array> {
+  const subtle = await getSubtle();
+  const key = await subtle.importKey(
+    "raw",
+    keyBytes,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sig = await subtle.sign("HMAC", key, msg);
+  return new Uint8Array(sig);
+}
+
+export async function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  bits: number
+): Promise<Uint8Array> {
+  const subtle = await getSubtle();
+  const keyMaterial = await subtle.importKey(
+    "raw",
+    password,
+    { name: "PBKDF2" },
+    false,
+    ["deriveBits"]
+  );
+  const params: Pbkdf2Params = {
+    name: "PBKDF2",
+    hash: "SHA-256",
+    salt,
+    iterations,
+  };
+  const derived = await subtle.deriveBits(params, keyMaterial, bits);
+  return new Uint8Array(derived);
+}
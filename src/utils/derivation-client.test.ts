@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  cancelDerivation,
+  derive,
+  DerivationCancelled,
+  type DeriveRequest,
+} from "./derivation-client";
+import { generatePassword } from "./pass-generator";
+
+// No Worker in Node, so each slot derives inline on this thread
+const request = (context: string): DeriveRequest => ({
+  mode: "password",
+  master: "correct horse battery staple",
+  number: 1,
+  options: { context, length: 16, iterations: 100_000 },
+});
+
+describe("derive", () => {
+  it("gives the same output as deriving directly", async () => {
+    const { master, number, options } = request("a.example");
+    expect(await derive(request("a.example"))).toBe(
+      await generatePassword(master, number, options)
+    );
+  }, 30_000);
+
+  it("replaces the request in flight in the same slot", async () => {
+    const first = derive(request("a.example"));
+    const second = derive(request("b.example"));
+    await expect(first).rejects.toBeInstanceOf(DerivationCancelled);
+    expect(await second).toHaveLength(16);
+  }, 30_000);
+
+  it("stops on cancelDerivation", async () => {
+    const running = derive(request("a.example"), () => cancelDerivation());
+    await expect(running).rejects.toThrow("Derivation cancelled");
+  }, 30_000);
+
+  it("leaves other slots running", async () => {
+    const main = derive(request("a.example"));
+    const fields = derive(request("b.example"), undefined, "fields");
+    expect(await main).toHaveLength(16);
+    expect(await fields).toHaveLength(16);
+  }, 30_000);
+
+  it("cancels only the given slot", async () => {
+    const main = derive(request("a.example"));
+    const fields = derive(
+      request("b.example"),
+      () => cancelDerivation("fields"),
+      "fields"
+    );
+    await expect(fields).rejects.toBeInstanceOf(DerivationCancelled);
+    expect(await main).toHaveLength(16);
+  }, 30_000);
+});
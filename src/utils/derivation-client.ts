@@ -0,0 +1,170 @@
+/**
+ * Off-main-thread password derivation
+ * - One worker per caller slot; a new request cancels the slot's request in
+ *   flight, never another slot's
+ * - Cancelling terminates the worker, the only way to stop a running
+ *   Web Crypto PBKDF2 or a memory-hard KDF loop
+ * - Falls back to the main thread where module workers are unavailable,
+ *   and uses it under Tauri, where the native KDF backend does the work
+ * - Nothing is derived unless the known-answer self-test passed
+ */
+
+import {
+  runDerivation,
+  type DerivationJob,
+  type DerivationResult,
+  type DeriveProgress,
+  type DeriveRequest,
+  type UnlockRequest,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./derivation";
+import { nativeKdfAvailable } from "./native-kdf";
+import { assertSelfTest } from "./self-test";
+
+export type {
+  DeriveProgress,
+  DeriveRequest,
+  UnlockRequest,
+} from "./derivation";
+
+export class DerivationCancelled extends Error {
+  constructor() {
+    super("Derivation cancelled");
+    this.name = "DerivationCancelled";
+  }
+}
+
+interface Pending {
+  id: number;
+  request: DerivationJob;
+  onProgress?: (progress: DeriveProgress) => void;
+  resolve: (value: DerivationResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Independent callers: each slot has its own worker and request in flight,
+ * so a new request or a cancel in one leaves the others running.
+ * "main" is the generator and everything that replaces its result;
+ * "fields" the profile's derived usernames and answers; "batch" the export
+ * of many sites, which must not stop halfway when the generator runs.
+ */
+export type DerivationSlot = "main" | "fields" | "batch";
+
+interface Slot {
+  worker: Worker | null;
+  pending: Pending | null;
+}
+
+const slots: Record<DerivationSlot, Slot> = {
+  main: { worker: null, pending: null },
+  fields: { worker: null, pending: null },
+  batch: { worker: null, pending: null },
+};
+// Under Tauri the KDF already runs natively off the UI thread, and the
+// native backend is only reachable from the window, not from a worker
+let workersUnavailable = typeof Worker === "undefined" || nativeKdfAvailable();
+let nextId = 1;
+
+function settle(
+  slot: Slot,
+  id: number,
+  outcome: { value: DerivationResult } | { error: Error }
+) {
+  if (slot.pending?.id !== id) return;
+  const { resolve, reject } = slot.pending;
+  slot.pending = null;
+  if ("value" in outcome) resolve(outcome.value);
+  else reject(outcome.error);
+}
+
+function runInline(slot: Slot, job: Pending): void {
+  runDerivation(job.request, (p) => {
+    if (slot.pending?.id === job.id) job.onProgress?.(p);
+  }).then(
+    (value) => settle(slot, job.id, { value }),
+    (e) =>
+      settle(slot, job.id, { error: e instanceof Error ? e : new Error(e) })
+  );
+}
+
+function getWorker(slot: Slot): Worker | null {
+  if (slot.worker || workersUnavailable) return slot.worker;
+  let worker: Worker;
+  try {
+    worker = new Worker(
+      new URL("../workers/derivation.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+  } catch {
+    workersUnavailable = true;
+    return null;
+  }
+  worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+    if (slot.pending?.id !== data.id) return;
+    if (data.type === "progress") slot.pending.onProgress?.(data.progress);
+    else if (data.type === "done") settle(slot, data.id, { value: data.value });
+    else settle(slot, data.id, { error: new Error(data.message) });
+  };
+  // A worker that fails to load (e.g. blocked by a CSP) is not retried
+  worker.onerror = () => {
+    worker.terminate();
+    if (slot.worker === worker) slot.worker = null;
+    workersUnavailable = true;
+    if (slot.pending) runInline(slot, slot.pending);
+  };
+  slot.worker = worker;
+  return worker;
+}
+
+/** Stop the slot's derivation in flight, if any; its promise rejects with DerivationCancelled. */
+export function cancelDerivation(which: DerivationSlot = "main"): void {
+  const slot = slots[which];
+  if (!slot.pending) return;
+  const { reject } = slot.pending;
+  slot.pending = null;
+  slot.worker?.terminate();
+  slot.worker = null;
+  reject(new DerivationCancelled());
+}
+
+// Refuses every derivation while the known-answer self-test fails
+async function run(
+  which: DerivationSlot,
+  request: DerivationJob,
+  onProgress?: (progress: DeriveProgress) => void
+): Promise<DerivationResult> {
+  await assertSelfTest();
+  cancelDerivation(which);
+  const slot = slots[which];
+  return new Promise((resolve, reject) => {
+    const job: Pending = { id: nextId++, request, onProgress, resolve, reject };
+    slot.pending = job;
+    const w = getWorker(slot);
+    if (w) w.postMessage({ id: job.id, request } satisfies WorkerRequest);
+    else runInline(slot, job);
+  });
+}
+
+/** Derive in the background, replacing any derivation still running in the slot. */
+export function derive(
+  request: DeriveRequest,
+  onProgress?: (progress: DeriveProgress) => void,
+  which: DerivationSlot = "main"
+): Promise<string> {
+  return run(which, request, onProgress) as Promise<string>;
+}
+
+/** Derive a v3 session key in the background, replacing the slot's derivation. */
+export function deriveSessionKeyInBackground(
+  request: Omit<UnlockRequest, "mode">,
+  onProgress?: (progress: DeriveProgress) => void,
+  which: DerivationSlot = "main"
+): Promise<CryptoKey> {
+  return run(
+    which,
+    { mode: "unlock", ...request },
+    onProgress
+  ) as Promise<CryptoKey>;
+}
@@ -0,0 +1,152 @@
+/**
+ * Derivation requests shared by the worker and the main-thread fallback
+ * - Requests and responses are plain data (or a CryptoKey, which is
+ *   structured-cloneable even when non-extractable) so they survive postMessage
+ * - Memory-hard KDFs report real progress; PBKDF2 reports an estimate
+ *   from a short calibration run, since Web Crypto gives no progress
+ */
+
+import { pbkdf2Sha256 } from "./crypto";
+import { nativeDeriveKey, nativeKdfAvailable } from "./native-kdf";
+import {
+  generateWithEngine,
+  getEngine,
+  type EngineId,
+  type EngineOptions,
+} from "./engines";
+import {
+  deriveSessionKey,
+  generateFromTemplate,
+  generatePassphrase,
+  generatePassword,
+  resolveKdf,
+  type GenerateOptions,
+  type PassphraseOptions,
+  type TemplateOptions,
+} from "./pass-generator";
+import { generateForPurpose, type PurposeOptions } from "./purposes";
+
+type Plain<T> = Omit<T, "onProgress">;
+
+export type DeriveRequest =
+  | {
+      mode: "password";
+      master: string;
+      number: number;
+      options: Plain<GenerateOptions>;
+    }
+  | {
+      mode: "passphrase";
+      master: string;
+      number: number;
+      options: Plain<PassphraseOptions>;
+    }
+  | {
+      mode: "template";
+      master: string;
+      number: number;
+      options: Plain<TemplateOptions>;
+    }
+  | {
+      mode: "purpose";
+      master: string;
+      number: number;
+      options: Plain<PurposeOptions>;
+    }
+  | {
+      mode: "engine";
+      engine: EngineId;
+      master: string;
+      number: number;
+      options: Plain<EngineOptions>;
+    };
+
+/** Derive a v3 session key, see `deriveSessionKey`. */
+export interface UnlockRequest {
+  mode: "unlock";
+  master: string;
+  options: Plain<Pick<GenerateOptions, "iterations" | "kdf">>;
+}
+
+export type DerivationJob = DeriveRequest | UnlockRequest;
+export type DerivationResult = string | CryptoKey;
+
+/** Completed fraction (0–1), or the expected run time when it cannot be measured. */
+export type DeriveProgress = { fraction: number } | { estimatedMs: number };
+
+export interface WorkerRequest {
+  id: number;
+  request: DerivationJob;
+}
+
+export type WorkerResponse =
+  | { id: number; type: "progress"; progress: DeriveProgress }
+  | { id: number; type: "done"; value: DerivationResult }
+  | { id: number; type: "error"; message: string };
+
+const CALIBRATION_ITERATIONS = 10_000;
+let msPerIteration: number | null = null;
+
+// Calibrates whichever PBKDF2 `deriveKey` will use, native or Web Crypto
+async function estimatePbkdf2Ms(iterations: number): Promise<number> {
+  if (msPerIteration === null) {
+    const zeros = new Uint8Array(16);
+    const start = performance.now();
+    await (nativeKdfAvailable()
+      ? nativeDeriveKey(zeros, zeros, 256, {
+          algorithm: "pbkdf2",
+          iterations: CALIBRATION_ITERATIONS,
+        })
+      : pbkdf2Sha256(zeros, zeros, CALIBRATION_ITERATIONS, 256));
+    msPerIteration = (performance.now() - start) / CALIBRATION_ITERATIONS;
+  }
+  return Math.round(msPerIteration * iterations);
+}
+
+export async function runDerivation(
+  request: DerivationJob,
+  onProgress: (progress: DeriveProgress) => void = () => {}
+): Promise<DerivationResult> {
+  const kdf =
+    request.mode === "engine"
+      ? getEngine(request.engine).kdf(request.options)
+      : resolveKdf(request.options);
+  if (kdf.algorithm === "pbkdf2") {
+    onProgress({ estimatedMs: await estimatePbkdf2Ms(kdf.iterations!) });
+  }
+  const report = (fraction: number) => onProgress({ fraction });
+  if (request.mode === "unlock") {
+    return deriveSessionKey(request.master, {
+      ...request.options,
+      onProgress: report,
+    });
+  }
+  const { master, number } = request;
+  switch (request.mode) {
+    case "passphrase":
+      return generatePassphrase(master, number, {
+        ...request.options,
+        onProgress: report,
+      });
+    case "template":
+      return generateFromTemplate(master, number, {
+        ...request.options,
+        onProgress: report,
+      });
+    case "purpose":
+      return generateForPurpose(master, number, {
+        ...request.options,
+        onProgress: report,
+      });
+    case "engine":
+      return generateWithEngine(request.engine, master, number, {
+        ...request.options,
+        onProgress: report,
+      });
+    default:
+      return generatePassword(master, number, {
+        ...request.options,
+        onProgress: report,
+      });
+  }
+}
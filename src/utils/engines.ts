@@ -0,0 +1,115 @@
+/**
+ * Algorithm registry: the native generator plus compatibility engines, so
+ * sites created with other deterministic managers keep their passwords
+ * - passw: `generatePassword` (algorithm versions v1–v3)
+ * - lesspass-v2: LessPass v2, see ./lesspass
+ * - spectre-v3: Spectre / Master Password algorithm v3, see ./spectre
+ *
+ * Engines take the same (master, number, options) arguments; the number is
+ * the counter of every engine. Options an engine does not use are ignored.
+ */
+
+import type { KdfOptions } from "./kdf";
+import {
+  LESSPASS_ITERATIONS,
+  LESSPASS_MAX_LENGTH,
+  LESSPASS_MIN_LENGTH,
+  generateLessPass,
+  lessPassRulesFromPolicy,
+} from "./lesspass";
+import {
+  generatePassword,
+  resolveKdf,
+  type GenerateOptions,
+} from "./pass-generator";
+import {
+  SPECTRE_SCRYPT,
+  generateSpectre,
+  type SpectreResultType,
+} from "./spectre";
+
+export const ENGINES = ["passw", "lesspass-v2", "spectre-v3"] as const;
+export type EngineId = (typeof ENGINES)[number];
+export const DEFAULT_ENGINE: EngineId = "passw";
+
+export interface EngineOptions extends GenerateOptions {
+  /** LessPass login, mixed into its salt */
+  login?: string;
+  /** Spectre user name ("full name"), mixed into its master key */
+  fullName?: string;
+  /** Spectre result type (default "long") */
+  resultType?: SpectreResultType;
+}
+
+export interface Engine {
+  id: EngineId;
+  name: string;
+  description: string;
+  /** accepted password lengths, or null when the engine picks the length */
+  lengthRange: readonly [number, number] | null;
+  /** the slow step, used for progress and crack-time estimates */
+  kdf(options: EngineOptions): KdfOptions;
+  generate(
+    master: string,
+    number: number,
+    options: EngineOptions
+  ): Promise<string>;
+}
+
+export const ENGINE_REGISTRY: Record<EngineId, Engine> = {
+  passw: {
+    id: "passw",
+    name: "passw",
+    description: "This app's own algorithm (versions v1–v3)",
+    lengthRange: [8, 120],
+    kdf: resolveKdf,
+    generate: generatePassword,
+  },
+  "lesspass-v2": {
+    id: "lesspass-v2",
+    name: "LessPass v2",
+    description:
+      "Site, login and counter as in LessPass; uses the policy's enabled classes",
+    lengthRange: [LESSPASS_MIN_LENGTH, LESSPASS_MAX_LENGTH],
+    kdf: () => ({ algorithm: "pbkdf2", iterations: LESSPASS_ITERATIONS }),
+    generate: (master, number, options) =>
+      generateLessPass(master, {
+        site: options.context ?? "",
+        login: options.login ?? "",
+        counter: number,
+        length: options.length ?? 16,
+        rules: lessPassRulesFromPolicy(options.policy),
+      }),
+  },
+  "spectre-v3": {
+    id: "spectre-v3",
+    name: "Spectre v3",
+    description:
+      "Spectre / Master Password; needs the full name and a result type",
+    lengthRange: null,
+    kdf: () => ({ algorithm: "scrypt", ...SPECTRE_SCRYPT }),
+    generate: (master, number, options) =>
+      generateSpectre(master, {
+        fullName: options.fullName ?? "",
+        siteName: options.context ?? "",
+        counter: number,
+        resultType: options.resultType,
+        onProgress: options.onProgress,
+      }),
+  },
+};
+
+export function getEngine(id: string): Engine {
+  if (!ENGINES.includes(id as EngineId))
+    throw new Error(`unknown engine: ${id}`);
+  return ENGINE_REGISTRY[id as EngineId];
+}
+
+export async function generateWithEngine(
+  engine: EngineId,
+  masterPhrase: string,
+  number: number,
+  options: EngineOptions = {}
+): Promise<string> {
+  return getEngine(engine).generate(masterPhrase, number, options);
+}
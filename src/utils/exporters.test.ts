@@ -0,0 +1,118 @@
+import { createDecipheriv, pbkdf2Sync } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  decryptCommand,
+  encryptExport,
+  exportFileName,
+  serializeExport,
+  type ExportEntry,
+} from "./exporters";
+import { parseCsv } from "./importers";
+
+const ENTRIES: ExportEntry[] = [
+  {
+    name: 'Shop "A", & co',
+    context: "shop.example",
+    username: "me@example.com",
+    password: `p<a>ss"w,o'rd`,
+    notes: "line one\nline two",
+  },
+  { name: "Work VPN", context: "Work VPN", password: "plain" },
+];
+
+describe("serializeExport", () => {
+  it("quotes CSV fields that need it", () => {
+    const csv = serializeExport(ENTRIES, "csv");
+    expect(csv.split("\r\n")[0]).toBe("name,url,username,password,notes");
+    expect(csv.endsWith("\r\n")).toBe(true);
+    expect(parseCsv(csv)).toEqual([
+      ["name", "url", "username", "password", "notes"],
+      [
+        'Shop "A", & co',
+        "https://shop.example",
+        "me@example.com",
+        `p<a>ss"w,o'rd`,
+        "line one\nline two",
+      ],
+      ["Work VPN", "Work VPN", "", "plain", ""],
+    ]);
+  });
+
+  it("escapes XML and protects the password", () => {
+    const xml = serializeExport(ENTRIES, "keepass-xml");
+    expect(xml).toContain("<Value>Shop &quot;A&quot;, &amp; co</Value>");
+    expect(xml).toContain(
+      '<Key>Password</Key><Value ProtectInMemory="True">p&lt;a&gt;ss&quot;w,o&apos;rd</Value>'
+    );
+    expect(xml).toContain("<Key>URL</Key><Value></Value>");
+    expect(xml).not.toMatch(/<a>|"w,/);
+  });
+
+  it("writes Bitwarden logins with a URI only for host names", () => {
+    const { encrypted, items } = JSON.parse(
+      serializeExport(ENTRIES, "bitwarden-json")
+    );
+    expect(encrypted).toBe(false);
+    expect(items[0].login).toEqual({
+      uris: [{ match: null, uri: "https://shop.example" }],
+      username: "me@example.com",
+      password: `p<a>ss"w,o'rd`,
+      totp: null,
+    });
+    expect(items[1].login.uris).toEqual([]);
+    expect(items[1].login.username).toBeNull();
+  });
+});
+
+describe("exportFileName", () => {
+  it("dates the file and marks encrypted ones", () => {
+    const date = new Date("2024-05-31T12:00:00Z");
+    expect(exportFileName("csv", false, date)).toBe(
+      "passw-export-2024-05-31.csv"
+    );
+    expect(exportFileName("keepass-xml", true, date)).toBe(
+      "passw-export-2024-05-31.xml.enc"
+    );
+    expect(decryptCommand("passw-export-2024-05-31.xml.enc")).toBe(
+      "openssl enc -d -aes-256-cbc -pbkdf2 -iter 600000 -md sha256 -in passw-export-2024-05-31.xml.enc -out passw-export-2024-05-31.xml"
+    );
+  });
+});
+
+describe("encryptExport", () => {
+  // What `openssl enc -d -aes-256-cbc -pbkdf2 -md sha256` does with the file
+  function opensslDecrypt(file: Uint8Array, password: string, iter: number) {
+    const bytes = Buffer.from(file);
+    expect(bytes.subarray(0, 8).toString("latin1")).toBe("Salted__");
+    const salt = bytes.subarray(8, 16);
+    const keyIv = pbkdf2Sync(password, salt, iter, 48, "sha256");
+    const decipher = createDecipheriv(
+      "aes-256-cbc",
+      keyIv.subarray(0, 32),
+      keyIv.subarray(32)
+    );
+    return Buffer.concat([
+      decipher.update(bytes.subarray(16)),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  it("writes the OpenSSL Salted__ format", async () => {
+    const text = serializeExport(ENTRIES, "csv") + "é 🔑";
+    const file = await encryptExport(text, "one-off pässword", 1000);
+    expect(file.length % 16).toBe(0);
+    expect(opensslDecrypt(file, "one-off pässword", 1000)).toBe(text);
+  });
+
+  it("salts every file", async () => {
+    const a = await encryptExport("same", "pw", 1000);
+    const b = await encryptExport("same", "pw", 1000);
+    expect(Buffer.from(a).equals(Buffer.from(b))).toBe(false);
+  });
+
+  it("needs a password", async () => {
+    await expect(encryptExport("text", "")).rejects.toThrow(
+      "Enter a password for the export"
+    );
+  });
+});
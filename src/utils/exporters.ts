@@ -0,0 +1,192 @@
+/**
+ * Export generated passwords for other password managers
+ * - Bitwarden (JSON), KeePass 2 (XML) and a generic CSV with the columns
+ *   name, url, username, password and notes
+ * - Unlike profiles.json these files hold every password in plain text, so
+ *   `encryptExport` can wrap one with a one-off password
+ * - Encrypted files use the OpenSSL `enc` format (AES-256-CBC, key and IV
+ *   from PBKDF2-SHA256), so they open without passw:
+ *   `openssl enc -d -aes-256-cbc -pbkdf2 -iter 600000 -md sha256 -in <file>`
+ */
+
+import { concatBytes, enc, getSubtle, pbkdf2Sha256 } from "./crypto";
+
+export const EXPORT_FORMATS = ["bitwarden-json", "keepass-xml", "csv"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  "bitwarden-json": "Bitwarden (JSON)",
+  "keepass-xml": "KeePass 2 (XML)",
+  csv: "Generic CSV",
+};
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  "bitwarden-json": "json",
+  "keepass-xml": "xml",
+  csv: "csv",
+};
+
+/** PBKDF2 rounds of encrypted exports; the openssl command must repeat it. */
+export const EXPORT_ITERATIONS = 600_000;
+
+export interface ExportEntry {
+  name: string;
+  context: string;
+  username?: string;
+  password: string;
+  notes?: string;
+}
+
+// ---------- Helpers ----------
+/** A login URL for contexts that look like host names, else "". */
+function urlFor(context: string): string {
+  return /^[^\s/]+\.[^\s/.]+$/.test(context) ? `https://${context}` : "";
+}
+
+function encodeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function csvField(s: string): string {
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function randomBytes(n: number): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(n));
+}
+
+function base64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// ---------- Formats ----------
+function exportBitwardenJson(entries: ExportEntry[]): string {
+  const items = entries.map((e) => ({
+    type: 1,
+    reprompt: 0,
+    name: e.name,
+    notes: e.notes || null,
+    favorite: false,
+    login: {
+      uris: urlFor(e.context) ? [{ match: null, uri: urlFor(e.context) }] : [],
+      username: e.username || null,
+      password: e.password,
+      totp: null,
+    },
+  }));
+  return JSON.stringify({ encrypted: false, folders: [], items }, null, 2);
+}
+
+function exportKeePassXml(entries: ExportEntry[]): string {
+  const field = (key: string, value = "", protect = false) =>
+    `        <String><Key>${key}</Key><Value${
+      protect ? ' ProtectInMemory="True"' : ""
+    }>${encodeXml(value)}</Value></String>`;
+  const body = entries.map((e) =>
+    [
+      "      <Entry>",
+      `        <UUID>${base64(randomBytes(16))}</UUID>`,
+      field("Title", e.name),
+      field("URL", urlFor(e.context)),
+      field("UserName", e.username),
+      field("Password", e.password, true),
+      field("Notes", e.notes),
+      "      </Entry>",
+    ].join("\n")
+  );
+  return [
+    '<?xml version="1.0" encoding="utf-8" standalone="yes"?>',
+    "<KeePassFile>",
+    "  <Root>",
+    "    <Group>",
+    `      <UUID>${base64(randomBytes(16))}</UUID>`,
+    "      <Name>passw</Name>",
+    ...body,
+    "    </Group>",
+    "  </Root>",
+    "</KeePassFile>",
+    "",
+  ].join("\n");
+}
+
+function exportCsv(entries: ExportEntry[]): string {
+  const rows = [
+    ["name", "url", "username", "password", "notes"],
+    ...entries.map((e) => [
+      e.name,
+      urlFor(e.context) || e.context,
+      e.username ?? "",
+      e.password,
+      e.notes ?? "",
+    ]),
+  ];
+  return rows.map((r) => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function serializeExport(
+  entries: ExportEntry[],
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "bitwarden-json":
+      return exportBitwardenJson(entries);
+    case "keepass-xml":
+      return exportKeePassXml(entries);
+    case "csv":
+      return exportCsv(entries);
+  }
+}
+
+/** e.g. "passw-export-2024-05-31.csv", plus ".enc" when encrypted. */
+export function exportFileName(
+  format: ExportFormat,
+  encrypted: boolean,
+  date = new Date()
+): string {
+  const day = date.toISOString().slice(0, 10);
+  return `passw-export-${day}.${EXPORT_EXTENSIONS[format]}${
+    encrypted ? ".enc" : ""
+  }`;
+}
+
+// ---------- Encryption ----------
+/**
+ * Encrypt an export with a one-off password, as
+ * `openssl enc -aes-256-cbc -pbkdf2 -iter 600000 -md sha256` would:
+ * "Salted__", an 8-byte salt, then the ciphertext.
+ */
+export async function encryptExport(
+  text: string,
+  password: string,
+  iterations = EXPORT_ITERATIONS
+): Promise<Uint8Array> {
+  if (!password) throw new Error("Enter a password for the export");
+  const salt = randomBytes(8);
+  // OpenSSL takes the password bytes as typed, without normalization
+  const keyIv = await pbkdf2Sha256(enc.encode(password), salt, iterations, 384);
+  const subtle = await getSubtle();
+  const key = await subtle.importKey(
+    "raw",
+    keyIv.slice(0, 32),
+    { name: "AES-CBC" },
+    false,
+    ["encrypt"]
+  );
+  const ciphertext = await subtle.encrypt(
+    { name: "AES-CBC", iv: keyIv.slice(32) },
+    key,
+    enc.encode(text)
+  );
+  return concatBytes(enc.encode("Salted__"), salt, new Uint8Array(ciphertext));
+}
+
+/** The command that decrypts an export made by `encryptExport`. */
+export function decryptCommand(fileName: string): string {
+  const out = fileName.replace(/\.enc$/, "");
+  return `openssl enc -d -aes-256-cbc -pbkdf2 -iter ${EXPORT_ITERATIONS} -md sha256 -in ${fileName} -out ${out}`;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { fingerprintFromValue, masterFingerprint } from "./fingerprint";
+
+describe("fingerprintFromValue", () => {
+  it("mirrors the identicon left to right", () => {
+    for (const value of [0, 1, 0x5a5a5, 0xfffff]) {
+      const { cells } = fingerprintFromValue(value);
+      expect(cells).toHaveLength(25);
+      for (let row = 0; row < 5; row++) {
+        const r = cells.slice(row * 5, row * 5 + 5);
+        expect(r).toEqual([...r].reverse());
+      }
+    }
+  });
+
+  it("reads the cells from the low 15 bits", () => {
+    expect(fingerprintFromValue(0).cells.every((c) => !c)).toBe(true);
+    expect(fingerprintFromValue(0x7fff).cells.every(Boolean)).toBe(true);
+    // Bit 4 is row 1, column 1 (and its mirror, column 3)
+    const { cells } = fingerprintFromValue(1 << 4);
+    expect(cells.flatMap((c, i) => (c ? [i] : []))).toEqual([6, 8]);
+  });
+
+  it("always names a word pair and a hue", () => {
+    for (const value of [0, 0x12345, 0xfffff]) {
+      const { words, hue } = fingerprintFromValue(value);
+      expect(words.every((w) => /^[a-z]+$/.test(w))).toBe(true);
+      expect(hue).toBeGreaterThanOrEqual(0);
+      expect(hue).toBeLessThan(360);
+    }
+  });
+});
+
+describe("masterFingerprint", () => {
+  it("is stable for a phrase", async () => {
+    const a = await masterFingerprint("correct horse battery staple");
+    expect(a.value).toBeLessThan(2 ** 20);
+    expect(await masterFingerprint("correct horse battery staple")).toEqual(a);
+    // Recorded from the reference build: a change would make every user's
+    // fingerprint look wrong
+    expect(a.value).toBe(281810);
+  });
+
+  it("catches a typo", async () => {
+    const a = await masterFingerprint("correct horse battery staple");
+    const b = await masterFingerprint("correct horse battery stapel");
+    expect(b.value).not.toBe(a.value);
+  });
+
+  it("ignores Unicode normalization differences", async () => {
+    const composed = await masterFingerprint("caf\u00e9");
+    const decomposed = await masterFingerprint("cafe\u0301");
+    expect(decomposed).toEqual(composed);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Visual fingerprint of the master phrase, to catch typos while typing
+ * - PBKDF2-SHA256 under its own domain tag, unrelated to password salts
+ * - Only 20 bits are kept: enough to notice a typo (1 in ~1M collision),
+ *   far too few to confirm a guessed phrase offline
+ * - Identicon and word pair are both views of the same 20 bits
+ */
+
+import { enc, normText, pbkdf2Sha256, sha256 } from "./crypto";
+
+const FINGERPRINT_TAG = "passw-fingerprint-v1";
+const FINGERPRINT_ITERATIONS = 20_000;
+const FINGERPRINT_BITS = 20;
+
+const ADJECTIVES = `
+amber brave calm dusty eager fancy gentle happy icy jolly keen lucky
+mellow noble odd proud quick rusty shy tidy upbeat vivid witty young
+zesty bold crisp dreamy early fuzzy golden hollow ivory jumpy kind
+lofty misty neat olive plain quiet royal silver tiny urban velvet wild
+yellow azure bright cosmic daring electric frosty grumpy humble indigo
+jade lunar magic nimble orange polar rapid
+`
+  .trim()
+  .split(/\s+/);
+
+const NOUNS = `
+otter falcon badger walrus panda heron lynx moose gecko koala lemur
+raven bison camel dingo eagle ferret gopher hyena ibis jackal kiwi
+llama marmot newt ocelot puffin quail robin salmon tapir urchin viper
+wombat yak zebra beaver cobra dolphin finch goose hare iguana jaguar
+kestrel lobster mantis narwhal owl pelican rhino seal tiger turtle
+vulture weasel alpaca crane donkey gibbon hamster magpie parrot sloth
+`
+  .trim()
+  .split(/\s+/);
+
+export interface Fingerprint {
+  /** the 20-bit fingerprint value */
+  value: number;
+  /** 5x5 identicon cells, row-major, mirrored left/right */
+  cells: boolean[];
+  /** identicon hue in degrees */
+  hue: number;
+  /** adjective + animal, e.g. ["amber", "otter"] */
+  words: [string, string];
+}
+
+let saltPromise: Promise<Uint8Array> | null = null;
+
+function fingerprintSalt(): Promise<Uint8Array> {
+  saltPromise ??= sha256(enc.encode(FINGERPRINT_TAG)).then((h) =>
+    h.slice(0, 16)
+  );
+  return saltPromise;
+}
+
+/** Split a 20-bit value into identicon cells, hue and words. */
+export function fingerprintFromValue(value: number): Fingerprint {
+  const cells: boolean[] = [];
+  // 15 bits fill columns 0–2; columns 3–4 mirror columns 1–0
+  for (let row = 0; row < 5; row++) {
+    const left = [0, 1, 2].map(
+      (col) => ((value >>> (row * 3 + col)) & 1) === 1
+    );
+    cells.push(left[0], left[1], left[2], left[1], left[0]);
+  }
+  return {
+    value,
+    cells,
+    hue: ((value >>> 15) & 0x1f) * (360 / 32),
+    words: [ADJECTIVES[(value >>> 8) & 0x3f], NOUNS[(value >>> 14) & 0x3f]],
+  };
+}
+
+export async function masterFingerprint(master: string): Promise<Fingerprint> {
+  const bits = await pbkdf2Sha256(
+    enc.encode(normText(master)),
+    await fingerprintSalt(),
+    FINGERPRINT_ITERATIONS,
+    32
+  );
+  const full =
+    ((bits[0] << 24) | (bits[1] << 16) | (bits[2] << 8) | bits[3]) >>> 0;
+  return fingerprintFromValue(full >>> (32 - FINGERPRINT_BITS));
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyScore, fuzzySearch } from "./fuzzy";
+
+describe("fuzzyScore", () => {
+  it("needs every query character in order", () => {
+    expect(fuzzyScore("gml", "Gmail")).not.toBeNull();
+    expect(fuzzyScore("lmg", "Gmail")).toBeNull();
+    expect(fuzzyScore("gmx", "Gmail")).toBeNull();
+    expect(fuzzyScore("", "Gmail")).toBe(0);
+  });
+
+  it("ignores case", () => {
+    expect(fuzzyScore("GMAIL", "gmail")).toBe(fuzzyScore("gmail", "Gmail"));
+  });
+
+  it("prefers word starts and adjacent characters", () => {
+    expect(fuzzyScore("gm", "Gmail")!).toBeGreaterThan(
+      fuzzyScore("gm", "Big Machine")!
+    );
+    expect(fuzzyScore("bm", "Big Machine")!).toBeGreaterThan(
+      fuzzyScore("bm", "Bamboo")!
+    );
+  });
+});
+
+describe("fuzzySearch", () => {
+  const sites = [
+    { name: "Big Machine", context: "bigmachine.example" },
+    { name: "Gmail", context: "mail.google.com" },
+    { name: "GitHub", context: "github.com" },
+    { name: "Work VPN", context: "vpn.work.example" },
+  ];
+  const names = (query: string) =>
+    fuzzySearch(sites, query, (s) => [s.name, s.context]).map((s) => s.name);
+
+  it("ranks the best match first", () => {
+    expect(names("gm")).toEqual(["Gmail", "Big Machine", "GitHub"]);
+  });
+
+  it("searches every field", () => {
+    expect(names("google")).toEqual(["Gmail"]);
+  });
+
+  it("keeps the original order for an empty query and ties", () => {
+    expect(names("  ")).toEqual(sites.map((s) => s.name));
+    expect(names("zz")).toEqual([]);
+  });
+});
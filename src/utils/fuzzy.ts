@@ -0,0 +1,57 @@
+/**
+ * Fuzzy search for short lists (site names, contexts, logins)
+ * - Every query character must appear in order, case-insensitively
+ * - Matches at the start of a word and runs of adjacent characters score
+ *   higher, so "gm" ranks "Gmail" above "Big Machine"
+ */
+
+const WORD_START = 8;
+const ADJACENT = 4;
+const SUBSTRING = 16;
+
+function isWordStart(text: string, i: number): boolean {
+  return i === 0 || !/[\p{L}\p{N}]/u.test(text[i - 1]);
+}
+
+/** Score of `query` against `text`, or null when it does not match. */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+  let score = t.includes(q) ? SUBSTRING : 0;
+  let last = -1;
+  for (const ch of q) {
+    const i = t.indexOf(ch, last + 1);
+    if (i === -1) return null;
+    score += 1;
+    if (isWordStart(t, i)) score += WORD_START;
+    if (i === last + 1 && last !== -1) score += ADJACENT;
+    // Unmatched characters in between cost a little
+    score -= (i - last - 1) * 0.1;
+    last = i;
+  }
+  return score;
+}
+
+/**
+ * Items matching `query` in any of their fields, best match first; ties
+ * and an empty query keep the original order.
+ */
+export function fuzzySearch<T>(
+  items: readonly T[],
+  query: string,
+  fields: (item: T) => string[]
+): T[] {
+  const q = query.trim();
+  if (!q) return [...items];
+  return items
+    .map((item, index) => {
+      const scores = fields(item)
+        .map((f) => fuzzyScore(q, f))
+        .filter((s): s is number => s !== null);
+      return { item, index, score: scores.length ? Math.max(...scores) : null };
+    })
+    .filter((m) => m.score !== null)
+    .sort((a, b) => b.score! - a.score! || a.index - b.index)
+    .map((m) => m.item);
+}
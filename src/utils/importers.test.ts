@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import { createProfile } from "./profiles";
+import {
+  detectFormat,
+  markDuplicates,
+  parseCsv,
+  parseImport,
+  type ImportRow,
+} from "./importers";
+
+const profiles = (rows: ImportRow[]) => rows.map((r) => r.profile);
+const leaksPassword = (rows: ImportRow[]) =>
+  JSON.stringify(rows).includes("hunter2");
+
+describe("parseCsv", () => {
+  it("reads quoted fields, escaped quotes and both line endings", () => {
+    expect(
+      parseCsv('\uFEFFa,"b, c","say ""hi"""\r\n"multi\nline",,x\n\n')
+    ).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["multi\nline", "", "x"],
+    ]);
+  });
+
+  it("rejects an unterminated quote", () => {
+    expect(() => parseCsv('a,"b\n')).toThrow("CSV ends inside a quoted field");
+  });
+});
+
+describe("detectFormat", () => {
+  it.each([
+    ["export.json", '{"encrypted": false, "items": []}', "bitwarden-json"],
+    [
+      "export.csv",
+      "folder,favorite,type,name,notes,fields,login_uri\n",
+      "bitwarden-csv",
+    ],
+    ["export.xml", '<?xml version="1.0"?><KeePassFile>', "keepass-xml"],
+    ["1p.csv", "Title,Website,Username,Password,Notes\n", "1password-csv"],
+    ["lesspass.json", '[{"site": "example.com"}]', "lesspass-json"],
+    ["notes.txt", "just some text", null],
+  ])("%s", (name, text, format) => {
+    expect(detectFormat(name, text)).toBe(format);
+  });
+});
+
+describe("parseImport", () => {
+  it("reads Bitwarden JSON logins and skips other items", () => {
+    const rows = parseImport(
+      JSON.stringify({
+        encrypted: false,
+        items: [
+          {
+            type: 1,
+            name: "Example",
+            notes: "work",
+            login: {
+              uris: [{ uri: "https://www.example.com/login" }],
+              username: "me",
+              password: "hunter2",
+            },
+          },
+          { type: 2, name: "A secure note" },
+        ],
+      }),
+      "bitwarden-json"
+    );
+    expect(profiles(rows)[0]).toMatchObject({
+      name: "Example",
+      context: "example.com",
+      username: "me",
+      notes: "work",
+      counter: 1,
+    });
+    expect(rows[1].error).toMatch(/not a login item/);
+    expect(leaksPassword(rows)).toBe(false);
+  });
+
+  it("reduces site URLs to their registrable domain", () => {
+    const rows = parseImport(
+      "Title,Website\nGoogle,https://accounts.google.com/signin\nBBC,www.bbc.co.uk\n",
+      "1password-csv"
+    );
+    expect(profiles(rows).map((p) => p?.context)).toEqual([
+      "google.com",
+      "bbc.co.uk",
+    ]);
+  });
+
+  it("refuses encrypted Bitwarden exports", () => {
+    expect(() =>
+      parseImport('{"encrypted": true, "items": []}', "bitwarden-json")
+    ).toThrow(/Encrypted Bitwarden exports are not supported/);
+  });
+
+  it("reads Bitwarden and 1Password CSV by their header names", () => {
+    const bitwarden = parseImport(
+      "name,login_uri,login_username,login_password\r\nGitHub,https://github.com/login,octocat,hunter2\r\n",
+      "bitwarden-csv"
+    );
+    const onePassword = parseImport(
+      "Title,Website,Username,Password\nGitHub,github.com,octocat,hunter2\n",
+      "1password-csv"
+    );
+    for (const rows of [bitwarden, onePassword]) {
+      expect(profiles(rows)).toMatchObject([
+        { name: "GitHub", context: "github.com", username: "octocat" },
+      ]);
+      expect(leaksPassword(rows)).toBe(false);
+    }
+  });
+
+  it("reports rows without a site by line", () => {
+    const rows = parseImport("Title,Website\nNo site,\n", "1password-csv");
+    expect(rows).toEqual([
+      { source: "line 2", error: "no URL or site to use as context" },
+    ]);
+  });
+
+  it("reads KeePass entries, not their history", () => {
+    const rows = parseImport(
+      `<KeePassFile><Root><Group>
+        <Entry>
+          <String><Key>Title</Key><Value>Tom &amp; Jerry</Value></String>
+          <String><Key>URL</Key><Value>https://example.org/</Value></String>
+          <String><Key>UserName</Key><Value>tom</Value></String>
+          <String><Key>Password</Key><Value ProtectInMemory="True">hunter2</Value></String>
+          <String><Key>Notes</Key><Value/></String>
+          <History><Entry>
+            <String><Key>Title</Key><Value>Old title</Value></String>
+          </Entry></History>
+        </Entry>
+      </Group></Root></KeePassFile>`,
+      "keepass-xml"
+    );
+    expect(profiles(rows)).toMatchObject([
+      { name: "Tom & Jerry", context: "example.org", username: "tom" },
+    ]);
+    expect(leaksPassword(rows)).toBe(false);
+  });
+
+  it("keeps LessPass sites as typed, on the LessPass engine", () => {
+    const rows = parseImport(
+      JSON.stringify([{ site: "www.Example.com", login: "Me" }]),
+      "lesspass-json"
+    );
+    expect(profiles(rows)[0]).toMatchObject({
+      engine: "lesspass-v2",
+      context: "www.Example.com",
+      username: "Me",
+    });
+  });
+
+  it("keeps LessPass length, counter and character rules", () => {
+    const rows = parseImport(
+      JSON.stringify([
+        {
+          site: "example.com",
+          login: "me",
+          length: 12,
+          counter: 3,
+          symbols: false,
+        },
+      ]),
+      "lesspass-json"
+    );
+    expect(profiles(rows)[0]).toMatchObject({
+      context: "example.com",
+      username: "me",
+      length: 12,
+      counter: 3,
+      policy: { max: { symbol: 0 } },
+    });
+  });
+});
+
+describe("markDuplicates", () => {
+  it("flags sites already saved or earlier in the import", () => {
+    const saved = createProfile({
+      name: "Example",
+      context: "example.com",
+      username: "me",
+      counter: 1,
+      length: 20,
+      algorithmVersion: "v1",
+    });
+    const rows = parseImport(
+      "Title,Website,Username\nA,example.com,ME\nB,github.com,x\nC,github.com,x\nD,github.com,y\n",
+      "1password-csv"
+    );
+    expect(markDuplicates(rows, [saved]).map((r) => r.duplicateOf)).toEqual([
+      saved.id,
+      undefined,
+      "line 3",
+      undefined,
+    ]);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Import site inventories from other password managers as passw profiles
+ * - Bitwarden (JSON, CSV), KeePass 2 (XML), 1Password (CSV), LessPass (JSON)
+ * - Stored passwords are never read into profiles; only site, username,
+ *   notes and (for LessPass) length/counter/character rules are kept
+ * - Site URLs become registrable domains ("accounts.google.com" → "google.com");
+ *   LessPass profiles keep the site as typed and use the LessPass engine,
+ *   so their passwords carry over
+ * - Every input row yields an ImportRow with either a profile or an error
+ */
+
+import type { CharacterPolicy, CharClass } from "./pass-generator";
+import type { SiteProfile, SiteProfileInput } from "./profiles";
+import { validateProfile } from "./profiles";
+import { normalizeContext } from "./site-context";
+
+export const IMPORT_FORMATS = [
+  "bitwarden-json",
+  "bitwarden-csv",
+  "keepass-xml",
+  "1password-csv",
+  "lesspass-json",
+] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  "bitwarden-json": "Bitwarden (JSON)",
+  "bitwarden-csv": "Bitwarden (CSV)",
+  "keepass-xml": "KeePass 2 (XML)",
+  "1password-csv": "1Password (CSV)",
+  "lesspass-json": "LessPass profiles (JSON)",
+};
+
+export interface ImportRow {
+  /** where the row came from, e.g. "line 4" or "item 2" */
+  source: string;
+  profile?: SiteProfileInput;
+  error?: string;
+  /** id of an existing profile, or source of an earlier row, with the same site */
+  duplicateOf?: string;
+}
+
+const DEFAULT_LENGTH = 20;
+
+// ---------- Helpers ----------
+/** Site context from a URL or bare host name: its registrable domain. */
+export function contextFromUrl(url: string): string {
+  return normalizeContext(url);
+}
+
+function toProfile(
+  fields: {
+    name?: string;
+    url?: string;
+    username?: string;
+    notes?: string;
+  },
+  extra: Partial<SiteProfileInput> = {}
+): SiteProfileInput {
+  const context = contextFromUrl(fields.url ?? "");
+  const profile: SiteProfileInput = {
+    name: (fields.name ?? "").trim() || context,
+    context,
+    counter: 1,
+    length: DEFAULT_LENGTH,
+    algorithmVersion: "v1",
+    username: fields.username?.trim() || undefined,
+    notes: fields.notes?.trim() || undefined,
+    ...extra,
+  };
+  const errors = validateProfile(profile);
+  if (!profile.context) errors.push("no URL or site to use as context");
+  if (errors.length) throw new Error(errors.join("; "));
+  return profile;
+}
+
+function rowFrom(source: string, build: () => SiteProfileInput): ImportRow {
+  try {
+    return { source, profile: build() };
+  } catch (e: any) {
+    return { source, error: e?.message ?? String(e) };
+  }
+}
+
+/** RFC 4180 CSV: quoted fields, escaped quotes, CRLF or LF line endings. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new Error("CSV ends inside a quoted field");
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function csvRecords(
+  text: string,
+  columns: Record<"name" | "url" | "username" | "notes", string[]>
+): ImportRow[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const names = header.map((h) => h.trim().toLowerCase());
+  const col = (aliases: string[]) =>
+    names.findIndex((n) => aliases.includes(n));
+  const idx = {
+    name: col(columns.name),
+    url: col(columns.url),
+    username: col(columns.username),
+    notes: col(columns.notes),
+  };
+  if (idx.name < 0 && idx.url < 0) {
+    throw new Error("CSV header has no name/title or URL column");
+  }
+  const get = (r: string[], i: number) => (i >= 0 ? r[i] ?? "" : "");
+  // Data rows start on line 2 of the file
+  return rows.map((r, i) =>
+    rowFrom(`line ${i + 2}`, () =>
+      toProfile({
+        name: get(r, idx.name),
+        url: get(r, idx.url).split(/[\s,]+/)[0],
+        username: get(r, idx.username),
+        notes: get(r, idx.notes),
+      })
+    )
+  );
+}
+
+// ---------- Bitwarden ----------
+function importBitwardenJson(text: string): ImportRow[] {
+  const data = JSON.parse(text);
+  if (data?.encrypted) {
+    throw new Error(
+      "Encrypted Bitwarden exports are not supported; export as unencrypted JSON"
+    );
+  }
+  const items: any[] = Array.isArray(data?.items) ? data.items : [];
+  return items.map((item, i) =>
+    rowFrom(`item ${i + 1}`, () => {
+      if (item?.type !== 1 || !item.login) {
+        throw new Error(`"${item?.name ?? "?"}" is not a login item`);
+      }
+      return toProfile({
+        name: item.name,
+        url: item.login.uris?.[0]?.uri ?? "",
+        username: item.login.username ?? "",
+        notes: item.notes ?? "",
+      });
+    })
+  );
+}
+
+function importBitwardenCsv(text: string): ImportRow[] {
+  return csvRecords(text, {
+    name: ["name"],
+    url: ["login_uri"],
+    username: ["login_username"],
+    notes: ["notes"],
+  });
+}
+
+// ---------- 1Password ----------
+function importOnePasswordCsv(text: string): ImportRow[] {
+  return csvRecords(text, {
+    name: ["title", "name"],
+    url: ["url", "website", "urls"],
+    username: ["username", "login"],
+    notes: ["notes", "notesplain"],
+  });
+}
+
+// ---------- KeePass ----------
+function decodeXml(s: string): string {
+  return s
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, h) =>
+      String.fromCodePoint(parseInt(h, 16))
+    )
+    .replace(/&#(\d+);/g, (_, d) => String.fromCodePoint(Number(d)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function importKeePassXml(text: string): ImportRow[] {
+  if (!/<KeePassFile[\s>]/.test(text)) {
+    throw new Error("Not a KeePass 2 XML export (missing <KeePassFile>)");
+  }
+  // Old revisions live in <History>; they are not separate sites
+  const body = text.replace(/<History>[\s\S]*?<\/History>/g, "");
+  const entries = body.match(/<Entry>[\s\S]*?<\/Entry>/g) ?? [];
+  return entries.map((entry, i) =>
+    rowFrom(`entry ${i + 1}`, () => {
+      const fields: Record<string, string> = {};
+      const re =
+        /<String>\s*<Key>([\s\S]*?)<\/Key>\s*<Value[^>]*?(?:\/>|>([\s\S]*?)<\/Value>)\s*<\/String>/g;
+      for (const m of entry.matchAll(re)) {
+        const key = decodeXml(m[1]);
+        if (key !== "Password") fields[key] = decodeXml(m[2] ?? "");
+      }
+      return toProfile({
+        name: fields.Title,
+        url: fields.URL,
+        username: fields.UserName,
+        notes: fields.Notes,
+      });
+    })
+  );
+}
+
+// ---------- LessPass ----------
+const LESSPASS_CLASSES: [string, CharClass][] = [
+  ["lowercase", "lower"],
+  ["uppercase", "upper"],
+  ["numbers", "digit"],
+  ["symbols", "symbol"],
+];
+
+function importLessPassJson(text: string): ImportRow[] {
+  const data = JSON.parse(text);
+  const list: any[] = Array.isArray(data)
+    ? data
+    : data?.results ?? data?.profiles ?? [];
+  return list.map((p, i) =>
+    rowFrom(`profile ${i + 1}`, () => {
+      const enabled = LESSPASS_CLASSES.filter(([k]) => p?.[k] !== false).map(
+        ([, c]) => c
+      );
+      const policy: CharacterPolicy = {
+        required: enabled,
+        max: Object.fromEntries(
+          LESSPASS_CLASSES.filter(([, c]) => !enabled.includes(c)).map(
+            ([, c]) => [c, 0]
+          )
+        ),
+      };
+      return toProfile(
+        { name: p?.site, url: p?.site, username: p?.login },
+        {
+          // The LessPass engine salts with the site and login exactly as typed
+          engine: "lesspass-v2",
+          context: String(p?.site ?? ""),
+          username: p?.login ? String(p.login) : undefined,
+          counter: Number(p?.counter ?? 1),
+          length: Number(p?.length ?? 16),
+          policy: enabled.length === 4 ? undefined : policy,
+        }
+      );
+    })
+  );
+}
+
+// ---------- Public API ----------
+/** Guess the export format from the file name and contents. */
+export function detectFormat(
+  fileName: string,
+  text: string
+): ImportFormat | null {
+  const head = text.trimStart().slice(0, 2000);
+  if (head.startsWith("<"))
+    return /<KeePassFile/.test(head) ? "keepass-xml" : null;
+  if (head.startsWith("{") || head.startsWith("[")) {
+    if (/"items"\s*:/.test(head) || /"encrypted"\s*:/.test(head))
+      return "bitwarden-json";
+    if (/"site"\s*:/.test(head) || /"results"\s*:/.test(head))
+      return "lesspass-json";
+    return null;
+  }
+  const firstLine = head.split(/\r?\n/, 1)[0].toLowerCase();
+  if (firstLine.includes("login_uri")) return "bitwarden-csv";
+  if (/(^|,)"?(title|url|website)"?(,|$)/.test(firstLine))
+    return "1password-csv";
+  if (fileName.toLowerCase().endsWith(".xml")) return "keepass-xml";
+  return null;
+}
+
+export function parseImport(text: string, format: ImportFormat): ImportRow[] {
+  switch (format) {
+    case "bitwarden-json":
+      return importBitwardenJson(text);
+    case "bitwarden-csv":
+      return importBitwardenCsv(text);
+    case "keepass-xml":
+      return importKeePassXml(text);
+    case "1password-csv":
+      return importOnePasswordCsv(text);
+    case "lesspass-json":
+      return importLessPassJson(text);
+  }
+}
+
+function siteKey(p: Pick<SiteProfileInput, "context" | "username">): string {
+  return `${p.context.toLowerCase()}|${(p.username ?? "").toLowerCase()}`;
+}
+
+/**
+ * Flag rows whose context + username already exist, either among saved
+ * profiles or earlier in the same import.
+ */
+export function markDuplicates(
+  rows: ImportRow[],
+  existing: SiteProfile[]
+): ImportRow[] {
+  const seen = new Map<string, string>();
+  for (const p of existing) seen.set(siteKey(p), p.id);
+  return rows.map((row) => {
+    if (!row.profile) return row;
+    const key = siteKey(row.profile);
+    const duplicateOf = seen.get(key);
+    if (duplicateOf) return { ...row, duplicateOf };
+    seen.set(key, row.source);
+    return row;
+  });
+}
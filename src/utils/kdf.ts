@@ -0,0 +1,700 @@
+/**
+ * Key derivation functions for the password generator
+ * - PBKDF2-SHA256 via Web Crypto (default, keeps existing passwords stable)
+ * - Argon2id (RFC 9106, v1.3) and scrypt (RFC 7914) in plain TypeScript
+ * - No npm native add-ons or WASM: runs in Browser, Tauri and Node.js >= 18
+ * - The Tauri build runs the same KDFs natively in Rust (see ./native-kdf);
+ *   this code is then the reference the native side matches
+ *
+ * The memory-hard KDFs are single-threaded; lanes are processed one after
+ * another, so `parallelism` changes the output but not the wall-clock time.
+ */
+
+import { concatBytes, enc, normText, pbkdf2Sha256 } from "./crypto";
+import { nativeDeriveKey, nativeKdfAvailable } from "./native-kdf";
+
+// ---------- Public options ----------
+export interface Pbkdf2Options {
+  algorithm: "pbkdf2";
+  /** PBKDF2 iterations (>= 100_000; default 600_000) */
+  iterations?: number;
+}
+
+export interface Argon2idOptions {
+  algorithm: "argon2id";
+  /** memory cost in KiB (>= 8 * parallelism; default 19_456 = 19 MiB) */
+  memoryKiB?: number;
+  /** number of passes over memory (>= 1; default 2) */
+  timeCost?: number;
+  /** number of lanes (1–255; default 1) */
+  parallelism?: number;
+}
+
+export interface ScryptOptions {
+  algorithm: "scrypt";
+  /** CPU/memory cost N, a power of two (default 2^17) */
+  cost?: number;
+  /** block size r (default 8) */
+  blockSize?: number;
+  /** parallelization p (default 1) */
+  parallelism?: number;
+}
+
+export type KdfOptions = Pbkdf2Options | Argon2idOptions | ScryptOptions;
+export type KdfAlgorithm = KdfOptions["algorithm"];
+/** Options with every default filled in, as sent to the native backend. */
+export type ResolvedKdfOptions =
+  | Required<Pbkdf2Options>
+  | Required<Argon2idOptions>
+  | Required<ScryptOptions>;
+
+/** Called with the completed fraction (0–1) while a memory-hard KDF runs. */
+export type KdfProgress = (fraction: number) => void;
+
+export const DEFAULT_KDF: Pbkdf2Options = {
+  algorithm: "pbkdf2",
+  iterations: 600_000,
+};
+
+function resolveKdfOptions(kdf: KdfOptions): ResolvedKdfOptions {
+  switch (kdf.algorithm) {
+    case "pbkdf2": {
+      const iterations = kdf.iterations ?? 600_000;
+      if (iterations < 100_000)
+        throw new Error("iterations must be >= 100,000");
+      return { algorithm: "pbkdf2", iterations };
+    }
+    case "argon2id":
+      return {
+        algorithm: "argon2id",
+        memoryKiB: kdf.memoryKiB ?? 19_456,
+        timeCost: kdf.timeCost ?? 2,
+        parallelism: kdf.parallelism ?? 1,
+      };
+    case "scrypt":
+      return {
+        algorithm: "scrypt",
+        cost: kdf.cost ?? 2 ** 17,
+        blockSize: kdf.blockSize ?? 8,
+        parallelism: kdf.parallelism ?? 1,
+      };
+    default:
+      throw new Error(
+        `unknown KDF algorithm: ${(kdf as { algorithm: string }).algorithm}`
+      );
+  }
+}
+
+/**
+ * Derive `bits` of key material from the master phrase.
+ * The phrase is NFKC-normalised and trimmed before use, for every algorithm.
+ * Under Tauri the native backend gets the normalised bytes and its errors
+ * are reported as such; elsewhere the TypeScript implementation below runs.
+ * `onProgress` only fires for the TypeScript Argon2id and scrypt; Web
+ * Crypto's PBKDF2 and native calls run as a single opaque step.
+ */
+export async function deriveKey(
+  master: string,
+  salt: Uint8Array,
+  bits: number,
+  kdf: KdfOptions = DEFAULT_KDF,
+  onProgress?: KdfProgress
+): Promise<Uint8Array> {
+  const password = enc.encode(normText(master));
+  return deriveKeyFromBytes(password, salt, bits, kdf, onProgress);
+}
+
+/** `deriveKey` without normalisation, for engines that hash the phrase as typed. */
+export async function deriveKeyFromBytes(
+  password: Uint8Array,
+  salt: Uint8Array,
+  bits: number,
+  kdf: KdfOptions = DEFAULT_KDF,
+  onProgress?: KdfProgress
+): Promise<Uint8Array> {
+  if (bits % 8 !== 0) throw new Error("bits must be a multiple of 8");
+  const resolved = resolveKdfOptions(kdf);
+  if (nativeKdfAvailable()) {
+    // No silent fallback: under Tauri the derivation client runs on the UI
+    // thread, where the TypeScript KDFs would freeze the window
+    try {
+      return await nativeDeriveKey(password, salt, bits, resolved);
+    } catch (e) {
+      throw new Error(
+        `Native key derivation failed: ${
+          e instanceof Error ? e.message : String(e)
+        }`
+      );
+    }
+  }
+  switch (resolved.algorithm) {
+    case "pbkdf2":
+      return pbkdf2Sha256(password, salt, resolved.iterations, bits);
+    case "argon2id":
+      return argon2id(password, salt, {
+        memoryKiB: resolved.memoryKiB,
+        timeCost: resolved.timeCost,
+        parallelism: resolved.parallelism,
+        tagLength: bits / 8,
+        onProgress,
+      });
+    case "scrypt":
+      return scrypt(password, salt, {
+        cost: resolved.cost,
+        blockSize: resolved.blockSize,
+        parallelism: resolved.parallelism,
+        keyLength: bits / 8,
+        onProgress,
+      });
+  }
+}
+
+// ---------- 64-bit helpers (values stored as lo/hi uint32 pairs) ----------
+const TWO_32 = 0x1_0000_0000;
+
+// Full 64-bit product of two uint32 values; every partial product fits in a double
+function mul32(a: number, b: number): { hi: number; lo: number } {
+  const aL = a & 0xffff;
+  const aH = a >>> 16;
+  const bL = b & 0xffff;
+  const bH = b >>> 16;
+  const mid = aH * bL + aL * bH;
+  const low = aL * bL + (mid % 0x10000) * 0x10000;
+  const hi = aH * bH + Math.floor(mid / 0x10000) + Math.floor(low / TWO_32);
+  return { hi: hi >>> 0, lo: low >>> 0 };
+}
+
+// ---------- BLAKE2b (RFC 7693) ----------
+const B2B_IV32 = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372,
+  0x5f1d36f1, 0xa54ff53a, 0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c,
+  0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const SIGMA8 = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 14, 10, 4, 8, 9, 15, 13,
+  6, 1, 12, 0, 2, 11, 7, 5, 3, 11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1,
+  9, 4, 7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8, 9, 0, 5, 7, 2, 4,
+  10, 15, 14, 1, 11, 12, 6, 8, 3, 13, 2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5,
+  15, 14, 1, 9, 12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11, 13, 11, 7,
+  14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10, 6, 15, 14, 9, 11, 3, 0, 8, 12, 2,
+  13, 7, 1, 4, 10, 5, 10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0, 0,
+  1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 14, 10, 4, 8, 9, 15, 13, 6,
+  1, 12, 0, 2, 11, 7, 5, 3,
+];
+// Offsets into the uint32 message array (two words per 64-bit word)
+const SIGMA82 = new Uint8Array(SIGMA8.map((x) => x * 2));
+
+function add64(v: Uint32Array, a: number, b: number): void {
+  const lo = v[a] + v[b];
+  let hi = v[a + 1] + v[b + 1];
+  if (lo >= TWO_32) hi++;
+  v[a] = lo;
+  v[a + 1] = hi;
+}
+
+function add64c(v: Uint32Array, a: number, bLo: number, bHi: number): void {
+  const lo = v[a] + bLo;
+  let hi = v[a + 1] + bHi;
+  if (lo >= TWO_32) hi++;
+  v[a] = lo;
+  v[a + 1] = hi;
+}
+
+function b2bG(
+  v: Uint32Array,
+  m: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  ix: number,
+  iy: number
+): void {
+  add64(v, a, b);
+  add64c(v, a, m[ix], m[ix + 1]);
+  let x0 = v[d] ^ v[a];
+  let x1 = v[d + 1] ^ v[a + 1];
+  v[d] = x1;
+  v[d + 1] = x0;
+  add64(v, c, d);
+  x0 = v[b] ^ v[c];
+  x1 = v[b + 1] ^ v[c + 1];
+  v[b] = (x0 >>> 24) ^ (x1 << 8);
+  v[b + 1] = (x1 >>> 24) ^ (x0 << 8);
+  add64(v, a, b);
+  add64c(v, a, m[iy], m[iy + 1]);
+  x0 = v[d] ^ v[a];
+  x1 = v[d + 1] ^ v[a + 1];
+  v[d] = (x0 >>> 16) ^ (x1 << 16);
+  v[d + 1] = (x1 >>> 16) ^ (x0 << 16);
+  add64(v, c, d);
+  x0 = v[b] ^ v[c];
+  x1 = v[b + 1] ^ v[c + 1];
+  v[b] = (x1 >>> 31) ^ (x0 << 1);
+  v[b + 1] = (x0 >>> 31) ^ (x1 << 1);
+}
+
+function b2bCompress(
+  h: Uint32Array,
+  block: Uint8Array,
+  counter: number,
+  last: boolean
+): void {
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  for (let i = 0; i < 16; i++) {
+    v[i] = h[i];
+    v[i + 16] = B2B_IV32[i];
+  }
+  // 128-bit byte counter; inputs here never exceed 2^53 bytes
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / TWO_32);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+  for (let i = 0; i < 32; i++) {
+    const o = i * 4;
+    m[i] =
+      block[o] |
+      (block[o + 1] << 8) |
+      (block[o + 2] << 16) |
+      (block[o + 3] << 24);
+  }
+  for (let r = 0; r < 12; r++) {
+    const s = r * 16;
+    b2bG(v, m, 0, 8, 16, 24, SIGMA82[s], SIGMA82[s + 1]);
+    b2bG(v, m, 2, 10, 18, 26, SIGMA82[s + 2], SIGMA82[s + 3]);
+    b2bG(v, m, 4, 12, 20, 28, SIGMA82[s + 4], SIGMA82[s + 5]);
+    b2bG(v, m, 6, 14, 22, 30, SIGMA82[s + 6], SIGMA82[s + 7]);
+    b2bG(v, m, 0, 10, 20, 30, SIGMA82[s + 8], SIGMA82[s + 9]);
+    b2bG(v, m, 2, 12, 22, 24, SIGMA82[s + 10], SIGMA82[s + 11]);
+    b2bG(v, m, 4, 14, 16, 26, SIGMA82[s + 12], SIGMA82[s + 13]);
+    b2bG(v, m, 6, 8, 18, 28, SIGMA82[s + 14], SIGMA82[s + 15]);
+  }
+  for (let i = 0; i < 16; i++) h[i] ^= v[i] ^ v[i + 16];
+}
+
+/** Unkeyed BLAKE2b with an output length of 1–64 bytes. */
+export function blake2b(data: Uint8Array, outLen = 64): Uint8Array {
+  if (outLen < 1 || outLen > 64) throw new Error("outLen must be 1..64");
+  const h = new Uint32Array(B2B_IV32);
+  h[0] ^= 0x01010000 ^ outLen;
+  const block = new Uint8Array(128);
+  let off = 0;
+  // Process all full blocks except the last one
+  while (data.length - off > 128) {
+    block.set(data.subarray(off, off + 128));
+    off += 128;
+    b2bCompress(h, block, off, false);
+  }
+  block.fill(0);
+  block.set(data.subarray(off));
+  b2bCompress(h, block, data.length, true);
+  const out = new Uint8Array(outLen);
+  for (let i = 0; i < outLen; i++) out[i] = h[i >> 2] >>> (8 * (i & 3));
+  return out;
+}
+
+// ---------- Argon2id (RFC 9106) ----------
+const ARGON2_VERSION = 0x13;
+const ARGON2_ID = 2;
+const SYNC_POINTS = 4;
+const BLOCK_WORDS = 256; // 1024-byte block as uint32 words
+
+interface Argon2Params {
+  memoryKiB: number;
+  timeCost: number;
+  parallelism: number;
+  tagLength: number;
+  secret?: Uint8Array;
+  associatedData?: Uint8Array;
+  onProgress?: KdfProgress;
+}
+
+function le32(n: number): Uint8Array {
+  return new Uint8Array([n, n >>> 8, n >>> 16, n >>> 24]);
+}
+
+function withLength(data: Uint8Array): Uint8Array[] {
+  return [le32(data.length), data];
+}
+
+// Variable-length hash H' from RFC 9106 section 3.3
+function blake2bLong(input: Uint8Array, outLen: number): Uint8Array {
+  const prefixed = concatBytes(le32(outLen), input);
+  if (outLen <= 64) return blake2b(prefixed, outLen);
+  const out = new Uint8Array(outLen);
+  const r = Math.ceil(outLen / 32) - 2;
+  let v = blake2b(prefixed, 64);
+  out.set(v.subarray(0, 32), 0);
+  for (let i = 1; i < r; i++) {
+    v = blake2b(v, 64);
+    out.set(v.subarray(0, 32), i * 32);
+  }
+  v = blake2b(v, outLen - 32 * r);
+  out.set(v, r * 32);
+  return out;
+}
+
+// BlaMka G: a = a + b + 2 * lo32(a) * lo32(b), d = rotr(d ^ a, 32), ...
+function blamkaG(v: Uint32Array, a: number, b: number, c: number, d: number) {
+  blamkaAdd(v, a, b);
+  let x0 = v[d] ^ v[a];
+  let x1 = v[d + 1] ^ v[a + 1];
+  v[d] = x1;
+  v[d + 1] = x0;
+  blamkaAdd(v, c, d);
+  x0 = v[b] ^ v[c];
+  x1 = v[b + 1] ^ v[c + 1];
+  v[b] = (x0 >>> 24) ^ (x1 << 8);
+  v[b + 1] = (x1 >>> 24) ^ (x0 << 8);
+  blamkaAdd(v, a, b);
+  x0 = v[d] ^ v[a];
+  x1 = v[d + 1] ^ v[a + 1];
+  v[d] = (x0 >>> 16) ^ (x1 << 16);
+  v[d + 1] = (x1 >>> 16) ^ (x0 << 16);
+  blamkaAdd(v, c, d);
+  x0 = v[b] ^ v[c];
+  x1 = v[b + 1] ^ v[c + 1];
+  v[b] = (x1 >>> 31) ^ (x0 << 1);
+  v[b + 1] = (x0 >>> 31) ^ (x1 << 1);
+}
+
+function blamkaAdd(v: Uint32Array, a: number, b: number): void {
+  const p = mul32(v[a], v[b]);
+  const pHi = ((p.hi << 1) | (p.lo >>> 31)) >>> 0;
+  const pLo = (p.lo << 1) >>> 0;
+  const lo = v[a] + v[b] + pLo;
+  v[a + 1] = v[a + 1] + v[b + 1] + pHi + Math.floor(lo / TWO_32);
+  v[a] = lo;
+}
+
+// Permutation P over 16 64-bit words given as uint32 offsets into `v`
+function permute(v: Uint32Array, idx: number[]): void {
+  const [w0, w1, w2, w3, w4, w5, w6, w7, w8, w9, w10, w11, w12, w13, w14, w15] =
+    idx;
+  blamkaG(v, w0, w4, w8, w12);
+  blamkaG(v, w1, w5, w9, w13);
+  blamkaG(v, w2, w6, w10, w14);
+  blamkaG(v, w3, w7, w11, w15);
+  blamkaG(v, w0, w5, w10, w15);
+  blamkaG(v, w1, w6, w11, w12);
+  blamkaG(v, w2, w7, w8, w13);
+  blamkaG(v, w3, w4, w9, w14);
+}
+
+// Precomputed row/column word offsets for the compression function
+const ROW_IDX: number[][] = [];
+const COL_IDX: number[][] = [];
+for (let i = 0; i < 8; i++) {
+  const row: number[] = [];
+  const col: number[] = [];
+  for (let j = 0; j < 16; j++) {
+    row.push((16 * i + j) * 2);
+    col.push((2 * i + (j & 1) + 16 * (j >> 1)) * 2);
+  }
+  ROW_IDX.push(row);
+  COL_IDX.push(col);
+}
+
+const blockR = new Uint32Array(BLOCK_WORDS);
+const blockT = new Uint32Array(BLOCK_WORDS);
+
+// next = G(prev, ref) (xor next when `withXor`), operating on word offsets of `mem`
+function fillBlock(
+  mem: Uint32Array,
+  prev: number,
+  ref: number,
+  next: number,
+  withXor: boolean,
+  refMem: Uint32Array = mem
+): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    blockR[i] = refMem[ref + i] ^ mem[prev + i];
+    blockT[i] = withXor ? blockR[i] ^ mem[next + i] : blockR[i];
+  }
+  for (let i = 0; i < 8; i++) permute(blockR, ROW_IDX[i]);
+  for (let i = 0; i < 8; i++) permute(blockR, COL_IDX[i]);
+  for (let i = 0; i < BLOCK_WORDS; i++) mem[next + i] = blockT[i] ^ blockR[i];
+}
+
+function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2Params
+): Uint8Array {
+  const { memoryKiB, timeCost, parallelism: lanes, tagLength } = params;
+  const secret = params.secret ?? new Uint8Array(0);
+  const ad = params.associatedData ?? new Uint8Array(0);
+  if (!Number.isInteger(lanes) || lanes < 1 || lanes > 255)
+    throw new Error("argon2id parallelism must be 1..255");
+  if (!Number.isInteger(timeCost) || timeCost < 1)
+    throw new Error("argon2id timeCost must be >= 1");
+  if (!Number.isInteger(memoryKiB) || memoryKiB < 8 * lanes)
+    throw new Error("argon2id memoryKiB must be >= 8 * parallelism");
+  if (tagLength < 4) throw new Error("argon2id output must be >= 4 bytes");
+  if (salt.length < 8) throw new Error("argon2id salt must be >= 8 bytes");
+
+  const h0 = blake2b(
+    concatBytes(
+      le32(lanes),
+      le32(tagLength),
+      le32(memoryKiB),
+      le32(timeCost),
+      le32(ARGON2_VERSION),
+      le32(ARGON2_ID),
+      ...withLength(password),
+      ...withLength(salt),
+      ...withLength(secret),
+      ...withLength(ad)
+    ),
+    64
+  );
+
+  const segmentLength = Math.floor(memoryKiB / (SYNC_POINTS * lanes));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const blockCount = laneLength * lanes;
+  const mem = new Uint32Array(blockCount * BLOCK_WORDS);
+  const offset = (lane: number, index: number) =>
+    (lane * laneLength + index) * BLOCK_WORDS;
+
+  // First two blocks of each lane
+  for (let l = 0; l < lanes; l++) {
+    for (let j = 0; j < 2; j++) {
+      const b = blake2bLong(concatBytes(h0, le32(j), le32(l)), 1024);
+      const o = offset(l, j);
+      for (let k = 0; k < BLOCK_WORDS; k++) {
+        const p = k * 4;
+        mem[o + k] =
+          b[p] | (b[p + 1] << 8) | (b[p + 2] << 16) | (b[p + 3] << 24);
+      }
+    }
+  }
+
+  const zero = new Uint32Array(BLOCK_WORDS);
+  const input = new Uint32Array(BLOCK_WORDS);
+  const address = new Uint32Array(BLOCK_WORDS);
+  // address = G(0, G(0, input)); the 64-bit counter lives in input word 6
+  const nextAddresses = () => {
+    input[12]++;
+    address.fill(0);
+    fillBlock(address, 0, 0, 0, false, input);
+    fillBlock(address, 0, 0, 0, false, zero);
+  };
+
+  for (let pass = 0; pass < timeCost; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        const independent = pass === 0 && slice < SYNC_POINTS / 2;
+        if (independent) {
+          input.fill(0);
+          input[0] = pass;
+          input[2] = lane;
+          input[4] = slice;
+          input[6] = blockCount;
+          input[8] = timeCost;
+          input[10] = ARGON2_ID;
+        }
+        let start = 0;
+        if (pass === 0 && slice === 0) {
+          start = 2;
+          if (independent) nextAddresses();
+        }
+        for (let i = start; i < segmentLength; i++) {
+          const index = slice * segmentLength + i;
+          const prevIndex = index === 0 ? laneLength - 1 : index - 1;
+          const prev = offset(lane, prevIndex);
+          let j1: number;
+          let j2: number;
+          if (independent) {
+            if (i % 128 === 0) nextAddresses();
+            j1 = address[(i % 128) * 2];
+            j2 = address[(i % 128) * 2 + 1];
+          } else {
+            j1 = mem[prev];
+            j2 = mem[prev + 1];
+          }
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+          let area: number;
+          if (pass === 0) {
+            if (slice === 0) area = i - 1;
+            else if (sameLane) area = slice * segmentLength + i - 1;
+            else area = slice * segmentLength + (i === 0 ? -1 : 0);
+          } else if (sameLane) {
+            area = laneLength - segmentLength + i - 1;
+          } else {
+            area = laneLength - segmentLength + (i === 0 ? -1 : 0);
+          }
+          const x = mul32(j1, j1).hi;
+          const rel = area - 1 - mul32(area, x).hi;
+          const startPos =
+            pass !== 0 && slice !== SYNC_POINTS - 1
+              ? (slice + 1) * segmentLength
+              : 0;
+          const refIndex = (startPos + rel) % laneLength;
+          fillBlock(
+            mem,
+            prev,
+            offset(refLane, refIndex),
+            offset(lane, index),
+            pass !== 0
+          );
+        }
+      }
+      params.onProgress?.(
+        (pass * SYNC_POINTS + slice + 1) / (timeCost * SYNC_POINTS)
+      );
+    }
+  }
+
+  // Final block: xor of the last block of every lane
+  const last = new Uint32Array(BLOCK_WORDS);
+  for (let l = 0; l < lanes; l++) {
+    const o = offset(l, laneLength - 1);
+    for (let k = 0; k < BLOCK_WORDS; k++) last[k] ^= mem[o + k];
+  }
+  const lastBytes = new Uint8Array(1024);
+  for (let k = 0; k < BLOCK_WORDS; k++) {
+    const p = k * 4;
+    lastBytes[p] = last[k];
+    lastBytes[p + 1] = last[k] >>> 8;
+    lastBytes[p + 2] = last[k] >>> 16;
+    lastBytes[p + 3] = last[k] >>> 24;
+  }
+  mem.fill(0);
+  return blake2bLong(lastBytes, tagLength);
+}
+
+// ---------- scrypt (RFC 7914) ----------
+interface ScryptParams {
+  cost: number;
+  blockSize: number;
+  parallelism: number;
+  keyLength: number;
+  onProgress?: KdfProgress;
+}
+
+function salsa20_8(b: Uint32Array, o: number): void {
+  const x = b.slice(o, o + 16);
+  const R = (a: number, n: number) => (a << n) | (a >>> (32 - n));
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= R(x[0] + x[12], 7);
+    x[8] ^= R(x[4] + x[0], 9);
+    x[12] ^= R(x[8] + x[4], 13);
+    x[0] ^= R(x[12] + x[8], 18);
+    x[9] ^= R(x[5] + x[1], 7);
+    x[13] ^= R(x[9] + x[5], 9);
+    x[1] ^= R(x[13] + x[9], 13);
+    x[5] ^= R(x[1] + x[13], 18);
+    x[14] ^= R(x[10] + x[6], 7);
+    x[2] ^= R(x[14] + x[10], 9);
+    x[6] ^= R(x[2] + x[14], 13);
+    x[10] ^= R(x[6] + x[2], 18);
+    x[3] ^= R(x[15] + x[11], 7);
+    x[7] ^= R(x[3] + x[15], 9);
+    x[11] ^= R(x[7] + x[3], 13);
+    x[15] ^= R(x[11] + x[7], 18);
+    x[1] ^= R(x[0] + x[3], 7);
+    x[2] ^= R(x[1] + x[0], 9);
+    x[3] ^= R(x[2] + x[1], 13);
+    x[0] ^= R(x[3] + x[2], 18);
+    x[6] ^= R(x[5] + x[4], 7);
+    x[7] ^= R(x[6] + x[5], 9);
+    x[4] ^= R(x[7] + x[6], 13);
+    x[5] ^= R(x[4] + x[7], 18);
+    x[11] ^= R(x[10] + x[9], 7);
+    x[8] ^= R(x[11] + x[10], 9);
+    x[9] ^= R(x[8] + x[11], 13);
+    x[10] ^= R(x[9] + x[8], 18);
+    x[12] ^= R(x[15] + x[14], 7);
+    x[13] ^= R(x[12] + x[15], 9);
+    x[14] ^= R(x[13] + x[12], 13);
+    x[15] ^= R(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) b[o + i] += x[i];
+}
+
+// BlockMix with Salsa20/8: `b` (2r 64-byte blocks) -> `y`
+function blockMix(b: Uint32Array, y: Uint32Array, r: number): void {
+  const x = b.slice((2 * r - 1) * 16, 2 * r * 16);
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) x[k] ^= b[i * 16 + k];
+    salsa20_8(x, 0);
+    // Even blocks go to the first half, odd blocks to the second half
+    y.set(x, ((i >> 1) + (i & 1) * r) * 16);
+  }
+}
+
+// `step` is called every n/16 of the 2n mixing steps
+function roMix(
+  b: Uint32Array,
+  n: number,
+  r: number,
+  step?: (done: number) => void
+): void {
+  const words = 32 * r;
+  const every = Math.max(1, n >>> 4);
+  const v = new Uint32Array(words * n);
+  const x = new Uint32Array(b);
+  const y = new Uint32Array(words);
+  for (let i = 0; i < n; i++) {
+    v.set(x, i * words);
+    blockMix(x, y, r);
+    x.set(y);
+    if (step && (i + 1) % every === 0) step(i + 1);
+  }
+  for (let i = 0; i < n; i++) {
+    const j = x[(2 * r - 1) * 16] & (n - 1);
+    for (let k = 0; k < words; k++) x[k] ^= v[j * words + k];
+    blockMix(x, y, r);
+    x.set(y);
+    if (step && (i + 1) % every === 0) step(n + i + 1);
+  }
+  b.set(x);
+  v.fill(0);
+}
+
+async function scrypt(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: ScryptParams
+): Promise<Uint8Array> {
+  const { cost: n, blockSize: r, parallelism: p, keyLength } = params;
+  if (!Number.isInteger(n) || n < 2 || (n & (n - 1)) !== 0 || n > 2 ** 30)
+    throw new Error("scrypt cost must be a power of two between 2 and 2^30");
+  if (!Number.isInteger(r) || r < 1)
+    throw new Error("scrypt blockSize must be >= 1");
+  if (!Number.isInteger(p) || p < 1 || p * r > 2 ** 30 - 1)
+    throw new Error("scrypt parallelism is out of range");
+
+  const blockBytes = 128 * r;
+  const b = await pbkdf2Sha256(password, salt, 1, p * blockBytes * 8);
+  const words = new Uint32Array(b.length / 4);
+  for (let i = 0; i < words.length; i++) {
+    const o = i * 4;
+    words[i] = b[o] | (b[o + 1] << 8) | (b[o + 2] << 16) | (b[o + 3] << 24);
+  }
+  const onProgress = params.onProgress;
+  for (let i = 0; i < p; i++) {
+    roMix(
+      words.subarray(i * 32 * r, (i + 1) * 32 * r),
+      n,
+      r,
+      onProgress && ((done) => onProgress((i * 2 * n + done) / (p * 2 * n)))
+    );
+  }
+  for (let i = 0; i < words.length; i++) {
+    const o = i * 4;
+    b[o] = words[i];
+    b[o + 1] = words[i] >>> 8;
+    b[o + 2] = words[i] >>> 16;
+    b[o + 3] = words[i] >>> 24;
+  }
+  return pbkdf2Sha256(password, b, 1, keyLength * 8);
+}
+
+/** Exposed for known-answer checks against the RFC vectors. */
+export const __internal = { argon2id, scrypt };
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { generateLessPass, type LessPassRule } from "./lesspass";
+
+// Published LessPass v2 vectors (lesspass-render-password / README): master
+// "password", site "example.org", login "contact@example.org"
+const vectors: {
+  counter: number;
+  length: number;
+  rules?: LessPassRule[];
+  expected: string;
+}[] = [
+  { counter: 1, length: 16, expected: "WHLpUL)e00[iHR+w" },
+  {
+    counter: 2,
+    length: 14,
+    rules: ["lowercase", "uppercase", "digits"],
+    expected: "MBAsB7b1Prt8Sl",
+  },
+  { counter: 1, length: 16, rules: ["digits"], expected: "8742368585200667" },
+];
+
+describe("generateLessPass", () => {
+  it.each(vectors)(
+    "counter $counter, length $length → $expected",
+    async ({ counter, length, rules, expected }) => {
+      const password = await generateLessPass("password", {
+        site: "example.org",
+        login: "contact@example.org",
+        counter,
+        length,
+        rules,
+      });
+      expect(password).toBe(expected);
+    }
+  );
+
+  it("refuses an empty master phrase", async () => {
+    await expect(
+      generateLessPass("", {
+        site: "example.org",
+        login: "",
+        counter: 1,
+        length: 16,
+      })
+    ).rejects.toThrow("Master phrase is required");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * LessPass v2 compatible engine
+ * - entropy = PBKDF2-SHA256(master, site + login + hex(counter), 100000, 32 bytes)
+ * - The entropy is read as one big integer and consumed by repeated divmod
+ * - One character of every enabled class is inserted at an entropy-chosen spot
+ *
+ * The master phrase and site are used exactly as typed (no normalisation),
+ * otherwise imported LessPass profiles would not reproduce their passwords.
+ * Reference vector: "password" / example.org / contact@example.org, all
+ * classes, length 16, counter 1 -> "WHLpUL)e00[iHR+w".
+ */
+
+import { enc, pbkdf2Sha256 } from "./crypto";
+import type { CharClass, CharacterPolicy } from "./policy";
+
+export const LESSPASS_RULES = [
+  "lowercase",
+  "uppercase",
+  "digits",
+  "symbols",
+] as const;
+export type LessPassRule = (typeof LESSPASS_RULES)[number];
+
+const LESSPASS_CHARSETS: Record<LessPassRule, string> = {
+  lowercase: "abcdefghijklmnopqrstuvwxyz",
+  uppercase: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  digits: "0123456789",
+  symbols: "!\"#$%&'()*+,-./:;<=>?@[\\]^_`{|}~",
+};
+
+// The matching class of a passw character policy
+const RULE_CLASS: Record<LessPassRule, CharClass> = {
+  lowercase: "lower",
+  uppercase: "upper",
+  digits: "digit",
+  symbols: "symbol",
+};
+
+export const LESSPASS_ITERATIONS = 100_000;
+export const LESSPASS_MIN_LENGTH = 5;
+export const LESSPASS_MAX_LENGTH = 35;
+
+export interface LessPassOptions {
+  site: string;
+  login: string;
+  counter: number;
+  length: number;
+  /** enabled classes, in LessPass order; all four when omitted */
+  rules?: readonly LessPassRule[];
+}
+
+/** Enabled classes for a profile policy: a class is off when its max is 0. */
+export function lessPassRulesFromPolicy(
+  policy?: CharacterPolicy
+): LessPassRule[] {
+  return LESSPASS_RULES.filter((rule) => policy?.max?.[RULE_CLASS[rule]] !== 0);
+}
+
+export async function lessPassEntropy(
+  master: string,
+  site: string,
+  login: string,
+  counter: number
+): Promise<bigint> {
+  const salt = enc.encode(site + login + counter.toString(16));
+  const bytes = await pbkdf2Sha256(
+    enc.encode(master),
+    salt,
+    LESSPASS_ITERATIONS,
+    256
+  );
+  let hex = "";
+  for (const b of bytes) hex += b.toString(16).padStart(2, "0");
+  bytes.fill(0);
+  return BigInt("0x" + hex);
+}
+
+// Pick `length` characters from `chars`, returning the remaining entropy
+function consumeEntropy(
+  entropy: bigint,
+  chars: string,
+  length: number
+): { value: string; entropy: bigint } {
+  let value = "";
+  const n = BigInt(chars.length);
+  for (let i = 0; i < length; i++) {
+    value += chars[Number(entropy % n)];
+    entropy /= n;
+  }
+  return { value, entropy };
+}
+
+/** Password for already derived entropy, split out for known-answer checks. */
+export function renderLessPassword(
+  entropy: bigint,
+  length: number,
+  rules: readonly LessPassRule[] = LESSPASS_RULES
+): string {
+  if (rules.length === 0)
+    throw new Error("LessPass needs at least one character class");
+  if (length < LESSPASS_MIN_LENGTH || length > LESSPASS_MAX_LENGTH)
+    throw new Error(
+      `LessPass length must be between ${LESSPASS_MIN_LENGTH} and ${LESSPASS_MAX_LENGTH}`
+    );
+  const ordered = LESSPASS_RULES.filter((r) => rules.includes(r));
+  const all = ordered.map((r) => LESSPASS_CHARSETS[r]).join("");
+  let { value: password, entropy: rest } = consumeEntropy(
+    entropy,
+    all,
+    length - ordered.length
+  );
+  let extra = "";
+  for (const rule of ordered) {
+    const picked = consumeEntropy(rest, LESSPASS_CHARSETS[rule], 1);
+    extra += picked.value;
+    rest = picked.entropy;
+  }
+  for (const c of extra) {
+    const n = BigInt(password.length);
+    const at = Number(rest % n);
+    password = password.slice(0, at) + c + password.slice(at);
+    rest /= n;
+  }
+  return password;
+}
+
+export async function generateLessPass(
+  master: string,
+  options: LessPassOptions
+): Promise<string> {
+  if (!master) throw new Error("Master phrase is required");
+  if (!Number.isInteger(options.counter) || options.counter < 1)
+    throw new Error("LessPass counter must be a whole number >= 1");
+  const entropy = await lessPassEntropy(
+    master,
+    options.site,
+    options.login,
+    options.counter
+  );
+  return renderLessPassword(entropy, options.length, options.rules);
+}
@@ -0,0 +1,99 @@
+import { pbkdf2Sync, scryptSync } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ResolvedKdfOptions } from "./kdf";
+
+// Stands in for the Tauri IPC: `derive_key` is answered by OpenSSL (through
+// node:crypto), an implementation independent of the TypeScript KDFs. The
+// Rust `derive` is pinned to the same key bytes by `cargo test`.
+const tauri = vi.hoisted(() => ({
+  on: false,
+  invoke: vi.fn(),
+}));
+
+vi.mock("@tauri-apps/api/core", () => ({
+  isTauri: () => tauri.on,
+  invoke: tauri.invoke,
+}));
+
+type DeriveArgs = {
+  password: number[];
+  salt: number[];
+  bits: number;
+  kdf: ResolvedKdfOptions;
+};
+
+function opensslDerive({ password, salt, bits, kdf }: DeriveArgs): number[] {
+  const pw = Buffer.from(password);
+  const s = Buffer.from(salt);
+  switch (kdf.algorithm) {
+    case "pbkdf2":
+      return [...pbkdf2Sync(pw, s, kdf.iterations, bits / 8, "sha256")];
+    case "scrypt":
+      return [
+        ...scryptSync(pw, s, bits / 8, {
+          N: kdf.cost,
+          r: kdf.blockSize,
+          p: kdf.parallelism,
+          maxmem: 256 * kdf.cost * kdf.blockSize,
+        }),
+      ];
+    default:
+      throw new Error(`no stand-in for ${kdf.algorithm}`);
+  }
+}
+
+const { KNOWN_ANSWERS } = await import("./self-test");
+const { deriveKey } = await import("./kdf");
+
+// The vectors that go through deriveKey: the KDFs and every generator.
+// Node 20 has no Argon2id; lib.rs checks the Rust one against the TS vector.
+const NOT_NATIVE = new Set([
+  "sha256",
+  "hmac-sha256",
+  "pbkdf2-sha256",
+  "nfkc",
+  "scrypt",
+  "argon2id",
+  "kdf-argon2id",
+  "lesspass-v2",
+  "spectre-v3-key-id",
+  "spectre-v3",
+]);
+const VECTORS = KNOWN_ANSWERS.filter((v) => !NOT_NATIVE.has(v.id));
+
+describe("native and TypeScript backends", () => {
+  afterEach(() => {
+    tauri.on = false;
+    tauri.invoke.mockReset();
+  });
+
+  it.each(VECTORS.map((v) => [v.id, v] as const))(
+    "%s gives the same output through both",
+    async (_, vector) => {
+      const typescript = await vector.run();
+      tauri.on = true;
+      tauri.invoke.mockImplementation(async (cmd: string, args: DeriveArgs) => {
+        expect(cmd).toBe("derive_key");
+        return opensslDerive(args);
+      });
+      const native = await vector.run();
+      expect(tauri.invoke).toHaveBeenCalled();
+      expect(native).toBe(typescript);
+      expect(native).toBe(vector.expected);
+    },
+    30_000
+  );
+
+  it("reports a native failure instead of running TypeScript", async () => {
+    tauri.on = true;
+    tauri.invoke.mockRejectedValue("scrypt cost must be a power of two");
+    await expect(
+      deriveKey("master", new Uint8Array(16), 256, {
+        algorithm: "scrypt",
+        cost: 1024,
+      })
+    ).rejects.toThrow(
+      "Native key derivation failed: scrypt cost must be a power of two"
+    );
+  });
+});
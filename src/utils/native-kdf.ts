@@ -0,0 +1,30 @@
+/**
+ * Native key derivation in the Tauri build (`derive_key` in src-tauri/src/lib.rs)
+ * - Much faster than Web Crypto PBKDF2 in WebKitGTK and the TypeScript
+ *   memory-hard KDFs, with the same output bytes
+ * - Receives the already normalised phrase bytes and fully resolved
+ *   parameters, so only the hashing itself differs between the two paths
+ * - Tauri IPC only exists in the window, not in workers or the Node CLI
+ */
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+import type { ResolvedKdfOptions } from "./kdf";
+
+export function nativeKdfAvailable(): boolean {
+  return isTauri();
+}
+
+export async function nativeDeriveKey(
+  password: Uint8Array,
+  salt: Uint8Array,
+  bits: number,
+  kdf: ResolvedKdfOptions
+): Promise<Uint8Array> {
+  const out = await invoke<number[]>("derive_key", {
+    password: Array.from(password),
+    salt: Array.from(salt),
+    bits,
+    kdf,
+  });
+  return new Uint8Array(out);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  PASSPHRASE_MAX_WORDS,
+  PASSPHRASE_MIN_WORDS,
+  generateFromTemplate,
+  generatePassphrase,
+} from "./pass-generator";
+import { outputStrength } from "./strength";
+
+const options = { context: "example.com", iterations: 100_000 };
+
+describe("generateFromTemplate", () => {
+  it("draws each position from its class", async () => {
+    const out = await generateFromTemplate("master", 1, {
+      ...options,
+      template: "Cvcc\\-nnnn",
+    });
+    expect(out).toMatch(
+      /^[BCDFGHJKLMNPQRSTVWXYZ][aeiou][bcdfghjklmnpqrstvwxyz]{2}-\d{4}$/
+    );
+  });
+
+  it("depends on the master phrase, context and counter", async () => {
+    const pin = (master: string, n: number, context = "example.com") =>
+      generateFromTemplate(master, n, {
+        ...options,
+        context,
+        template: "nnnnnnnnnnnn",
+      });
+    const a = await pin("master", 1);
+    expect(await pin("master", 1)).toBe(a);
+    expect(await pin("master", 2)).not.toBe(a);
+    expect(await pin("master", 1, "example.org")).not.toBe(a);
+    expect(await pin("Master", 1)).not.toBe(a);
+  });
+
+  it("emits an escaped astral character as one literal", async () => {
+    const out = await generateFromTemplate("master", 1, {
+      ...options,
+      template: "\\😀nn\\😀",
+    });
+    expect(Array.from(out)).toHaveLength(4);
+    expect(out).toMatch(/^😀\d\d😀$/u);
+  });
+
+  it("counts no entropy for an astral literal", () => {
+    const bits = outputStrength({ mode: "template", template: "\\😀nn" }).bits;
+    expect(bits).toBeCloseTo(2 * Math.log2(10));
+  });
+
+  it("rejects an invalid template", async () => {
+    await expect(
+      generateFromTemplate("master", 1, { ...options, template: "nnQ" })
+    ).rejects.toThrow('Template character "Q"');
+  });
+});
+
+describe("generatePassphrase", () => {
+  it("accepts word counts from the shared bounds only", async () => {
+    for (const words of [PASSPHRASE_MIN_WORDS, PASSPHRASE_MAX_WORDS]) {
+      const out = await generatePassphrase("master", 1, { ...options, words });
+      expect(out.split("-")).toHaveLength(words);
+    }
+    for (const words of [PASSPHRASE_MIN_WORDS - 1, PASSPHRASE_MAX_WORDS + 1])
+      await expect(
+        generatePassphrase("master", 1, { ...options, words })
+      ).rejects.toThrow(/words must be between/);
+  });
+});
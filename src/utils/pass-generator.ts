@@ -1,6 +1,7 @@
 /**
  * Deterministic, strong password generator in TypeScript
  * - Uses Web Crypto API (PBKDF2 + HMAC-SHA-256) — no external libraries
+ * - Optional memory-hard KDFs (Argon2id, scrypt) in plain TypeScript, see ./kdf
  * - Same inputs -> same password; change number/context to rotate
  * - Works in Browser and Node.js >= 18 (uses globalThis.crypto or node:crypto.webcrypto)
  *
@@ -10,109 +11,71 @@
  * - Nothing is literally "unhackable"; this design aims to be robust against modern offline cracking.
  */
 
-// ---------- Environment helpers ----------
-async function getSubtle(): Promise<SubtleCrypto> {
-  const g = globalThis as any;
-  if (g?.crypto?.subtle) {
-    return g.crypto.subtle as SubtleCrypto;
-  }
-  // Node fallback: only attempt dynamic import when not in browser to avoid bundler resolution
-  if (typeof window === "undefined") {
-    try {
-      const { webcrypto } = await import(/* @vite-ignore */ "crypto");
-      return (webcrypto as Crypto).subtle as SubtleCrypto;
-    } catch {
-      // fallthrough to error below
-    }
-  }
-  throw new Error(
-    "Web Crypto API not available. In Node, use v18+; in browser/Tauri, use a modern runtime."
-  );
-}
+import {
+  concatBytes,
+  enc,
+  getSubtle,
+  hmacSha256,
+  normText,
+  sha256,
+} from "./crypto";
+import { EFF_LARGE_WORDLIST } from "./eff-wordlist";
+import { deriveKey, type KdfOptions, type KdfProgress } from "./kdf";
+import { parseTemplate } from "./templates";
+import {
+  DIGITS,
+  LOWER,
+  SYMBOLS,
+  UPPER,
+  generateWithPolicy,
+  type CharacterPolicy,
+  type Picker,
+} from "./policy";
 
-const enc = new TextEncoder();
+export type { KdfOptions } from "./kdf";
+export type { CharacterPolicy, CharClass } from "./policy";
 
 // ---------- Utilities ----------
-function normText(s: string): string {
-  return s.normalize("NFKC").trim();
-}
-
-function concatBytes(...arrays: Uint8Array[]): Uint8Array {
-  const total = arrays.reduce((n, a) => n + a.length, 0);
-  const out = new Uint8Array(total);
-  let off = 0;
-  for (const a of arrays) {
-    out.set(a, off);
-    off += a.length;
-  }
-  return out;
-}
-
-async function sha256(data: Uint8Array): Promise<Uint8Array> {
-  const subtle = await getSubtle();
-  const digest = await subtle.digest("SHA-256", data);
-  return new Uint8Array(digest);
-}
-
-async function hmacSha256(
-  keyBytes: Uint8Array,
-  msg: Uint8Array
-): Promise<Uint8Array> {
-  const subtle = await getSubtle();
-  const key = await subtle.importKey(
-    "raw",
-    keyBytes,
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  );
-  const sig = await subtle.sign("HMAC", key, msg);
-  return new Uint8Array(sig);
-}
-
-async function pbkdf2(
-  master: string,
-  salt: Uint8Array,
-  iterations: number,
-  bits: number
-): Promise<Uint8Array> {
-  const subtle = await getSubtle();
-  const keyMaterial = await subtle.importKey(
-    "raw",
-    enc.encode(normText(master)),
-    { name: "PBKDF2" },
-    false,
-    ["deriveBits"]
-  );
-  const params: Pbkdf2Params = {
-    name: "PBKDF2",
-    hash: "SHA-256",
-    salt,
-    iterations,
-  };
-  const derived = await subtle.deriveBits(params, keyMaterial, bits);
-  return new Uint8Array(derived);
-}
-
 function bytesToInt(b: number): number {
   return b & 0xff;
 }
 
 // ---------- Character policy ----------
-const LOWER = "abcdefghijklmnopqrstuvwxyz";
-const UPPER = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
-const DIGITS = "0123456789";
-const SYMBOLS = "!@#$%^&*()-_=+[]{};:,.?/\\|~";
 const ALLSETS = [LOWER, UPPER, DIGITS, SYMBOLS] as const;
 const COMBINED = ALLSETS.join("");
 
+// ---------- Purposes ----------
+/**
+ * What an output is for, as in Spectre:
+ * - authentication: the site password (the default)
+ * - identification: a login name that cannot be linked across sites
+ * - recovery: answers to security questions, one per keyword
+ */
+export const PURPOSES = [
+  "authentication",
+  "identification",
+  "recovery",
+] as const;
+export type Purpose = (typeof PURPOSES)[number];
+
 // ---------- Salt derivation (deterministic) ----------
+// Authentication keeps the original payload so existing passwords stay the
+// same; other purposes add the purpose and the length-prefixed keyword
 async function deterministicSalt(
   context: string,
-  number: number | string
+  number: number | string,
+  tag = "pwgen-salt-v1",
+  scope: Pick<GenerateOptions, "purpose" | "keyword"> = {}
 ): Promise<Uint8Array> {
-  const tag = "pwgen-salt-v1";
-  const payload = `${tag}|${normText(context)}|${normText(String(number))}`;
+  const purpose = scope.purpose ?? "authentication";
+  if (!PURPOSES.includes(purpose))
+    throw new Error(`unknown purpose: ${purpose}`);
+  const keyword = normText(scope.keyword ?? "");
+  const domain =
+    purpose === "authentication"
+      ? tag
+      : `${tag}|${purpose}|${keyword.length}:${keyword}`;
+  const payload = `${domain}|${normText(context)}|${normText(String(number))}`;
   const hash = await sha256(enc.encode(payload));
   return hash.slice(0, 16); // 128-bit salt
 }
@@ -158,6 +121,89 @@ function mapBytesToPassword(keyBytes: Uint8Array, length: number): string {
   return out.join("");
 }
 
+// ---------- Deterministic choices for policy-driven output ----------
+// Endless byte stream: HMAC(key, "label|0"), HMAC(key, "label|1"), ...
+function hmacByteStream(
+  keyBytes: Uint8Array,
+  label: string
+): () => Promise<number> {
+  let block = new Uint8Array(0);
+  let pos = 0;
+  let counter = 0;
+  return async () => {
+    if (pos >= block.length) {
+      block = await hmacSha256(keyBytes, enc.encode(`${label}|${counter++}`));
+      pos = 0;
+    }
+    return block[pos++];
+  };
+}
+
+// v1: one byte per choice, reduced modulo n (slightly biased, kept for reproducibility)
+function hmacPicker(keyBytes: Uint8Array, label: string): Picker {
+  const next = hmacByteStream(keyBytes, label);
+  return {
+    async pick(n: number): Promise<number> {
+      return bytesToInt(await next()) % n;
+    },
+  };
+}
+
+// v2: rejection sampling, so every value in [0, n) is equally likely
+function uniformPicker(keyBytes: Uint8Array, label: string): Picker {
+  const next = hmacByteStream(keyBytes, label);
+  return {
+    async pick(n: number): Promise<number> {
+      if (!Number.isInteger(n) || n < 1 || n > 0x10000)
+        throw new Error("pick range must be 1..65536");
+      const width = n <= 256 ? 1 : 2;
+      const range = 256 ** width;
+      const limit = range - (range % n);
+      for (;;) {
+        let x = await next();
+        if (width === 2) x = (x << 8) | (await next());
+        if (x < limit) return x % n;
+      }
+    },
+  };
+}
+
+async function uniformShuffle(arr: string[], picker: Picker): Promise<void> {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const k = await picker.pick(i + 1);
+    const tmp = arr[i];
+    arr[i] = arr[k];
+    arr[k] = tmp;
+  }
+}
+
+// ---------- Algorithm versions ----------
+/**
+ * - v1: original mapping (`byte % set.length`), key bytes reused for shuffling
+ * - v2: rejection sampling; separate HMAC-derived keys for characters and shuffle
+ * - v3: slow KDF once per session, then a per-site key via HKDF; v2 sampling
+ */
+export const ALGORITHM_VERSIONS = ["v1", "v2", "v3"] as const;
+export type AlgorithmVersion = (typeof ALGORITHM_VERSIONS)[number];
+export const LATEST_ALGORITHM_VERSION: AlgorithmVersion = "v3";
+
+// `tag` separates the character and shuffle keys of each version
+async function generateUniform(
+  masterKey: Uint8Array,
+  length: number,
+  policy: CharacterPolicy,
+  tag: string
+): Promise<string> {
+  const charKey = await hmacSha256(masterKey, enc.encode(`${tag}|chars`));
+  const shuffleKey = await hmacSha256(masterKey, enc.encode(`${tag}|shuffle`));
+  return generateWithPolicy(
+    policy,
+    length,
+    uniformPicker(charKey, "chars"),
+    (arr) => uniformShuffle(arr, uniformPicker(shuffleKey, "shuffle"))
+  );
+}
+
 // ---------- Public API ----------
 export interface GenerateOptions {
   /** site/app identifier (e.g., 'gmail.com') */
@@ -166,6 +212,29 @@ export interface GenerateOptions {
   length?: number;
   /** PBKDF2 iterations (>= 100_000; default 600_000) */
   iterations?: number;
+  /** key derivation function (default PBKDF2-SHA256 with `iterations`) */
+  kdf?: KdfOptions;
+  /** site character rules; when omitted, all four classes are used as before */
+  policy?: CharacterPolicy;
+  /** derivation algorithm (default "v1", which keeps existing passwords stable) */
+  algorithmVersion?: AlgorithmVersion;
+  /** what the output is for (default "authentication"), see PURPOSES */
+  purpose?: Purpose;
+  /** tells outputs of one purpose apart, e.g. the security question */
+  keyword?: string;
+  /** KDF progress, 0–1 (Argon2id and scrypt only) */
+  onProgress?: KdfProgress;
+}
+
+// `iterations` is shorthand for PBKDF2 when no other KDF is selected
+export function resolveKdf(
+  options: Pick<GenerateOptions, "iterations" | "kdf">
+): KdfOptions {
+  if (options.kdf && options.kdf.algorithm !== "pbkdf2") return options.kdf;
+  return {
+    algorithm: "pbkdf2",
+    iterations: options.kdf?.iterations ?? options.iterations ?? 600_000,
+  };
 }
 
 export async function generatePassword(
@@ -175,56 +244,280 @@ export async function generatePassword(
 ): Promise<string> {
   const context = options.context ?? "";
   const length = options.length ?? 20;
-  const iterations = options.iterations ?? 600_000;
-  if (iterations < 100_000) throw new Error("iterations must be >= 100,000");
+  const kdf = resolveKdf(options);
+
+  const version = options.algorithmVersion ?? "v1";
+  if (!ALGORITHM_VERSIONS.includes(version))
+    throw new Error(`unknown algorithm version: ${version}`);
+
+  if (version === "v2") {
+    if (length < 8) throw new Error("length must be at least 8");
+    const salt = await deterministicSalt(
+      context,
+      number,
+      "pwgen-salt-v2",
+      options
+    );
+    const masterKey = await deriveKey(
+      masterPhrase,
+      salt,
+      256,
+      kdf,
+      options.onProgress
+    );
+    return generateUniform(masterKey, length, options.policy ?? {}, "passw-v2");
+  }
+
+  if (version === "v3") {
+    const sessionKey = await deriveSessionKey(masterPhrase, {
+      kdf,
+      onProgress: options.onProgress,
+    });
+    return generateWithSessionKey(sessionKey, number, {
+      context,
+      length,
+      policy: options.policy,
+      purpose: options.purpose,
+      keyword: options.keyword,
+    });
+  }
 
-  const salt = await deterministicSalt(context, number);
+  const salt = await deterministicSalt(context, number, undefined, options);
   // Derive >= 2*length bytes so we can shuffle and sample
-  const keyBytes = await pbkdf2(
+  const keyBytes = await deriveKey(
     masterPhrase,
     salt,
-    iterations,
-    Math.max(512, length * 16)
+    Math.max(512, length * 16),
+    kdf,
+    options.onProgress
   );
 
+  if (options.policy) {
+    if (length < 8) throw new Error("length must be at least 8");
+    return generateWithPolicy(
+      options.policy,
+      length,
+      hmacPicker(keyBytes, "policy-v1"),
+      (arr) => deterministicShuffle(arr, keyBytes)
+    );
+  }
+
   // Build password then deterministically shuffle characters to avoid fixed positions
   const initial = mapBytesToPassword(keyBytes, length).split("");
   await deterministicShuffle(initial, keyBytes);
   return initial.slice(0, length).join("");
 }
 
-// ---------- Optional: Node CLI ----------
-const __maybeProcess: any = (globalThis as any).process;
-if (
-  typeof __maybeProcess !== "undefined" &&
-  Array.isArray(__maybeProcess.argv) &&
-  typeof __maybeProcess.argv[1] === "string" &&
-  /(pwgen).*\.(ts|js)$/.test(__maybeProcess.argv[1] as string)
-) {
-  (async () => {
-    const [, , master, numStr, ...rest] = __maybeProcess.argv as string[];
-    if (!master || !numStr) {
-      console.error(
-        'Usage: ts-node pwgen.ts "Mi frase maestra" 12345 --context gmail.com --length 20 --iterations 600000'
-      );
-      __maybeProcess.exit(1);
-    }
-    const args = new Map<string, string>();
-    for (let i = 0; i < rest.length; i += 2) {
-      const k = rest[i];
-      const v = rest[i + 1];
-      if (k?.startsWith("--") && typeof v === "string") args.set(k.slice(2), v);
-    }
-    const pwd = await generatePassword(master, Number(numStr), {
-      context: args.get("context") ?? "",
-      length: args.has("length") ? Number(args.get("length")) : 20,
-      iterations: args.has("iterations")
-        ? Number(args.get("iterations"))
-        : 600_000,
-    });
-    console.log(pwd);
-  })().catch((e) => {
-    console.error(e);
-    __maybeProcess.exit(1);
-  });
+// ---------- v3 sessions ----------
+/**
+ * v3 step 1: the slow KDF over the master phrase, run once per session.
+ * The salt is a fixed domain tag, not per site, so one derivation serves
+ * every site; the raw bits are wiped once imported as a non-extractable key.
+ */
+export async function deriveSessionKey(
+  masterPhrase: string,
+  options: Pick<GenerateOptions, "iterations" | "kdf" | "onProgress"> = {}
+): Promise<CryptoKey> {
+  const salt = (await sha256(enc.encode("pwgen-session-v3"))).slice(0, 16);
+  const bits = await deriveKey(
+    masterPhrase,
+    salt,
+    256,
+    resolveKdf(options),
+    options.onProgress
+  );
+  try {
+    const subtle = await getSubtle();
+    return await subtle.importKey("raw", bits, "HKDF", false, ["deriveBits"]);
+  } finally {
+    bits.fill(0);
+  }
+}
+
+/** v3 step 2: fast per-site password from a session key (HKDF-SHA256). */
+export async function generateWithSessionKey(
+  sessionKey: CryptoKey,
+  number: number,
+  options: Pick<
+    GenerateOptions,
+    "context" | "length" | "policy" | "purpose" | "keyword"
+  > = {}
+): Promise<string> {
+  const length = options.length ?? 20;
+  if (length < 8) throw new Error("length must be at least 8");
+  const subtle = await getSubtle();
+  const siteKey = new Uint8Array(
+    await subtle.deriveBits(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: await deterministicSalt(
+          options.context ?? "",
+          number,
+          "pwgen-salt-v3",
+          options
+        ),
+        info: enc.encode("passw-v3|site"),
+      },
+      sessionKey,
+      256
+    )
+  );
+  try {
+    return await generateUniform(
+      siteKey,
+      length,
+      options.policy ?? {},
+      "passw-v3"
+    );
+  } finally {
+    siteKey.fill(0);
+  }
+}
+
+// ---------- Passphrase mode ----------
+export const PASSPHRASE_CASES = ["lower", "upper", "title", "first"] as const;
+export type PassphraseCase = (typeof PASSPHRASE_CASES)[number];
+export const PASSPHRASE_EXTRAS = ["none", "digit", "symbol", "both"] as const;
+export type PassphraseExtra = (typeof PASSPHRASE_EXTRAS)[number];
+/** symbols `extra` may append to a word */
+export const PASSPHRASE_SYMBOLS = "!#$%&*+=?@";
+export const PASSPHRASE_MIN_WORDS = 4;
+export const PASSPHRASE_MAX_WORDS = 20;
+
+export interface PassphraseOptions
+  extends Pick<
+    GenerateOptions,
+    "context" | "iterations" | "kdf" | "onProgress" | "purpose" | "keyword"
+  > {
+  /** number of words (4–20; default 6) */
+  words?: number;
+  /** text between words (default "-") */
+  separator?: string;
+  /** lower, UPPER, Title Case every word, or capitalise the first word only */
+  capitalization?: PassphraseCase;
+  /** append a digit and/or symbol to one word, for sites that demand them */
+  extra?: PassphraseExtra;
+}
+
+function applyCase(word: string, mode: PassphraseCase, index: number): string {
+  switch (mode) {
+    case "upper":
+      return word.toUpperCase();
+    case "title":
+      return word[0].toUpperCase() + word.slice(1);
+    case "first":
+      return index === 0 ? word[0].toUpperCase() + word.slice(1) : word;
+    default:
+      return word;
+  }
+}
+
+/**
+ * Diceware-style passphrase from the EFF large wordlist.
+ * Uses the same salt/context/counter derivation as v1 passwords; words are
+ * drawn with a separate, domain-separated key and rejection sampling.
+ */
+export async function generatePassphrase(
+  masterPhrase: string,
+  number: number,
+  options: PassphraseOptions = {}
+): Promise<string> {
+  const count = options.words ?? 6;
+  const separator = options.separator ?? "-";
+  const capitalization = options.capitalization ?? "lower";
+  const extra = options.extra ?? "none";
+  if (
+    !Number.isInteger(count) ||
+    count < PASSPHRASE_MIN_WORDS ||
+    count > PASSPHRASE_MAX_WORDS
+  )
+    throw new Error(
+      `words must be between ${PASSPHRASE_MIN_WORDS} and ${PASSPHRASE_MAX_WORDS}`
+    );
+
+  const salt = await deterministicSalt(
+    options.context ?? "",
+    number,
+    undefined,
+    options
+  );
+  const keyBytes = await deriveKey(
+    masterPhrase,
+    salt,
+    256,
+    resolveKdf(options),
+    options.onProgress
+  );
+  const wordKey = await hmacSha256(
+    keyBytes,
+    enc.encode("passw-passphrase|words")
+  );
+  const picker = uniformPicker(wordKey, "words");
+
+  const words: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const word =
+      EFF_LARGE_WORDLIST[await picker.pick(EFF_LARGE_WORDLIST.length)];
+    words.push(applyCase(word, capitalization, i));
+  }
+  if (extra !== "none") {
+    const at = await picker.pick(count);
+    if (extra === "digit" || extra === "both")
+      words[at] += DIGITS[await picker.pick(DIGITS.length)];
+    if (extra === "symbol" || extra === "both")
+      words[at] +=
+        PASSPHRASE_SYMBOLS[await picker.pick(PASSPHRASE_SYMBOLS.length)];
+  }
+  return words.join(separator);
+}
+
+// ---------- Template mode ----------
+export interface TemplateOptions
+  extends Pick<
+    GenerateOptions,
+    "context" | "iterations" | "kdf" | "onProgress" | "purpose" | "keyword"
+  > {
+  /** template pattern, e.g. "nnnnnn" or "CvccnoCvccno" (see ./templates) */
+  template: string;
+}
+
+/**
+ * Output shaped by a template such as a PIN or "Cvcc\-nnnn".
+ * Uses the same salt/context/counter derivation as v1 passwords; characters
+ * are drawn with a separate, domain-separated key and rejection sampling.
+ */
+export async function generateFromTemplate(
+  masterPhrase: string,
+  number: number,
+  options: TemplateOptions
+): Promise<string> {
+  const sets = parseTemplate(options.template);
+  const salt = await deterministicSalt(
+    options.context ?? "",
+    number,
+    undefined,
+    options
+  );
+  const keyBytes = await deriveKey(
+    masterPhrase,
+    salt,
+    256,
+    resolveKdf(options),
+    options.onProgress
+  );
+  const charKey = await hmacSha256(
+    keyBytes,
+    enc.encode("passw-template|chars")
+  );
+  const picker = uniformPicker(charKey, "chars");
+  const out: string[] = [];
+  for (const set of sets) {
+    // By code point, so an escaped emoji stays one literal character
+    const chars = Array.from(set);
+    out.push(
+      chars.length === 1 ? chars[0] : chars[await picker.pick(chars.length)]
+    );
+  }
+  return out.join("");
 }
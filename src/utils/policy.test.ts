@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { generatePassword } from "./pass-generator";
+import {
+  DIGITS,
+  generateWithPolicy,
+  validatePolicy,
+  type Picker,
+} from "./policy";
+
+// A seeded stand-in for the key-derived byte source
+function seeded(seed: number): {
+  picker: Picker;
+  shuffle: (a: string[]) => Promise<void>;
+} {
+  let s = seed;
+  const next = (n: number) => {
+    s = (s * 1103515245 + 12345) % 2 ** 31;
+    return s % n;
+  };
+  return {
+    picker: { pick: async (n) => next(n) },
+    shuffle: async (a) => {
+      for (let i = a.length - 1; i > 0; i--) {
+        const j = next(i + 1);
+        [a[i], a[j]] = [a[j], a[i]];
+      }
+    },
+  };
+}
+
+const count = (s: string, chars: string) =>
+  Array.from(s).filter((c) => chars.includes(c)).length;
+
+describe("validatePolicy", () => {
+  it("accepts a satisfiable policy", () => {
+    expect(validatePolicy({ min: { digit: 2 }, noRepeat: true }, 12)).toBe("");
+  });
+
+  it("rejects minimums above the length", () => {
+    expect(validatePolicy({ min: { digit: 5, symbol: 5 } }, 8)).toMatch(
+      /minimum counts add up to \d+, above length 8/
+    );
+  });
+
+  it("rejects maximums below the length", () => {
+    expect(
+      validatePolicy({ allowed: "ab12", max: { lower: 2, digit: 2 } }, 8)
+    ).toMatch(/maximum counts add up to 4, below length 8/);
+  });
+
+  it("names allowed characters that belong to no class", () => {
+    expect(validatePolicy({ allowed: "abcé€" }, 8)).toMatch(
+      /allowed characters "é€" are in no character class/
+    );
+    // A symbol left out of a custom symbol set is ignored too
+    expect(validatePolicy({ allowed: "ab!#", symbols: "!" }, 8)).toMatch(
+      /"#" are in no character class/
+    );
+  });
+
+  it("rejects a one-character class that cannot avoid repeats", () => {
+    const policy = {
+      allowed: "7abc",
+      min: { digit: 4 },
+      noRepeat: true,
+    };
+    expect(validatePolicy(policy, 6)).toMatch(
+      /digit: only "7" is allowed, so 4 of them cannot be kept apart in 6 characters/
+    );
+    expect(validatePolicy(policy, 7)).toBe("");
+  });
+
+  it("rejects a required class with no characters left", () => {
+    expect(
+      validatePolicy({ forbidden: DIGITS, required: ["digit"] }, 8)
+    ).toMatch(/digit characters are required but none are allowed/);
+  });
+});
+
+describe("generateWithPolicy", () => {
+  it("keeps to the allowed characters and class counts", async () => {
+    const policy = {
+      symbols: "!#",
+      forbidden: "lI0O",
+      min: { digit: 3 },
+      max: { symbol: 1 },
+    };
+    for (let seed = 1; seed <= 50; seed++) {
+      const { picker, shuffle } = seeded(seed);
+      const out = await generateWithPolicy(policy, 12, picker, shuffle);
+      expect(out).toHaveLength(12);
+      expect(out).toMatch(/^[a-zA-Z0-9!#]+$/);
+      expect(out).not.toMatch(/[lI0O]/);
+      expect(count(out, DIGITS)).toBeGreaterThanOrEqual(3);
+      expect(count(out, "!#")).toBe(1);
+    }
+  });
+
+  it("keeps a one-character class apart whatever the shuffle", async () => {
+    const policy = {
+      allowed: "7ab",
+      min: { digit: 3 },
+      max: { digit: 3 },
+      noRepeat: true,
+    };
+    for (let seed = 1; seed <= 200; seed++) {
+      const { picker, shuffle } = seeded(seed);
+      const out = await generateWithPolicy(policy, 5, picker, shuffle);
+      expect(out).toMatch(/^7[ab]7[ab]7$/);
+    }
+  });
+
+  it("never leaves repeats or sequences", async () => {
+    const policy = { allowed: "abc123", noRepeat: true, noSequential: true };
+    for (let seed = 1; seed <= 100; seed++) {
+      const { picker, shuffle } = seeded(seed);
+      const out = await generateWithPolicy(policy, 10, picker, shuffle);
+      expect(out).toHaveLength(10);
+      expect(out).not.toMatch(/(.)\1|abc|cba|123|321/);
+    }
+  });
+});
+
+describe("generatePassword with a policy", () => {
+  const options = {
+    context: "example.com",
+    length: 16,
+    iterations: 100_000,
+    policy: { allowed: DIGITS },
+  };
+
+  it("is deterministic and follows the policy", async () => {
+    const a = await generatePassword("master", 1, options);
+    expect(a).toMatch(/^\d{16}$/);
+    expect(await generatePassword("master", 1, options)).toBe(a);
+    expect(await generatePassword("master", 2, options)).not.toBe(a);
+  });
+
+  it("raises the policy error instead of generating", async () => {
+    await expect(
+      generatePassword("master", 1, {
+        ...options,
+        policy: { max: { lower: 0, upper: 0, digit: 0, symbol: 0 } },
+      })
+    ).rejects.toThrow("Password policy cannot be satisfied");
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Per-site character policy for the password generator
+ * - Character classes: lower, upper, digit, symbol (custom symbol set allowed)
+ * - Allowed/forbidden characters, min/max counts per class, required classes
+ * - Optional bans on repeated ("aa") and sequential ("abc", "321") characters
+ *
+ * Enforcement is deterministic: all choices come from a caller-supplied
+ * byte source, so the same key material always yields the same password.
+ */
+
+// ---------- Character sets ----------
+export const LOWER = "abcdefghijklmnopqrstuvwxyz";
+export const UPPER = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+export const DIGITS = "0123456789";
+export const SYMBOLS = "!@#$%^&*()-_=+[]{};:,.?/\\|~";
+
+export const CHAR_CLASSES = ["lower", "upper", "digit", "symbol"] as const;
+export type CharClass = (typeof CHAR_CLASSES)[number];
+
+export interface CharacterPolicy {
+  /** if set, only these characters may appear (applied to every class) */
+  allowed?: string;
+  /** characters that must never appear */
+  forbidden?: string;
+  /** replaces the default symbol set (letters and digits are ignored) */
+  symbols?: string;
+  /** minimum count per class */
+  min?: Partial<Record<CharClass, number>>;
+  /** maximum count per class (0 disables the class) */
+  max?: Partial<Record<CharClass, number>>;
+  /** classes that must appear at least once (default: every class with characters) */
+  required?: CharClass[];
+  /** forbid two identical characters next to each other */
+  noRepeat?: boolean;
+  /** forbid runs of three consecutive characters such as "abc" or "987" */
+  noSequential?: boolean;
+}
+
+export interface ResolvedClass {
+  name: CharClass;
+  chars: string;
+  min: number;
+  max: number;
+}
+
+/** Source of deterministic random choices in [0, n). */
+export interface Picker {
+  pick(n: number): Promise<number>;
+}
+
+// ---------- Resolution & validation ----------
+function uniqueChars(s: string): string {
+  return Array.from(new Set(Array.from(s))).join("");
+}
+
+function classChars(name: CharClass, policy: CharacterPolicy): string {
+  switch (name) {
+    case "lower":
+      return LOWER;
+    case "upper":
+      return UPPER;
+    case "digit":
+      return DIGITS;
+    case "symbol":
+      return uniqueChars(policy.symbols ?? SYMBOLS)
+        .split("")
+        .filter((c) => !/[A-Za-z0-9\s]/.test(c))
+        .join("");
+  }
+}
+
+/**
+ * Resolve a policy into concrete character classes for a given length.
+ * Throws a descriptive error when the policy cannot be satisfied.
+ */
+export function resolvePolicy(
+  policy: CharacterPolicy,
+  length: number
+): ResolvedClass[] {
+  const allowed = policy.allowed ? new Set(Array.from(policy.allowed)) : null;
+  const forbidden = new Set(Array.from(policy.forbidden ?? ""));
+  const classes: ResolvedClass[] = [];
+  const errors: string[] = [];
+
+  for (const name of CHAR_CLASSES) {
+    const chars = Array.from(classChars(name, policy))
+      .filter((c) => (!allowed || allowed.has(c)) && !forbidden.has(c))
+      .join("");
+    const max = policy.max?.[name] ?? length;
+    const required = policy.required
+      ? policy.required.includes(name)
+      : chars.length > 0 && max > 0;
+    const min = Math.max(policy.min?.[name] ?? 0, required ? 1 : 0);
+
+    if (!Number.isInteger(min) || !Number.isInteger(max) || max < 0)
+      errors.push(`${name}: min/max must be non-negative integers`);
+    else if (min > max)
+      errors.push(`${name}: minimum ${min} exceeds maximum ${max}`);
+    if (min > 0 && chars.length === 0)
+      errors.push(`${name} characters are required but none are allowed`);
+    if (chars.length > 0 && max > 0) classes.push({ name, chars, min, max });
+  }
+
+  // Allowed characters outside every class would be dropped without a word
+  if (allowed) {
+    const known = new Set(
+      CHAR_CLASSES.flatMap((name) => Array.from(classChars(name, policy)))
+    );
+    const ignored = [...allowed].filter((c) => !known.has(c));
+    if (ignored.length > 0)
+      errors.push(
+        `allowed characters ${JSON.stringify(
+          ignored.join("")
+        )} are in no character class and would be ignored`
+      );
+  }
+
+  if (errors.length === 0) {
+    const minTotal = classes.reduce((n, c) => n + c.min, 0);
+    const maxTotal = classes.reduce((n, c) => n + Math.min(c.max, length), 0);
+    if (classes.length === 0) errors.push("no characters are allowed");
+    else if (minTotal > length)
+      errors.push(
+        `minimum counts add up to ${minTotal}, above length ${length}`
+      );
+    else if (maxTotal < length)
+      errors.push(
+        `maximum counts add up to ${maxTotal}, below length ${length}`
+      );
+    else if (
+      policy.noRepeat &&
+      length > 1 &&
+      classes.reduce((n, c) => n + c.chars.length, 0) < 2
+    )
+      errors.push("a single allowed character cannot avoid repeats");
+    else if (policy.noRepeat) {
+      // A one-character class repeats its character min times; every copy
+      // needs a different character between it and the next
+      for (const c of classes) {
+        const others = classes.reduce(
+          (n, o) => n + (o === c ? 0 : Math.min(o.max, length)),
+          0
+        );
+        const room = Math.min(others + 1, Math.ceil(length / 2));
+        if (c.chars.length === 1 && c.min > room)
+          errors.push(
+            `${c.name}: only ${JSON.stringify(c.chars)} is allowed, so ${
+              c.min
+            } of them cannot be kept apart in ${length} characters`
+          );
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Password policy cannot be satisfied: ${errors.join("; ")}`
+    );
+  }
+  return classes;
+}
+
+/** Returns the policy error message, or "" when the policy is satisfiable. */
+export function validatePolicy(
+  policy: CharacterPolicy,
+  length: number
+): string {
+  try {
+    resolvePolicy(policy, length);
+    return "";
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+// ---------- Generation ----------
+function violates(out: string[], i: number, policy: CharacterPolicy): boolean {
+  const c = out[i];
+  if (policy.noRepeat && i > 0 && out[i - 1] === c) return true;
+  if (policy.noSequential && i > 1) {
+    const a = out[i - 2].codePointAt(0)!;
+    const b = out[i - 1].codePointAt(0)!;
+    const d = c.codePointAt(0)!;
+    if ((b - a === 1 && d - b === 1) || (a - b === 1 && b - d === 1))
+      return true;
+  }
+  return false;
+}
+
+const MAX_ATTEMPTS = 64;
+
+/**
+ * Lay the same characters out again, most frequent first, skipping any that
+ * would break a rule; null when even that dead-ends. The fallback for the
+ * rare arrangements the in-place repair cannot fix.
+ */
+function rearrange(chars: string[], policy: CharacterPolicy): string[] | null {
+  const left = new Map<string, number>();
+  for (const c of chars) left.set(c, (left.get(c) ?? 0) + 1);
+  const out: string[] = [];
+  while (out.length < chars.length) {
+    const next = [...left]
+      .filter(([, n]) => n > 0)
+      .sort((a, b) => b[1] - a[1])
+      .find(([c]) => {
+        out.push(c);
+        const bad = violates(out, out.length - 1, policy);
+        out.pop();
+        return !bad;
+      });
+    if (!next) return null;
+    out.push(next[0]);
+    left.set(next[0], next[1] - 1);
+  }
+  return out;
+}
+
+/**
+ * Build a password that satisfies `policy`, drawing choices from `picker`
+ * and ordering characters with `shuffle`.
+ */
+export async function generateWithPolicy(
+  policy: CharacterPolicy,
+  length: number,
+  picker: Picker,
+  shuffle: (arr: string[]) => Promise<void>
+): Promise<string> {
+  const classes = resolvePolicy(policy, length);
+  const counts = new Map<CharClass, number>();
+  const out: string[] = [];
+  const take = async (cls: ResolvedClass) => {
+    out.push(cls.chars[await picker.pick(cls.chars.length)]);
+    counts.set(cls.name, (counts.get(cls.name) ?? 0) + 1);
+  };
+
+  // Mandatory characters first, then fill from every class with capacity left
+  for (const cls of classes) {
+    for (let i = 0; i < cls.min; i++) await take(cls);
+  }
+  while (out.length < length) {
+    const open = classes.filter((c) => (counts.get(c.name) ?? 0) < c.max);
+    const pool = open.reduce((n, c) => n + c.chars.length, 0);
+    let k = await picker.pick(pool);
+    for (const cls of open) {
+      if (k < cls.chars.length) {
+        out.push(cls.chars[k]);
+        counts.set(cls.name, (counts.get(cls.name) ?? 0) + 1);
+        break;
+      }
+      k -= cls.chars.length;
+    }
+  }
+
+  await shuffle(out);
+
+  // Repair repeats/sequences in place, keeping each character's class
+  if (policy.noRepeat || policy.noSequential) {
+    for (let i = 0; i < out.length; i++) {
+      let attempts = 0;
+      while (violates(out, i, policy)) {
+        const cls = classes.find((c) => c.chars.includes(out[i]))!;
+        if (++attempts > MAX_ATTEMPTS) {
+          const fixed = rearrange(out, policy);
+          if (fixed) return fixed.join("");
+          throw new Error(
+            `Password policy cannot be satisfied: the allowed ${
+              cls.name
+            } characters ${JSON.stringify(
+              cls.chars
+            )} are too few to avoid repeats or sequences in ${length} characters`
+          );
+        }
+        if (cls.chars.length > 1) {
+          out[i] = cls.chars[await picker.pick(cls.chars.length)];
+        } else if (i < out.length - 1) {
+          // Single-character class: move it by swapping with a later position
+          const j = i + 1 + (await picker.pick(out.length - i - 1));
+          [out[i], out[j]] = [out[j], out[i]];
+        }
+      }
+    }
+  }
+  return out.join("");
+}
@@ -0,0 +1,27 @@
+/**
+ * Persistence for site profiles
+ * - Tauri build: JSON file in the app data directory (via Rust commands)
+ * - Web build: localStorage
+ */
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+import { parseProfiles, serializeProfiles, type SiteProfile } from "./profiles";
+
+const STORAGE_KEY = "passw.profiles";
+
+export async function loadProfiles(): Promise<SiteProfile[]> {
+  if (isTauri()) {
+    const json = await invoke<string | null>("load_profiles");
+    return parseProfiles(json);
+  }
+  return parseProfiles(localStorage.getItem(STORAGE_KEY));
+}
+
+export async function saveProfiles(profiles: SiteProfile[]): Promise<void> {
+  const data = serializeProfiles(profiles);
+  if (isTauri()) {
+    await invoke("save_profiles", { data });
+    return;
+  }
+  localStorage.setItem(STORAGE_KEY, data);
+}
@@ -0,0 +1,259 @@
+/**
+ * Saved site profiles: everything needed to re-derive a site's password
+ * except the master phrase. Passwords themselves are never stored.
+ *
+ * The serialized format is shared by the app (localStorage / Tauri app data)
+ * and the CLI, so keep `parseProfiles` tolerant and `serializeProfiles` stable.
+ */
+
+import { ENGINES, getEngine, type EngineId } from "./engines";
+import { fuzzySearch } from "./fuzzy";
+import {
+  ALGORITHM_VERSIONS,
+  type AlgorithmVersion,
+  type CharacterPolicy,
+} from "./pass-generator";
+import { EXTRA_PURPOSES, purposeStyle, type ExtraPurpose } from "./purposes";
+import { SPECTRE_RESULT_TYPES, type SpectreResultType } from "./spectre";
+
+/** One counter bump; see ./rotation */
+export interface Rotation {
+  /** the counter in use from this rotation on */
+  counter: number;
+  /** ISO timestamp */
+  at: string;
+  reason?: string;
+}
+
+/** A derived login name or security answer kept with the site; see ./purposes */
+export interface ProfileField {
+  purpose: ExtraPurpose;
+  /** e.g. the security question; also shown as the field's label */
+  keyword?: string;
+  /** output style id (default: the purpose's first style) */
+  style?: string;
+}
+
+export interface SiteProfile {
+  id: string;
+  /** display name, e.g. "Work Gmail" */
+  name: string;
+  /** context fed to the generator, e.g. "gmail.com" */
+  context: string;
+  /** rotation counter (the `number` argument of generatePassword) */
+  counter: number;
+  length: number;
+  algorithmVersion: AlgorithmVersion;
+  /** generator engine (default "passw"); see ./engines */
+  engine?: EngineId;
+  policy?: CharacterPolicy;
+  /** also the LessPass login */
+  username?: string;
+  /** Spectre user name */
+  fullName?: string;
+  /** Spectre result type */
+  resultType?: SpectreResultType;
+  notes?: string;
+  /** extra derived values shown with the password */
+  fields?: ProfileField[];
+  /** rotation history, oldest first */
+  rotations?: Rotation[];
+  /** flag the password once it is older than this many days */
+  maxAgeDays?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SiteProfileInput = Omit<
+  SiteProfile,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+export const PROFILES_FORMAT_VERSION = 1;
+
+interface ProfilesFile {
+  version: number;
+  profiles: SiteProfile[];
+}
+
+export function newProfileId(): string {
+  const g = globalThis as any;
+  if (typeof g?.crypto?.randomUUID === "function") return g.crypto.randomUUID();
+  return `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/** Returns a list of problems with the profile, empty when it is valid. */
+export function validateProfile(p: SiteProfileInput): string[] {
+  const errors: string[] = [];
+  if (!p.name.trim()) errors.push("name is required");
+  if (!Number.isInteger(p.counter) || p.counter < 1)
+    errors.push("counter must be a whole number >= 1");
+  if (!ALGORITHM_VERSIONS.includes(p.algorithmVersion))
+    errors.push(`unknown algorithm version: ${p.algorithmVersion}`);
+  if (p.engine !== undefined && !ENGINES.includes(p.engine)) {
+    errors.push(`unknown engine: ${p.engine}`);
+    return errors;
+  }
+  const range = getEngine(p.engine ?? "passw").lengthRange;
+  if (
+    range &&
+    (!Number.isInteger(p.length) || p.length < range[0] || p.length > range[1])
+  )
+    errors.push(`length must be between ${range[0]} and ${range[1]}`);
+  if (
+    p.maxAgeDays !== undefined &&
+    (!Number.isInteger(p.maxAgeDays) || p.maxAgeDays < 1)
+  )
+    errors.push("maximum age must be a whole number of days >= 1");
+  if (p.engine === "spectre-v3" && !p.fullName?.trim())
+    errors.push("Spectre profiles need a full name");
+  if (
+    p.resultType !== undefined &&
+    !SPECTRE_RESULT_TYPES.includes(p.resultType)
+  )
+    errors.push(`unknown Spectre result type: ${p.resultType}`);
+  const seen = new Set<string>();
+  for (const f of p.fields ?? []) {
+    if (!EXTRA_PURPOSES.includes(f.purpose)) {
+      errors.push(`unknown purpose: ${f.purpose}`);
+      continue;
+    }
+    try {
+      purposeStyle(f.purpose, f.style);
+    } catch (e: any) {
+      errors.push(e.message);
+    }
+    // Same purpose and keyword would derive the same value twice
+    const key = `${f.purpose}|${f.keyword?.trim() ?? ""}`;
+    if (seen.has(key))
+      errors.push(
+        f.keyword?.trim()
+          ? `duplicate ${f.purpose} field "${f.keyword.trim()}"`
+          : `duplicate ${f.purpose} field without a keyword`
+      );
+    seen.add(key);
+  }
+  return errors;
+}
+
+export function createProfile(
+  input: SiteProfileInput,
+  now = new Date()
+): SiteProfile {
+  const errors = validateProfile(input);
+  if (errors.length) throw new Error(`Invalid profile: ${errors.join("; ")}`);
+  const stamp = now.toISOString();
+  return { ...input, id: newProfileId(), createdAt: stamp, updatedAt: stamp };
+}
+
+export function updateProfile(
+  profile: SiteProfile,
+  patch: Partial<SiteProfileInput>,
+  now = new Date()
+): SiteProfile {
+  const next = { ...profile, ...patch };
+  const errors = validateProfile(next);
+  if (errors.length) throw new Error(`Invalid profile: ${errors.join("; ")}`);
+  return { ...next, updatedAt: now.toISOString() };
+}
+
+function reviveFields(raw: unknown): ProfileField[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const fields = raw
+    .filter((f) => f && typeof f.purpose === "string")
+    .map((f) => ({
+      purpose: f.purpose,
+      keyword: typeof f.keyword === "string" ? f.keyword : undefined,
+      style: typeof f.style === "string" ? f.style : undefined,
+    }));
+  return fields.length ? fields : undefined;
+}
+
+function reviveRotations(raw: unknown): Rotation[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const rotations = raw
+    .filter(
+      (r) =>
+        r &&
+        Number.isInteger(r.counter) &&
+        typeof r.at === "string" &&
+        !Number.isNaN(Date.parse(r.at))
+    )
+    .map((r) => ({
+      counter: r.counter,
+      at: r.at,
+      reason: typeof r.reason === "string" ? r.reason : undefined,
+    }));
+  return rotations.length ? rotations : undefined;
+}
+
+// Coerce one stored entry; returns null for entries that cannot be used
+function reviveProfile(raw: any): SiteProfile | null {
+  if (!raw || typeof raw !== "object") return null;
+  const now = new Date().toISOString();
+  const profile: SiteProfile = {
+    id: typeof raw.id === "string" && raw.id ? raw.id : newProfileId(),
+    name: String(raw.name ?? raw.context ?? ""),
+    context: String(raw.context ?? ""),
+    counter: Number(raw.counter ?? 1),
+    length: Number(raw.length ?? 20),
+    algorithmVersion: raw.algorithmVersion ?? "v1",
+    engine: typeof raw.engine === "string" ? raw.engine : undefined,
+    policy:
+      raw.policy && typeof raw.policy === "object" ? raw.policy : undefined,
+    username: typeof raw.username === "string" ? raw.username : undefined,
+    fullName: typeof raw.fullName === "string" ? raw.fullName : undefined,
+    resultType: typeof raw.resultType === "string" ? raw.resultType : undefined,
+    notes: typeof raw.notes === "string" ? raw.notes : undefined,
+    fields: reviveFields(raw.fields),
+    rotations: reviveRotations(raw.rotations),
+    maxAgeDays: typeof raw.maxAgeDays === "number" ? raw.maxAgeDays : undefined,
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : now,
+  };
+  return validateProfile(profile).length ? null : profile;
+}
+
+export function parseProfiles(json: string | null | undefined): SiteProfile[] {
+  if (!json) return [];
+  const data = JSON.parse(json) as Partial<ProfilesFile> | SiteProfile[];
+  const list = Array.isArray(data) ? data : data.profiles ?? [];
+  if (!Array.isArray(data) && (data.version ?? 1) > PROFILES_FORMAT_VERSION) {
+    throw new Error(
+      `Profiles file version ${data.version} is newer than this app supports`
+    );
+  }
+  return list.map(reviveProfile).filter((p): p is SiteProfile => p !== null);
+}
+
+export function serializeProfiles(profiles: SiteProfile[]): string {
+  const file: ProfilesFile = { version: PROFILES_FORMAT_VERSION, profiles };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Case-insensitive match on name, context, username and notes. */
+export function filterProfiles(
+  profiles: SiteProfile[],
+  query: string
+): SiteProfile[] {
+  const q = query.trim().toLowerCase();
+  const sorted = [...profiles].sort((a, b) => a.name.localeCompare(b.name));
+  if (!q) return sorted;
+  return sorted.filter((p) =>
+    [p.name, p.context, p.username ?? "", p.notes ?? ""].some((f) =>
+      f.toLowerCase().includes(q)
+    )
+  );
+}
+
+/** Fuzzy variant of `filterProfiles` for type-ahead pickers, best match first. */
+export function searchProfiles(
+  profiles: SiteProfile[],
+  query: string
+): SiteProfile[] {
+  return fuzzySearch(filterProfiles(profiles, ""), query, (p) => [
+    p.name,
+    p.context,
+    p.username ?? "",
+  ]);
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { generateFromTemplate } from "./pass-generator";
+import {
+  generateForPurpose,
+  purposeLabel,
+  purposeStyle,
+  type PurposeOptions,
+} from "./purposes";
+
+const MASTER = "correct horse battery staple";
+const options = (o: Partial<PurposeOptions>): PurposeOptions => ({
+  context: "example.com",
+  iterations: 100_000,
+  purpose: "identification",
+  ...o,
+});
+
+describe("purposeStyle", () => {
+  it("defaults to the purpose's first style", () => {
+    expect(purposeStyle("identification").id).toBe("name");
+    expect(purposeStyle("recovery").id).toBe("words");
+    expect(purposeStyle("recovery", "phrase").output).toEqual({
+      mode: "template",
+      template: "cvcc cvc cvccvcv cvc",
+    });
+  });
+
+  it("rejects an unknown style", () => {
+    expect(() => purposeStyle("recovery", "x")).toThrow(
+      "unknown recovery style: x"
+    );
+  });
+});
+
+describe("purposeLabel", () => {
+  it("prefers the keyword", () => {
+    expect(purposeLabel({ purpose: "recovery" })).toBe("Recovery answer");
+    expect(purposeLabel({ purpose: "recovery", keyword: "  " })).toBe(
+      "Recovery answer"
+    );
+    expect(purposeLabel({ purpose: "recovery", keyword: " First pet " })).toBe(
+      "First pet"
+    );
+  });
+});
+
+describe("generateForPurpose", () => {
+  it("makes pronounceable login names", async () => {
+    const name = await generateForPurpose(MASTER, 1, options({}));
+    expect(name).toMatch(
+      /^[b-df-hj-np-tv-z][aeiou][b-df-hj-np-tv-z]{2}[aeiou][b-df-hj-np-tv-z][aeiou][b-df-hj-np-tv-z][aeiou]$/
+    );
+    const digits = await generateForPurpose(
+      MASTER,
+      1,
+      options({ style: "name-digits" })
+    );
+    expect(digits).toMatch(/^[a-z]{7}[0-9]{3}$/);
+  }, 30_000);
+
+  it("makes lowercase word answers", async () => {
+    const answer = await generateForPurpose(
+      MASTER,
+      1,
+      options({ purpose: "recovery" })
+    );
+    expect(answer.split(" ")).toHaveLength(4);
+    expect(answer).toMatch(/^[a-z-]+( [a-z-]+){3}$/);
+  }, 30_000);
+
+  it("salts each purpose and keyword apart", async () => {
+    const name = await generateForPurpose(MASTER, 1, options({}));
+    const plain = await generateFromTemplate(MASTER, 1, {
+      context: "example.com",
+      iterations: 100_000,
+      template: "cvccvcvcv",
+    });
+    expect(name).not.toBe(plain);
+
+    const pet = await generateForPurpose(
+      MASTER,
+      1,
+      options({ purpose: "recovery", keyword: "first pet" })
+    );
+    const school = await generateForPurpose(
+      MASTER,
+      1,
+      options({ purpose: "recovery", keyword: "first school" })
+    );
+    expect(pet).not.toBe(school);
+    expect(
+      await generateForPurpose(
+        MASTER,
+        1,
+        options({ purpose: "recovery", keyword: "first pet" })
+      )
+    ).toBe(pet);
+  }, 60_000);
+});
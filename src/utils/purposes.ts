@@ -0,0 +1,118 @@
+/**
+ * Outputs for the non-password purposes of a site (see PURPOSES)
+ * - Each purpose has output styles that suit it: pronounceable login names,
+ *   lowercase word answers that are easy to read out on the phone
+ * - The purpose and keyword go into the salt, so a login name or answer
+ *   reveals nothing about the site's password or other answers
+ * - Profile fields use a fixed counter, so rotating the password keeps them
+ */
+
+import {
+  generateFromTemplate,
+  generatePassphrase,
+  type GenerateOptions,
+  type Purpose,
+} from "./pass-generator";
+
+export type ExtraPurpose = Exclude<Purpose, "authentication">;
+export const EXTRA_PURPOSES: readonly ExtraPurpose[] = [
+  "identification",
+  "recovery",
+];
+
+export const PURPOSE_LABELS: Record<Purpose, string> = {
+  authentication: "Password",
+  identification: "Username",
+  recovery: "Recovery answer",
+};
+
+/** Profile fields always use this counter, so rotating the password keeps them. */
+export const PURPOSE_COUNTER = 1;
+
+/** The keyword, or the purpose's name when there is none. */
+export function purposeLabel(field: {
+  purpose: Purpose;
+  keyword?: string;
+}): string {
+  return field.keyword?.trim() || PURPOSE_LABELS[field.purpose];
+}
+
+export type PurposeOutput =
+  | { mode: "template"; template: string }
+  | { mode: "passphrase"; words: number; separator: string };
+
+export interface PurposeStyle {
+  id: string;
+  name: string;
+  output: PurposeOutput;
+}
+
+export const PURPOSE_STYLES: Record<ExtraPurpose, readonly PurposeStyle[]> = {
+  identification: [
+    {
+      id: "name",
+      name: "Pronounceable name",
+      output: { mode: "template", template: "cvccvcvcv" },
+    },
+    {
+      id: "name-digits",
+      name: "Name with digits",
+      output: { mode: "template", template: "cvccvcvnnn" },
+    },
+  ],
+  recovery: [
+    {
+      id: "words",
+      name: "Lowercase words",
+      output: { mode: "passphrase", words: 4, separator: " " },
+    },
+    {
+      id: "phrase",
+      name: "Pronounceable phrase",
+      output: { mode: "template", template: "cvcc cvc cvccvcv cvc" },
+    },
+  ],
+};
+
+/** The style by id, or the purpose's first (default) style. */
+export function purposeStyle(
+  purpose: ExtraPurpose,
+  styleId?: string
+): PurposeStyle {
+  const styles = PURPOSE_STYLES[purpose];
+  if (!styles) throw new Error(`unknown purpose: ${purpose}`);
+  if (styleId === undefined) return styles[0];
+  const style = styles.find((s) => s.id === styleId);
+  if (!style) throw new Error(`unknown ${purpose} style: ${styleId}`);
+  return style;
+}
+
+export interface PurposeOptions
+  extends Pick<
+    GenerateOptions,
+    "context" | "iterations" | "kdf" | "onProgress" | "keyword"
+  > {
+  purpose: ExtraPurpose;
+  /** output style id (default: the purpose's first style) */
+  style?: string;
+}
+
+export async function generateForPurpose(
+  masterPhrase: string,
+  number: number,
+  options: PurposeOptions
+): Promise<string> {
+  const { style, ...rest } = options;
+  const { output } = purposeStyle(options.purpose, style);
+  if (output.mode === "passphrase") {
+    return generatePassphrase(masterPhrase, number, {
+      ...rest,
+      words: output.words,
+      separator: output.separator,
+    });
+  }
+  return generateFromTemplate(masterPhrase, number, {
+    ...rest,
+    template: output.template,
+  });
+}
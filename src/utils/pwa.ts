@@ -0,0 +1,135 @@
+/**
+ * Offline support for the static (GitHub Pages) build
+ * - Only `build:pages` (Vite mode "pages") ships a service worker
+ *   (src/workers/service-worker.ts); dev servers and the desktop app never
+ *   register one
+ * - Updates never apply on their own: a waiting version is handed to the UI
+ *   with its build info next to the running one, and takes over only after
+ *   `activate()`, which reloads the page
+ */
+
+import { isTauri } from "@tauri-apps/api/core";
+
+/** Written into sw.js at build time by pwa-plugin.ts. */
+export interface BuildInfo {
+  /** package.json version */
+  version: string;
+  /** hash of every precached file */
+  build: string;
+  /** precached files, relative to the app's URL */
+  files: string[];
+}
+
+export type ServiceWorkerMessage =
+  | { type: "build-info" }
+  | { type: "skip-waiting" };
+
+export interface PendingUpdate {
+  /** null when the running version did not answer */
+  current: BuildInfo | null;
+  next: BuildInfo;
+  /** files of `next` that the running version does not have */
+  changedFiles: string[];
+  activate: () => void;
+}
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+const BUILD_INFO_TIMEOUT_MS = 2000;
+
+export const offlineSupported =
+  import.meta.env.MODE === "pages" &&
+  !isTauri() &&
+  typeof navigator !== "undefined" &&
+  "serviceWorker" in navigator;
+
+function buildInfo(worker: ServiceWorker | null): Promise<BuildInfo | null> {
+  if (!worker) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(null), BUILD_INFO_TIMEOUT_MS);
+    channel.port1.onmessage = ({ data }: MessageEvent<BuildInfo>) => {
+      clearTimeout(timer);
+      resolve(data);
+    };
+    const message: ServiceWorkerMessage = { type: "build-info" };
+    worker.postMessage(message, [channel.port2]);
+  });
+}
+
+/**
+ * Registers the service worker and reports each version that is waiting to
+ * take over. Returns a function that stops listening.
+ */
+export function registerServiceWorker(
+  onUpdate: (update: PendingUpdate) => void
+): () => void {
+  if (!offlineSupported) return () => {};
+  const stop = new AbortController();
+  const { signal } = stop;
+  const sw = navigator.serviceWorker;
+  let activating = false;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const announce = async (worker: ServiceWorker) => {
+    const [current, next] = await Promise.all([
+      buildInfo(sw.controller),
+      buildInfo(worker),
+    ]);
+    if (!next || signal.aborted) return;
+    const known = new Set(current?.files ?? []);
+    onUpdate({
+      current,
+      next,
+      changedFiles: next.files.filter((f) => !known.has(f)),
+      activate: () => {
+        activating = true;
+        const message: ServiceWorkerMessage = { type: "skip-waiting" };
+        worker.postMessage(message);
+      },
+    });
+  };
+
+  sw.addEventListener(
+    "controllerchange",
+    () => {
+      if (activating) window.location.reload();
+    },
+    { signal }
+  );
+
+  sw.register("./sw.js").then(
+    (registration) => {
+      if (signal.aborted) return;
+      // The first install has no controller to replace, so nothing waits
+      if (registration.waiting && sw.controller) announce(registration.waiting);
+      registration.addEventListener(
+        "updatefound",
+        () => {
+          const worker = registration.installing;
+          worker?.addEventListener(
+            "statechange",
+            () => {
+              if (worker.state === "installed" && sw.controller)
+                announce(worker);
+            },
+            { signal }
+          );
+        },
+        { signal }
+      );
+      // Offline checks fail quietly and are retried on the next tick
+      timer = setInterval(
+        () => registration.update().catch(() => {}),
+        UPDATE_CHECK_MS
+      );
+    },
+    // Without a service worker (e.g. storage blocked in a private window)
+    // the app still runs, only not offline
+    () => {}
+  );
+
+  return () => {
+    stop.abort();
+    clearInterval(timer);
+  };
+}
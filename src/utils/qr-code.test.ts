@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import { encodeQr, qrCapacity, type QrCode } from "./qr-code";
+
+// A reader written from the standard rather than from the encoder: it finds
+// the format and version information, unmasks, reads the zigzag, checks
+// every block's Reed–Solomon syndromes and parses the byte-mode segment
+
+// Alignment pattern centres and level M block layout (ISO/IEC 18004,
+// annex E and table 9) for the versions the tests produce
+const ALIGNMENT: Record<number, number[]> = {
+  1: [],
+  2: [6, 18],
+  7: [6, 22, 38],
+  10: [6, 28, 50],
+  14: [6, 26, 46, 66],
+  40: [6, 30, 58, 86, 114, 142, 170],
+};
+const BLOCKS_M: Record<number, { ecc: number; blocks: number }> = {
+  1: { ecc: 10, blocks: 1 },
+  2: { ecc: 16, blocks: 1 },
+  7: { ecc: 18, blocks: 4 },
+  10: { ecc: 26, blocks: 5 },
+  14: { ecc: 24, blocks: 9 },
+  40: { ecc: 28, blocks: 49 },
+};
+
+const EXP = new Array<number>(512);
+const LOG = new Array<number>(256);
+for (let i = 0, x = 1; i < 255; i++, x = x & 0x80 ? (x << 1) ^ 0x11d : x << 1) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+}
+const mul = (a: number, b: number) => (a && b ? EXP[LOG[a] + LOG[b]] : 0);
+
+function syndromesAreZero(block: number[], ecc: number): boolean {
+  for (let i = 0; i < ecc; i++) {
+    let s = 0;
+    for (const c of block) s = mul(s, EXP[i]) ^ c;
+    if (s !== 0) return false;
+  }
+  return true;
+}
+
+function bch(data: number, bits: number, poly: number): number {
+  const degree = Math.floor(Math.log2(poly));
+  let rem = data << degree;
+  for (let i = bits + degree - 1; i >= degree; i--)
+    if ((rem >>> i) & 1) rem ^= poly << (i - degree);
+  return (data << degree) | rem;
+}
+
+const MASKS: ((i: number, j: number) => boolean)[] = [
+  (i, j) => (i + j) % 2 === 0,
+  (i) => i % 2 === 0,
+  (_, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i + j) % 2) + ((i * j) % 3)) % 2 === 0,
+];
+
+function decode(qr: QrCode): string {
+  const { size, modules } = qr;
+  const version = (size - 17) / 4;
+  expect(version).toBe(qr.version);
+  const at = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+
+  // Format information, both copies
+  let first = 0;
+  let second = 0;
+  // Down column 8 next to the top left finder, skipping the timing row,
+  // then left along row 8
+  for (let i = 0; i < 15; i++) {
+    const [x, y] =
+      i < 6 ? [8, i] : i < 8 ? [8, i + 1] : i === 8 ? [7, 8] : [14 - i, 8];
+    first |= at(x, y) << i;
+  }
+  for (let i = 0; i < 8; i++) second |= at(size - 1 - i, 8) << i;
+  for (let i = 8; i < 15; i++) second |= at(8, size - 15 + i) << i;
+  expect(second).toBe(first);
+  const format = first ^ 0x5412;
+  expect(bch(format >>> 10, 5, 0x537)).toBe(format);
+  expect(format >>> 13).toBe(0b00); // level M
+  const mask = MASKS[(format >>> 10) & 7];
+  expect(at(8, size - 8)).toBe(1); // the dark module
+
+  if (version >= 7) {
+    let info = 0;
+    for (let i = 0; i < 18; i++)
+      info |= at(size - 11 + (i % 3), Math.floor(i / 3)) << i;
+    expect(info).toBe(bch(version, 6, 0x1f25));
+  }
+
+  // Modules that carry data
+  const align = ALIGNMENT[version];
+  const reserved = (x: number, y: number) => {
+    if (x === 6 || y === 6) return true;
+    if (x < 9 && y < 9) return true;
+    if (x >= size - 8 && y < 9) return true;
+    if (x < 9 && y >= size - 8) return true;
+    if (version >= 7 && x >= size - 11 && x < size - 8 && y < 6) return true;
+    if (version >= 7 && y >= size - 11 && y < size - 8 && x < 6) return true;
+    return align.some((cx, a) =>
+      align.some((cy, b) => {
+        const last = align.length - 1;
+        if (
+          (a === 0 && b === 0) ||
+          (a === 0 && b === last) ||
+          (a === last && b === 0)
+        )
+          return false;
+        return Math.abs(x - cx) <= 2 && Math.abs(y - cy) <= 2;
+      })
+    );
+  };
+  const bits: number[] = [];
+  let upward = true;
+  for (let right = size - 1; right > 0; right -= 2) {
+    if (right === 6) right--;
+    for (let k = 0; k < size; k++) {
+      const y = upward ? size - 1 - k : k;
+      for (const x of [right, right - 1])
+        if (!reserved(x, y)) bits.push(at(x, y) ^ (mask(y, x) ? 1 : 0));
+    }
+    upward = !upward;
+  }
+  const total = Math.floor(bits.length / 8);
+  const codewords = Array.from({ length: total }, (_, i) =>
+    bits.slice(i * 8, i * 8 + 8).reduce((a, b) => (a << 1) | b, 0)
+  );
+
+  // De-interleave, check each block, keep the data codewords
+  const { ecc, blocks } = BLOCKS_M[version];
+  const shortLen = Math.floor(total / blocks);
+  const numShort = blocks - (total % blocks);
+  const dataLen = (b: number) => shortLen - ecc + (b < numShort ? 0 : 1);
+  const split: number[][] = Array.from({ length: blocks }, () => []);
+  let next = 0;
+  for (let i = 0; i <= shortLen - ecc; i++)
+    for (let b = 0; b < blocks; b++)
+      if (i < dataLen(b)) split[b].push(codewords[next++]);
+  for (let i = 0; i < ecc; i++)
+    for (let b = 0; b < blocks; b++) split[b].push(codewords[next++]);
+  expect(next).toBe(total);
+  split.forEach((block) => expect(syndromesAreZero(block, ecc)).toBe(true));
+  const data = split.flatMap((block, b) => block.slice(0, dataLen(b)));
+
+  // Byte mode segment
+  const stream = data.flatMap((c) =>
+    Array.from({ length: 8 }, (_, i) => (c >>> (7 - i)) & 1)
+  );
+  let pos = 0;
+  const read = (n: number) => {
+    let v = 0;
+    for (let i = 0; i < n; i++) v = (v << 1) | stream[pos++];
+    return v;
+  };
+  expect(read(4)).toBe(0b0100);
+  const length = read(version < 10 ? 8 : 16);
+  const bytes = Uint8Array.from({ length }, () => read(8));
+  // The terminator, cut short when the data fills the code
+  expect(read(Math.min(4, stream.length - pos))).toBe(0);
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+describe("qrCapacity", () => {
+  it("matches the byte-mode capacities of level M", () => {
+    expect([1, 2, 7, 10, 40].map(qrCapacity)).toEqual([14, 26, 122, 213, 2331]);
+  });
+});
+
+describe("encodeQr", () => {
+  it("picks the smallest version that fits", () => {
+    expect(encodeQr("a".repeat(14)).version).toBe(1);
+    expect(encodeQr("a".repeat(15)).version).toBe(2);
+    expect(encodeQr("a".repeat(122)).version).toBe(7);
+    expect(encodeQr("a".repeat(123)).version).toBe(8);
+    expect(encodeQr("a".repeat(2331)).version).toBe(40);
+  });
+
+  it("counts UTF-8 bytes, not characters", () => {
+    // 7 characters of 2 bytes fill version 1; one more does not fit
+    expect(encodeQr("é".repeat(7)).version).toBe(1);
+    expect(encodeQr("é".repeat(8)).version).toBe(2);
+  });
+
+  it("rejects text longer than version 40 holds", () => {
+    expect(() => encodeQr("a".repeat(2332))).toThrow("Too long for a QR code");
+  });
+
+  it.each([
+    ["a short password", "Tr0ub4dor&3"],
+    ["an empty string", ""],
+    ["version 2", "correct-horse-battery"],
+    ["multi-byte UTF-8", "pässwörd 🔑 密码"],
+    ["version 7 with version information", "x9$".repeat(40)],
+    ["16-bit length field", "Kq7!".repeat(50)],
+    ["version 14, nine blocks", "word ".repeat(70)],
+    ["version 40", "z".repeat(2331)],
+  ])("decodes %s back to the input", (_, text) => {
+    const qr = encodeQr(text);
+    expect(decode(qr)).toBe(text);
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * QR code encoder (ISO/IEC 18004), for showing a password to a phone
+ * - Byte mode (UTF-8) at error correction level M, versions 1–40; the
+ *   smallest version that fits is used
+ * - Pure TypeScript: nothing leaves the device, no third-party service
+ * - Follows the structure of Project Nayuki's reference implementation
+ */
+
+export interface QrCode {
+  version: number;
+  /** modules per side, without the quiet zone */
+  size: number;
+  /** dark modules, indexed [y][x] */
+  modules: boolean[][];
+}
+
+// Level M, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+  26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28,
+];
+const NUM_ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17,
+  18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+/** Format bits of level M */
+const ECL_BITS = 0;
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+// ---------- Capacity ----------
+/** Modules left for data and error correction codewords. */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * NUM_ECC_BLOCKS[version]
+  );
+}
+
+function countBits(version: number): number {
+  return version < 10 ? 8 : 16;
+}
+
+/** The most bytes a code of this version holds. */
+export function qrCapacity(version: number): number {
+  return Math.floor((dataCodewords(version) * 8 - 4 - countBits(version)) / 8);
+}
+
+// ---------- Reed–Solomon over GF(2^8), polynomial 0x11D ----------
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/** Error correction codewords of `data`. */
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+  }
+  return result;
+}
+
+// ---------- Codewords ----------
+function dataBits(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, countBits(version));
+  bytes.forEach((b) => push(b, 8));
+  const capacity = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+  return bits;
+}
+
+function toCodewords(bits: number[]): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < bits.length; i += 8)
+    result.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+  return result;
+}
+
+// Splits the data into blocks, appends each block's error correction and
+// interleaves them, short blocks first
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ECC_BLOCKS[version];
+  const eccLen = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = rsDivisor(eccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const len = shortBlockLen - eccLen + (i < numShortBlocks ? 0 : 1);
+    const dat = data.slice(k, k + len);
+    k += len;
+    const ecc = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding of short blocks
+      if (i !== shortBlockLen - eccLen || j >= numShortBlocks)
+        result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+// ---------- Matrix ----------
+class Matrix {
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly size = version * 4 + 17) {
+    this.modules = Array.from({ length: size }, () =>
+      new Array<boolean>(size).fill(false)
+    );
+    this.isFunction = this.modules.map((row) => row.slice());
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+    const align = this.alignmentPositions();
+    const last = align.length - 1;
+    align.forEach((x, i) =>
+      align.forEach((y, j) => {
+        // The finder patterns take these three corners
+        if (
+          (i === 0 && j === 0) ||
+          (i === 0 && j === last) ||
+          (i === last && j === 0)
+        )
+          return;
+        this.drawAlignment(x, y);
+      })
+    );
+    // Reserve the format areas; drawFormatBits fills them per mask
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFinder(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size)
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+
+  drawAlignment(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++)
+      for (let dx = -2; dx <= 2; dx++)
+        this.setFunction(
+          x + dx,
+          y + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+        );
+  }
+
+  alignmentPositions(): number[] {
+    if (this.version === 1) return [];
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step =
+      Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) *
+      2;
+    const result = [6];
+    for (let pos = this.size - 7; result.length < numAlign; pos -= step)
+      result.splice(1, 0, pos);
+    return result;
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECL_BITS << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    const { size } = this;
+    // Around the top left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+    // Copy next to the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  drawVersion() {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  // Zigzag through two-column strips from the bottom right, skipping the
+  // vertical timing pattern
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] =
+              ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskBit(mask, x, y))
+          this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// ---------- Mask selection ----------
+// Penalty of one row or column: runs of five or more (N1) and finder-like
+// 1:1:3:1:1 patterns with four light modules on a side (N3)
+function linePenalty(line: boolean[]): number {
+  let penalty = 0;
+  let run = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      run++;
+      continue;
+    }
+    if (run >= 5) penalty += PENALTY_N1 + run - 5;
+    run = 1;
+  }
+  const dark = (i: number) => i >= 0 && i < line.length && line[i];
+  const light = (from: number, to: number) => {
+    for (let i = from; i < to; i++) if (dark(i)) return false;
+    return true;
+  };
+  const finder = [true, false, true, true, true, false, true];
+  for (let i = 0; i + 7 <= line.length; i++) {
+    if (!finder.every((d, k) => line[i + k] === d)) continue;
+    if (light(i - 4, i)) penalty += PENALTY_N3;
+    if (light(i + 7, i + 11)) penalty += PENALTY_N3;
+  }
+  return penalty;
+}
+
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    penalty += linePenalty(modules[y]);
+    penalty += linePenalty(modules.map((row) => row[y]));
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      )
+        penalty += PENALTY_N2;
+    }
+  }
+  // N4: every 5% the dark share strays from 50%
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  return penalty + Math.max(0, k) * PENALTY_N4;
+}
+
+// ---------- Encoder ----------
+/** Encode text as a QR code; throws when it is too long for version 40. */
+export function encodeQr(text: string): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (qrCapacity(version) < bytes.length) {
+    if (++version > 40) throw new Error("Too long for a QR code");
+  }
+  const codewords = addEccAndInterleave(
+    toCodewords(dataBits(bytes, version)),
+    version
+  );
+  const matrix = new Matrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(codewords);
+
+  let best: boolean[][] = [];
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = penaltyScore(matrix.modules);
+    if (penalty < bestPenalty) {
+      best = matrix.modules.map((row) => row.slice());
+      bestPenalty = penalty;
+    }
+    // Masks are XOR: applying one again undoes it
+    matrix.applyMask(mask);
+  }
+  return { version, size: matrix.size, modules: best };
+}
+
+/** SVG path data with one unit square per dark module, offset by `margin`. */
+export function qrSvgPath(qr: QrCode, margin = 4): string {
+  const parts: string[] = [];
+  qr.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    })
+  );
+  return parts.join("");
+}
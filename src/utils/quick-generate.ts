@@ -0,0 +1,118 @@
+/**
+ * Quick-generate popup of the desktop app (tray icon / global shortcut)
+ * - The popup is a second window; the main window stays the only owner of
+ *   the unlocked session, the derivation worker and the clipboard timer
+ * - The popup sends a profile id, plus the phrase when one is needed, as a
+ *   Tauri event; the main window generates, copies and replies with the
+ *   outcome only, so the password never leaves the main window
+ * - Session changes are pushed to the popup so it can skip the phrase
+ * - Focus moving from the main window to the popup is not leaving the app,
+ *   so it does not trigger the session's lock on blur
+ */
+
+import { emitTo, listen, type UnlistenFn } from "@tauri-apps/api/event";
+import { Window } from "@tauri-apps/api/window";
+
+/** Window labels, as in src-tauri/tauri.conf.json */
+export const MAIN_WINDOW = "main";
+export const QUICK_WINDOW = "quick";
+
+const REQUEST_EVENT = "quick-generate";
+const RESULT_EVENT = "quick-generate-result";
+const SESSION_EVENT = "quick-session";
+
+interface QuickRequest {
+  id: number;
+  profileId: string;
+  master: string;
+}
+
+interface QuickResult {
+  id: number;
+  error?: string;
+}
+
+let nextId = 1;
+
+/** Time for focus to arrive in the other window after a blur. */
+const FOCUS_SETTLE_MS = 150;
+
+const focusSettled = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, FOCUS_SETTLE_MS));
+
+/** Main window: serve popup requests with `handle`, which generates and copies. */
+export function serveQuickGenerate(
+  handle: (profileId: string, master: string) => Promise<void>
+): Promise<UnlistenFn> {
+  return listen<QuickRequest>(REQUEST_EVENT, async ({ payload }) => {
+    let error: string | undefined;
+    try {
+      await handle(payload.profileId, payload.master);
+    } catch (e: any) {
+      error = e?.message ?? String(e);
+    }
+    await emitTo<QuickResult>(QUICK_WINDOW, RESULT_EVENT, {
+      id: payload.id,
+      error,
+    });
+  });
+}
+
+/** Popup: have the main window copy the site's password; rejects with its error. */
+export async function requestQuickGenerate(
+  profileId: string,
+  master: string
+): Promise<void> {
+  const id = nextId++;
+  let settle!: (result: QuickResult) => void;
+  const done = new Promise<QuickResult>((resolve) => (settle = resolve));
+  const unlisten = await listen<QuickResult>(RESULT_EVENT, ({ payload }) => {
+    if (payload.id === id) settle(payload);
+  });
+  try {
+    await emitTo<QuickRequest>(MAIN_WINDOW, REQUEST_EVENT, {
+      id,
+      profileId,
+      master,
+    });
+    const { error } = await done;
+    if (error) throw new Error(error);
+  } finally {
+    unlisten();
+  }
+}
+
+/** Main window: tell the popup whether the session is unlocked. */
+export function publishSession(unlocked: boolean): Promise<void> {
+  return emitTo(QUICK_WINDOW, SESSION_EVENT, unlocked);
+}
+
+export function subscribeMainSession(
+  listener: (unlocked: boolean) => void
+): Promise<UnlistenFn> {
+  return listen<boolean>(SESSION_EVENT, ({ payload }) => listener(payload));
+}
+
+/**
+ * Main window, on blur: call `onLeave` once focus is in neither window. When
+ * the popup took focus, waits for it to lose focus in turn; the returned
+ * function stops waiting.
+ */
+export async function onFocusLeavesApp(
+  onLeave: () => void
+): Promise<UnlistenFn> {
+  await focusSettled();
+  if (document.hasFocus()) return () => {};
+  const quick = await Window.getByLabel(QUICK_WINDOW);
+  if (!quick || !(await quick.isFocused())) {
+    onLeave();
+    return () => {};
+  }
+  const unlisten = await quick.onFocusChanged(async ({ payload: focused }) => {
+    if (focused) return;
+    unlisten();
+    await focusSettled();
+    if (!document.hasFocus()) onLeave();
+  });
+  return unlisten;
+}
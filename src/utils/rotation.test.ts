@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { SiteProfile } from "./profiles";
+import {
+  COUNTER_HISTORY_LIMIT,
+  counterHistory,
+  isOverdue,
+  overdueSites,
+  passwordAgeDays,
+  rotateProfile,
+  sitesNotRotatedSince,
+} from "./rotation";
+
+const site = (
+  counter: number,
+  rotated: number[] = [],
+  extra: Partial<SiteProfile> = {}
+): SiteProfile => ({
+  id: "1",
+  name: "example",
+  context: "example.com",
+  counter,
+  length: 16,
+  algorithmVersion: "v3",
+  rotations: rotated.map((c) => ({ counter: c, at: "2024-01-01T00:00:00Z" })),
+  createdAt: "2023-01-01T00:00:00Z",
+  updatedAt: "2024-01-01T00:00:00Z",
+  ...extra,
+});
+
+const NOW = new Date("2024-03-01T00:00:00Z");
+
+describe("rotateProfile", () => {
+  it("bumps the counter and records when and why", () => {
+    const rotated = rotateProfile(site(1), "  breach  ", NOW);
+    expect(rotated.counter).toBe(2);
+    expect(rotated.rotations).toEqual([
+      { counter: 2, at: NOW.toISOString(), reason: "breach" },
+    ]);
+    expect(rotateProfile(rotated, " ", NOW).rotations?.[1].reason).toBe(
+      undefined
+    );
+  });
+});
+
+describe("password age", () => {
+  it("runs from the rotation that set the counter", () => {
+    expect(passwordAgeDays(site(2, [2]), NOW)).toBe(60);
+    // No rotation recorded for the counter: from the profile's creation
+    expect(passwordAgeDays(site(2), NOW)).toBe(425);
+  });
+
+  it("flags sites past their maximum age, oldest first", () => {
+    const fresh = site(2, [2], { id: "fresh", maxAgeDays: 90 });
+    const stale = site(1, [], { id: "stale", maxAgeDays: 90 });
+    const unlimited = site(1, [], { id: "unlimited" });
+    expect(isOverdue(fresh, NOW)).toBe(false);
+    expect(isOverdue(stale, NOW)).toBe(true);
+    expect(isOverdue(unlimited, NOW)).toBe(false);
+    expect(
+      overdueSites([fresh, stale, unlimited], NOW).map((s) => s.profile.id)
+    ).toEqual(["stale"]);
+  });
+
+  it("reports sites not rotated since a breach", () => {
+    const before = site(1, [], { id: "before" });
+    const after = site(2, [2], { id: "after" });
+    const report = sitesNotRotatedSince(
+      [after, before],
+      new Date("2023-06-01T00:00:00Z"),
+      NOW
+    );
+    expect(report.map((s) => s.profile.id)).toEqual(["before"]);
+    expect(report[0]).toMatchObject({
+      setAt: "2023-01-01T00:00:00Z",
+      ageDays: 425,
+    });
+  });
+});
+
+describe("counterHistory", () => {
+  it("lists every counter of a lightly rotated site", () => {
+    const entries = counterHistory(site(3, [2, 3]));
+    expect(entries.map((e) => e.counter)).toEqual([3, 2, 1]);
+    expect(entries.map((e) => e.current)).toEqual([true, false, false]);
+    expect(entries[2].rotation).toBeUndefined();
+  });
+
+  it("caps a huge counter to recent and recorded rotations", () => {
+    const entries = counterHistory(site(1_000_000_000, [5]));
+    expect(entries).toHaveLength(COUNTER_HISTORY_LIMIT + 1);
+    expect(entries[0]).toMatchObject({ counter: 1_000_000_000, current: true });
+    const oldest = entries[entries.length - 1];
+    expect(oldest).toMatchObject({ counter: 5, current: false });
+    expect(oldest.rotation).toBeDefined();
+  });
+});
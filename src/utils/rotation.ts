@@ -0,0 +1,137 @@
+/**
+ * Password rotation and age tracking for site profiles
+ * - Rotating bumps the counter (the `number` argument of the generators)
+ *   and records when and why; older counters stay derivable for a last login
+ * - A password's age runs from the rotation that introduced its counter, or
+ *   from the profile's creation when there is none
+ */
+
+import { updateProfile, type Rotation, type SiteProfile } from "./profiles";
+
+/** Maximum ages offered in the UI, in days. */
+export const MAX_AGE_CHOICES = [30, 90, 180, 365] as const;
+
+const DAY_MS = 86_400_000;
+
+export interface CounterEntry {
+  counter: number;
+  current: boolean;
+  /** the rotation that introduced this counter, when recorded */
+  rotation?: Rotation;
+}
+
+export interface AgedSite {
+  profile: SiteProfile;
+  /** ISO timestamp from which the current password has been in use */
+  setAt: string;
+  ageDays: number;
+}
+
+function rotationFor(
+  profile: SiteProfile,
+  counter: number
+): Rotation | undefined {
+  const rotations = profile.rotations ?? [];
+  for (let i = rotations.length - 1; i >= 0; i--) {
+    if (rotations[i].counter === counter) return rotations[i];
+  }
+  return undefined;
+}
+
+/** When the current counter came into use. */
+export function passwordSetAt(profile: SiteProfile): string {
+  return rotationFor(profile, profile.counter)?.at ?? profile.createdAt;
+}
+
+export function passwordAgeDays(
+  profile: SiteProfile,
+  now = new Date()
+): number {
+  const ms = now.getTime() - Date.parse(passwordSetAt(profile));
+  return Math.max(0, Math.floor(ms / DAY_MS));
+}
+
+export function isOverdue(profile: SiteProfile, now = new Date()): boolean {
+  return (
+    profile.maxAgeDays !== undefined &&
+    passwordAgeDays(profile, now) > profile.maxAgeDays
+  );
+}
+
+/** Next counter, with the date and reason recorded in the history. */
+export function rotateProfile(
+  profile: SiteProfile,
+  reason?: string,
+  now = new Date()
+): SiteProfile {
+  const counter = profile.counter + 1;
+  const rotation: Rotation = {
+    counter,
+    at: now.toISOString(),
+    reason: reason?.trim() || undefined,
+  };
+  return updateProfile(
+    profile,
+    { counter, rotations: [...(profile.rotations ?? []), rotation] },
+    now
+  );
+}
+
+/** Recent counters listed by `counterHistory`, the current one included. */
+export const COUNTER_HISTORY_LIMIT = 10;
+
+/**
+ * Counters the site has used, newest first: the last
+ * COUNTER_HISTORY_LIMIT, plus older ones a recorded rotation introduced.
+ */
+export function counterHistory(profile: SiteProfile): CounterEntry[] {
+  const counters = new Set<number>();
+  const oldest = Math.max(1, profile.counter - COUNTER_HISTORY_LIMIT + 1);
+  for (let c = profile.counter; c >= oldest; c--) counters.add(c);
+  for (const r of profile.rotations ?? []) {
+    if (r.counter >= 1 && r.counter <= profile.counter) counters.add(r.counter);
+  }
+  return [...counters]
+    .sort((a, b) => b - a)
+    .map((c) => ({
+      counter: c,
+      current: c === profile.counter,
+      rotation: rotationFor(profile, c),
+    }));
+}
+
+function aged(profiles: SiteProfile[], now: Date): AgedSite[] {
+  return profiles
+    .map((profile) => ({
+      profile,
+      setAt: passwordSetAt(profile),
+      ageDays: passwordAgeDays(profile, now),
+    }))
+    .sort((a, b) => b.ageDays - a.ageDays);
+}
+
+/** Sites past their maximum age, oldest password first. */
+export function overdueSites(
+  profiles: SiteProfile[],
+  now = new Date()
+): AgedSite[] {
+  return aged(
+    profiles.filter((p) => isOverdue(p, now)),
+    now
+  );
+}
+
+/**
+ * Forced rotation report: sites whose current password was already in use
+ * at `since` (e.g. the date of a breach), oldest password first.
+ */
+export function sitesNotRotatedSince(
+  profiles: SiteProfile[],
+  since: Date,
+  now = new Date()
+): AgedSite[] {
+  return aged(
+    profiles.filter((p) => Date.parse(passwordSetAt(p)) < since.getTime()),
+    now
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * Save a file the user asked for, such as a batch export
+ * - Tauri build: written to the Downloads folder by a Rust command, readable
+ *   by the user only, never replacing an existing file
+ * - Web build: an ordinary browser download
+ */
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+
+/** Where the file went on desktop; null when the browser downloads it. */
+export async function saveFile(
+  name: string,
+  data: Uint8Array
+): Promise<string | null> {
+  if (isTauri())
+    return invoke<string>("save_export", { name, data: Array.from(data) });
+  const url = URL.createObjectURL(
+    new Blob([data], { type: "application/octet-stream" })
+  );
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Give the download a moment to start before dropping the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return null;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { KNOWN_ANSWERS, runSelfTest } from "./self-test";
+
+// The startup self-test's vectors, as tests: primitives, every algorithm
+// version (v1–v3), output mode and purpose, and the compatibility engines.
+// A changed generator vector means existing passwords changed.
+describe("known answers", () => {
+  it.each(KNOWN_ANSWERS.map((v) => [v.id, v] as const))(
+    "%s",
+    async (_, vector) => {
+      expect(await vector.run()).toBe(vector.expected);
+    },
+    30_000
+  );
+
+  it("reports a wrong vector with what it got", async () => {
+    const report = await runSelfTest([
+      { id: "bad", covers: "test", expected: "x", run: async () => "y" },
+    ]);
+    expect(report.ok).toBe(false);
+    expect(report.failures).toEqual([
+      { id: "bad", covers: "test", expected: "x", actual: "y" },
+    ]);
+  });
+});
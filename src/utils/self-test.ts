@@ -0,0 +1,388 @@
+/**
+ * Known-answer self-test
+ * - A password is only reproducible if every runtime (Tauri's WebView,
+ *   browsers, the Node CLI) computes the same bytes, so each layer is pinned:
+ *   Web Crypto primitives, NFKC normalisation, the pure-TS KDFs, every
+ *   algorithm version, output mode and purpose, and the compatibility engines
+ * - The `kdf-*` and generator vectors go through `deriveKey`, so in the
+ *   Tauri build they check the native backend against the TypeScript one
+ * - Primitive and engine vectors are published ones (RFCs, LessPass,
+ *   Spectre); generator vectors were recorded from the reference build
+ * - Generation is refused while any vector fails (see `assertSelfTest`)
+ * - `pnpm test` runs the same vectors (self-test.test.ts), plus more
+ *   published engine vectors in lesspass.test.ts and spectre.test.ts
+ *
+ * Never "fix" a generator vector by updating the expected value: a change
+ * there means existing passwords changed.
+ */
+
+import { enc, hmacSha256, normText, pbkdf2Sha256, sha256 } from "./crypto";
+import { __internal, deriveKey } from "./kdf";
+import { generateLessPass } from "./lesspass";
+import {
+  generateFromTemplate,
+  generatePassphrase,
+  generatePassword,
+} from "./pass-generator";
+import { generateForPurpose } from "./purposes";
+import { renderSpectrePassword, spectreKeyId, spectreSiteKey } from "./spectre";
+
+export interface KnownAnswer {
+  id: string;
+  /** what a failure means, shown in the diagnostic */
+  covers: string;
+  expected: string;
+  run: () => Promise<string>;
+}
+
+export interface SelfTestFailure {
+  id: string;
+  covers: string;
+  expected: string;
+  /** the value produced, or the error message when the check threw */
+  actual: string;
+}
+
+export interface SelfTestReport {
+  ok: boolean;
+  checked: number;
+  failures: SelfTestFailure[];
+  ms: number;
+}
+
+const toHex = (b: Uint8Array) =>
+  Array.from(b, (x) => x.toString(16).padStart(2, "0")).join("");
+
+function fromHex(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++)
+    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+const MASTER = "correct horse battery staple";
+// The lowest accepted PBKDF2 cost keeps the self-test well under a second
+const ITERATIONS = 100_000;
+const SALT = new Uint8Array(16).map((_, i) => i);
+// Spectre master key of "Robert Lee Mitchell" / "banana colored duckling";
+// pinned to skip scrypt, and checked against the published key ID below
+const SPECTRE_MASTER_KEY =
+  "184c2ace25bb71817acaa4864b719315b159113234b2a2bf5690e87d67ac2afbc3480f6dc2671ccee6f0c085e6e24020c3a6aff2367bd9f23ac2cd68a84a5fc2";
+
+export const KNOWN_ANSWERS: readonly KnownAnswer[] = [
+  {
+    id: "sha256",
+    covers: "SHA-256 (FIPS 180-2)",
+    expected:
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    run: async () => toHex(await sha256(enc.encode("abc"))),
+  },
+  {
+    id: "hmac-sha256",
+    covers: "HMAC-SHA-256 (RFC 4231 case 2)",
+    expected:
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+    run: async () =>
+      toHex(
+        await hmacSha256(
+          enc.encode("Jefe"),
+          enc.encode("what do ya want for nothing?")
+        )
+      ),
+  },
+  {
+    id: "pbkdf2-sha256",
+    covers: "PBKDF2-SHA-256 (RFC 7914 section 11)",
+    expected:
+      "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783",
+    run: async () =>
+      toHex(
+        await pbkdf2Sha256(enc.encode("passwd"), enc.encode("salt"), 1, 512)
+      ),
+  },
+  {
+    id: "nfkc",
+    covers: "Unicode NFKC normalisation of phrases and contexts",
+    expected: "fiÅAé",
+    run: async () => normText(" ﬁÅＡé "),
+  },
+  {
+    id: "scrypt",
+    covers: "scrypt (RFC 7914 section 12, vector 1)",
+    expected:
+      "77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906",
+    run: async () =>
+      toHex(
+        await __internal.scrypt(new Uint8Array(0), new Uint8Array(0), {
+          cost: 16,
+          blockSize: 1,
+          parallelism: 1,
+          keyLength: 64,
+        })
+      ),
+  },
+  {
+    id: "argon2id",
+    covers: "Argon2id (RFC 9106 section 5.3)",
+    expected:
+      "0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659",
+    run: async () =>
+      toHex(
+        __internal.argon2id(
+          new Uint8Array(32).fill(1),
+          new Uint8Array(16).fill(2),
+          {
+            memoryKiB: 32,
+            timeCost: 3,
+            parallelism: 4,
+            tagLength: 32,
+            secret: new Uint8Array(8).fill(3),
+            associatedData: new Uint8Array(12).fill(4),
+          }
+        )
+      ),
+  },
+  {
+    id: "kdf-pbkdf2",
+    covers: "deriveKey with PBKDF2 (native backend under Tauri)",
+    expected:
+      "49d49c25f597846209f0d92e7770ab64e1c75e94b4ce6c509265ee67175d2a1e774b608062dc707de6ae4a581af6282218af5793bd94e935a75bb21f74f7848c",
+    run: async () =>
+      toHex(
+        await deriveKey(MASTER, SALT, 512, {
+          algorithm: "pbkdf2",
+          iterations: ITERATIONS,
+        })
+      ),
+  },
+  {
+    id: "kdf-argon2id",
+    covers: "deriveKey with Argon2id (native backend under Tauri)",
+    expected:
+      "9992982626d0fa7b38ee9ce8e7951eeb239679653fcbb197fd39264d51652da5",
+    run: async () =>
+      toHex(
+        await deriveKey(MASTER, SALT, 256, {
+          algorithm: "argon2id",
+          memoryKiB: 256,
+          timeCost: 2,
+          parallelism: 2,
+        })
+      ),
+  },
+  {
+    id: "kdf-scrypt",
+    covers: "deriveKey with scrypt (native backend under Tauri)",
+    expected:
+      "c24efd12db42eb5f26eb5ee88ab4a12d9bb12645dc5faad71ebad2f6b410ff8e3f3f2cd6784dca59b01095d58889062f2827af8cd335f511b780403e1d0208cb",
+    run: async () =>
+      toHex(
+        await deriveKey(MASTER, SALT, 512, {
+          algorithm: "scrypt",
+          cost: 1024,
+          blockSize: 8,
+          parallelism: 2,
+        })
+      ),
+  },
+  {
+    id: "v1",
+    covers: "algorithm v1 passwords (byte mapping and shuffle)",
+    expected: "J0|h5Viu\\b{,$saBr:gV",
+    run: () =>
+      generatePassword(MASTER, 3, {
+        context: "gmail.com",
+        length: 20,
+        iterations: ITERATIONS,
+      }),
+  },
+  {
+    id: "v1-unicode",
+    covers: "algorithm v1 with a non-ASCII phrase and context",
+    expected: "-9^Ja3Ww",
+    run: () =>
+      generatePassword("ﬁ master ", 7, {
+        context: "Ünïcode ",
+        length: 8,
+        iterations: ITERATIONS,
+      }),
+  },
+  {
+    id: "v1-policy",
+    covers: "algorithm v1 with a character policy",
+    expected: "qepPMEqm1zWhQ-1B",
+    run: () =>
+      generatePassword(MASTER, 2, {
+        context: "example.com",
+        length: 16,
+        iterations: ITERATIONS,
+        policy: { symbols: "-_", min: { digit: 2 }, noRepeat: true },
+      }),
+  },
+  {
+    id: "v2",
+    covers: "algorithm v2 passwords (uniform sampling)",
+    expected: ";TZX4M7qm2y-CSY6dL09C&F\\",
+    run: () =>
+      generatePassword(MASTER, 1, {
+        context: "example.com",
+        length: 24,
+        iterations: ITERATIONS,
+        algorithmVersion: "v2",
+      }),
+  },
+  {
+    id: "v3",
+    covers: "algorithm v3 passwords (session key and HKDF)",
+    expected: "P\\WNt(@8}M{k!i]eL~@3fC(!",
+    run: () =>
+      generatePassword(MASTER, 1, {
+        context: "example.com",
+        length: 24,
+        iterations: ITERATIONS,
+        algorithmVersion: "v3",
+      }),
+  },
+  {
+    id: "passphrase",
+    covers: "EFF wordlist passphrases",
+    expected: "Skirmish-Spotter-Scarecrow-Rush8=-Cobbler-Resent",
+    run: () =>
+      generatePassphrase(MASTER, 1, {
+        context: "example.com",
+        iterations: ITERATIONS,
+        words: 6,
+        capitalization: "title",
+        extra: "both",
+      }),
+  },
+  {
+    id: "template",
+    covers: "template passwords",
+    expected: "Xiwf-5949,U9",
+    run: () =>
+      generateFromTemplate(MASTER, 1, {
+        context: "example.com",
+        iterations: ITERATIONS,
+        template: "Cvcc\\-nnnnoxx",
+      }),
+  },
+  {
+    id: "identification",
+    covers: "derived usernames (purpose-separated salt)",
+    expected: "jivxojobi",
+    run: () =>
+      generateForPurpose(MASTER, 1, {
+        context: "example.com",
+        iterations: ITERATIONS,
+        purpose: "identification",
+      }),
+  },
+  {
+    id: "recovery",
+    covers: "recovery answers (purpose and keyword in the salt)",
+    expected: "dilute magician gristle untoasted",
+    run: () =>
+      generateForPurpose(MASTER, 1, {
+        context: "example.com",
+        iterations: ITERATIONS,
+        purpose: "recovery",
+        keyword: "first pet",
+      }),
+  },
+  {
+    id: "lesspass-v2",
+    covers: "LessPass v2 engine (published vector)",
+    expected: "WHLpUL)e00[iHR+w",
+    run: () =>
+      generateLessPass("password", {
+        site: "example.org",
+        login: "contact@example.org",
+        counter: 1,
+        length: 16,
+      }),
+  },
+  {
+    id: "spectre-v3-key-id",
+    covers: "Spectre v3 master key (published key ID)",
+    expected:
+      "98EEF4D1DF46D849574A82A03C3177056B15DFFCA29BB3899DE4628453675302",
+    run: () => spectreKeyId(fromHex(SPECTRE_MASTER_KEY)),
+  },
+  {
+    id: "spectre-v3",
+    covers: "Spectre v3 engine (published vector)",
+    expected: "Jejr5[RepuSosp",
+    run: async () =>
+      renderSpectrePassword(
+        await spectreSiteKey(
+          fromHex(SPECTRE_MASTER_KEY),
+          "masterpasswordapp.com",
+          1
+        ),
+        "long"
+      ),
+  },
+];
+
+async function check(vector: KnownAnswer): Promise<SelfTestFailure | null> {
+  let actual: string;
+  try {
+    actual = await vector.run();
+  } catch (e: any) {
+    actual = `error: ${e?.message ?? e}`;
+  }
+  if (actual === vector.expected) return null;
+  const { id, covers, expected } = vector;
+  return { id, covers, expected, actual };
+}
+
+/** Run every vector; Web Crypto calls run concurrently. */
+export async function runSelfTest(
+  vectors: readonly KnownAnswer[] = KNOWN_ANSWERS
+): Promise<SelfTestReport> {
+  const start = performance.now();
+  const results = await Promise.all(vectors.map(check));
+  const failures = results.filter((f): f is SelfTestFailure => f !== null);
+  return {
+    ok: failures.length === 0,
+    checked: vectors.length,
+    failures,
+    ms: Math.round(performance.now() - start),
+  };
+}
+
+let cached: Promise<SelfTestReport> | null = null;
+
+/** The self-test result for this runtime, computed once. */
+export function selfTest(): Promise<SelfTestReport> {
+  cached ??= runSelfTest();
+  return cached;
+}
+
+export class SelfTestError extends Error {
+  constructor(readonly report: SelfTestReport) {
+    super(describeSelfTestFailure(report));
+    this.name = "SelfTestError";
+  }
+}
+
+/** Multi-line diagnostic naming each failed vector. */
+export function describeSelfTestFailure(report: SelfTestReport): string {
+  const lines = [
+    `Crypto self-test failed (${report.failures.length} of ${report.checked} known answers). ` +
+      "This runtime would produce passwords that differ from other devices, so generation is disabled.",
+  ];
+  for (const f of report.failures) {
+    lines.push(`- ${f.id}: ${f.covers}`);
+    lines.push(`  expected ${f.expected}`);
+    lines.push(`  got      ${f.actual}`);
+  }
+  return lines.join("\n");
+}
+
+/** Resolves when the self-test passed; throws a SelfTestError otherwise. */
+export async function assertSelfTest(): Promise<void> {
+  const report = await selfTest();
+  if (!report.ok) throw new SelfTestError(report);
+}
@@ -0,0 +1,69 @@
+/**
+ * Unlocked v3 session: holds the non-extractable session key between
+ * generations and forgets it on lock.
+ * - Web Crypto cannot zero a CryptoKey; locking drops the only reference
+ *   (the raw bits were already wiped by `deriveSessionKey`)
+ * - The idle timer restarts on every `touchSession()` and session use
+ */
+
+import { generateWithSessionKey, type GenerateOptions } from "./pass-generator";
+
+export const AUTO_LOCK_MINUTES = [1, 5, 15, 60] as const;
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+type Listener = (unlocked: boolean) => void;
+
+let sessionKey: CryptoKey | null = null;
+let idleMs = DEFAULT_AUTO_LOCK_MINUTES * 60_000;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+
+function notify(): void {
+  listeners.forEach((l) => l(sessionKey !== null));
+}
+
+export function isUnlocked(): boolean {
+  return sessionKey !== null;
+}
+
+/** Restart the idle countdown; no-op while locked. */
+export function touchSession(): void {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = sessionKey ? setTimeout(lockSession, idleMs) : null;
+}
+
+export function setAutoLockMinutes(minutes: number): void {
+  idleMs = minutes * 60_000;
+  touchSession();
+}
+
+export function startSession(key: CryptoKey): void {
+  sessionKey = key;
+  touchSession();
+  notify();
+}
+
+export function lockSession(): void {
+  if (!sessionKey) return;
+  sessionKey = null;
+  touchSession();
+  notify();
+}
+
+/** Called with the new state on every lock and unlock; returns an unsubscribe function. */
+export function subscribeSession(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** v3 password for one site from the unlocked session. */
+export async function sessionPassword(
+  number: number,
+  options: Pick<GenerateOptions, "context" | "length" | "policy">
+): Promise<string> {
+  if (!sessionKey) throw new Error("Session is locked");
+  touchSession();
+  return generateWithSessionKey(sessionKey, number, options);
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  bindingConflicts,
+  bindingFromEvent,
+  DEFAULT_KEYMAP,
+  formatBinding,
+  matchesBinding,
+} from "./shortcuts";
+
+// Node has no navigator.platform to look like a Mac, so "Mod" is Ctrl here
+const press = (
+  key: string,
+  mods: Partial<KeyboardEvent> = {},
+  code = ""
+): KeyboardEvent =>
+  ({
+    key,
+    code,
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    metaKey: false,
+    ...mods,
+  } as KeyboardEvent);
+
+describe("matchesBinding", () => {
+  it("matches letters case-insensitively", () => {
+    expect(matchesBinding(press("k", { ctrlKey: true }, "KeyK"), "Mod+K")).toBe(
+      true
+    );
+    expect(matchesBinding(press("K", { ctrlKey: true }, "KeyK"), "Mod+k")).toBe(
+      true
+    );
+  });
+
+  it("needs exactly the bound modifiers", () => {
+    expect(matchesBinding(press("k", {}, "KeyK"), "Mod+K")).toBe(false);
+    expect(
+      matchesBinding(
+        press("K", { ctrlKey: true, shiftKey: true }, "KeyK"),
+        "Mod+K"
+      )
+    ).toBe(false);
+    expect(matchesBinding(press("Enter"), "Enter")).toBe(true);
+    expect(matchesBinding(press("Enter", { altKey: true }), "Enter")).toBe(
+      false
+    );
+  });
+
+  it("binds the plus key with Mod++", () => {
+    expect(matchesBinding(press("+", { ctrlKey: true }), "Mod++")).toBe(true);
+    expect(matchesBinding(press("+"), "Mod++")).toBe(false);
+    expect(matchesBinding(press("=", { ctrlKey: true }), "Mod++")).toBe(false);
+  });
+
+  it("ignores the Shift that types a symbol", () => {
+    expect(matchesBinding(press("?", { shiftKey: true }), "?")).toBe(true);
+    expect(
+      matchesBinding(press("/", { ctrlKey: true }, "Slash"), "Mod+/")
+    ).toBe(true);
+  });
+
+  it("reads modified letters from the physical key", () => {
+    // Alt+C types "ç" on macOS
+    expect(matchesBinding(press("ç", { altKey: true }, "KeyC"), "Alt+C")).toBe(
+      true
+    );
+    expect(
+      matchesBinding(press("1", { altKey: true }, "Digit1"), "Alt+1")
+    ).toBe(true);
+  });
+
+  it("treats Ctrl as Mod off macOS", () => {
+    expect(
+      matchesBinding(press("k", { ctrlKey: true }, "KeyK"), "Ctrl+K")
+    ).toBe(true);
+  });
+
+  it("rejects malformed bindings", () => {
+    expect(matchesBinding(press("k", {}, "KeyK"), "Hyper+K")).toBe(false);
+    expect(matchesBinding(press("k", {}, "KeyK"), "")).toBe(false);
+  });
+});
+
+describe("bindingFromEvent", () => {
+  it("records a key press in the keymap's notation", () => {
+    expect(bindingFromEvent(press("k", { ctrlKey: true }, "KeyK"))).toBe(
+      "Mod+K"
+    );
+    expect(
+      bindingFromEvent(press("ArrowUp", { altKey: true, shiftKey: true }))
+    ).toBe("Alt+Shift+ArrowUp");
+    expect(bindingFromEvent(press("?", { shiftKey: true }))).toBe("?");
+    expect(bindingFromEvent(press(" "))).toBe("Space");
+    expect(bindingFromEvent(press("Shift", { shiftKey: true }))).toBeNull();
+  });
+
+  it("round-trips through matchesBinding", () => {
+    const e = press("+", { ctrlKey: true });
+    expect(matchesBinding(e, bindingFromEvent(e)!)).toBe(true);
+  });
+});
+
+describe("formatBinding", () => {
+  it("spells out modifiers and names arrows", () => {
+    expect(formatBinding("Mod+K")).toBe("Ctrl+K");
+    expect(formatBinding("Alt+ArrowUp")).toBe("Alt+↑");
+    expect(formatBinding("Escape")).toBe("Esc");
+    expect(formatBinding("Mod++")).toBe("Ctrl++");
+    expect(formatBinding("Hyper+K")).toBe("Hyper+K");
+  });
+});
+
+describe("bindingConflicts", () => {
+  it("lists the other actions using a binding", () => {
+    expect(bindingConflicts(DEFAULT_KEYMAP, "lock", "Mod+K")).toEqual([
+      "palette",
+    ]);
+    expect(bindingConflicts(DEFAULT_KEYMAP, "palette", "Mod+K")).toEqual([]);
+    expect(bindingConflicts(DEFAULT_KEYMAP, "lock", "Alt+Z")).toEqual([]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Keyboard shortcuts of the main window
+ * - A binding is text such as "Mod+K" or "Alt+ArrowUp"; "Mod" is Cmd on
+ *   macOS and Ctrl elsewhere, so one keymap works on every platform
+ * - Keys are matched by `KeyboardEvent.key`, so bindings follow the
+ *   keyboard layout; letters and digits held with a modifier use the
+ *   physical key, and letters are case-insensitive
+ * - The keymap is a UI preference kept in localStorage, which the web and
+ *   desktop builds both have
+ */
+
+export const SHORTCUT_ACTIONS = [
+  "generate",
+  "copy",
+  "clear",
+  "palette",
+  "toggle-phrase",
+  "longer",
+  "shorter",
+  "next-mode",
+  "lock",
+  "cheat-sheet",
+] as const;
+export type ShortcutAction = (typeof SHORTCUT_ACTIONS)[number];
+
+export type Keymap = Record<ShortcutAction, string[]>;
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  generate: "Generate (or unlock)",
+  copy: "Copy the result",
+  clear: "Clear the phrase and result",
+  palette: "Switch site / command palette",
+  "toggle-phrase": "Show or hide the phrase",
+  longer: "Longer output",
+  shorter: "Shorter output",
+  "next-mode": "Next output mode",
+  lock: "Lock the session",
+  "cheat-sheet": "Keyboard shortcuts",
+};
+
+export const DEFAULT_KEYMAP: Keymap = {
+  generate: ["Enter"],
+  // Mod+C leaves a text selection to the browser; Alt+C always copies
+  copy: ["Mod+C", "Alt+C"],
+  clear: ["Escape"],
+  palette: ["Mod+K"],
+  "toggle-phrase": ["Alt+H"],
+  longer: ["Alt+ArrowUp"],
+  shorter: ["Alt+ArrowDown"],
+  "next-mode": ["Alt+M"],
+  lock: ["Alt+L"],
+  "cheat-sheet": ["Mod+/"],
+};
+
+const STORAGE_KEY = "passw.shortcuts";
+const MODIFIERS = ["Mod", "Ctrl", "Alt", "Shift"] as const;
+type Modifier = (typeof MODIFIERS)[number];
+
+/** Plain keys still act in fields with this attribute (the phrase field). */
+const SHORTCUT_FIELD_ATTR = "data-shortcuts";
+
+export const isMac =
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+
+interface Combo {
+  modifiers: Set<Modifier>;
+  key: string;
+}
+
+function normalizeKey(key: string): string {
+  if (key === " ") return "Space";
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+function parseBinding(binding: string): Combo | null {
+  // "Mod++" binds the plus key
+  const parts = binding.split(/\+(?!$)/);
+  const key = parts.pop();
+  if (!key) return null;
+  const modifiers = new Set<Modifier>();
+  for (const part of parts) {
+    if (!(MODIFIERS as readonly string[]).includes(part)) return null;
+    // Ctrl is only its own modifier where Mod means Cmd
+    modifiers.add(part === "Ctrl" && !isMac ? "Mod" : (part as Modifier));
+  }
+  return { modifiers, key: normalizeKey(key) };
+}
+
+function eventModifiers(e: KeyboardEvent): Set<Modifier> {
+  const mods = new Set<Modifier>();
+  if (isMac ? e.metaKey : e.ctrlKey) mods.add("Mod");
+  if (isMac && e.ctrlKey) mods.add("Ctrl");
+  if (e.altKey) mods.add("Alt");
+  if (e.shiftKey) mods.add("Shift");
+  return mods;
+}
+
+// Alt changes the character on macOS (Alt+C types "ç"), so modified letters
+// and digits are read from the physical key instead
+function eventKey(e: KeyboardEvent): string {
+  if ((e.altKey || e.ctrlKey || e.metaKey) && /^(Key|Digit)/.test(e.code))
+    return e.code.slice(e.code.startsWith("Key") ? 3 : 5);
+  return normalizeKey(e.key);
+}
+
+function sameModifiers(a: Set<Modifier>, b: Set<Modifier>): boolean {
+  return a.size === b.size && [...a].every((m) => b.has(m));
+}
+
+export function matchesBinding(e: KeyboardEvent, binding: string): boolean {
+  const combo = parseBinding(binding);
+  if (!combo || eventKey(e) !== combo.key) return false;
+  const mods = eventModifiers(e);
+  // Shift is part of printable characters such as "?" on most layouts
+  if (combo.key.length === 1 && !/[A-Z0-9]/.test(combo.key))
+    mods.delete("Shift");
+  return sameModifiers(mods, combo.modifiers);
+}
+
+/** The binding for a key press, or null for a lone modifier key. */
+export function bindingFromEvent(e: KeyboardEvent): string | null {
+  if (["Control", "Meta", "Alt", "Shift", "AltGraph"].includes(e.key))
+    return null;
+  const key = eventKey(e);
+  const mods = eventModifiers(e);
+  if (key.length === 1 && !/[A-Z0-9]/.test(key)) mods.delete("Shift");
+  return [...MODIFIERS.filter((m) => mods.has(m)), key].join("+");
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Escape: "Esc",
+};
+
+/** How a binding is shown: "⌘K" on macOS, "Ctrl+K" elsewhere. */
+export function formatBinding(binding: string): string {
+  const combo = parseBinding(binding);
+  if (!combo) return binding;
+  const names: Record<Modifier, string> = isMac
+    ? { Mod: "⌘", Ctrl: "⌃", Alt: "⌥", Shift: "⇧" }
+    : { Mod: "Ctrl", Ctrl: "Ctrl", Alt: "Alt", Shift: "Shift" };
+  const parts = [
+    ...MODIFIERS.filter((m) => combo.modifiers.has(m)).map((m) => names[m]),
+    KEY_NAMES[combo.key] ?? combo.key,
+  ];
+  return parts.join(isMac ? "" : "+");
+}
+
+function isTextField(el: Element): boolean {
+  if (el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement)
+    return true;
+  if (el instanceof HTMLElement && el.isContentEditable) return true;
+  return (
+    el instanceof HTMLInputElement &&
+    !["button", "checkbox", "radio", "range", "submit", "reset"].includes(
+      el.type
+    )
+  );
+}
+
+function hasTextSelection(target: Element | null): boolean {
+  if (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement
+  ) {
+    try {
+      return target.selectionStart !== target.selectionEnd;
+    } catch {
+      // number inputs and the like have no selection API
+      return false;
+    }
+  }
+  return !(window.getSelection()?.isCollapsed ?? true);
+}
+
+// Plain keys keep their usual meaning on buttons, links and text fields,
+// except in fields marked with SHORTCUT_FIELD_ATTR; Escape always applies
+function focusAllows(binding: string, target: Element | null): boolean {
+  const combo = parseBinding(binding);
+  if (!combo || !target || target === document.body) return true;
+  if ([...combo.modifiers].some((m) => m !== "Shift")) return true;
+  if (combo.key === "Escape") return true;
+  if (target.hasAttribute(SHORTCUT_FIELD_ATTR)) return true;
+  if (combo.key === "Enter")
+    return !target.closest("button, a, select, textarea, input, [role=button]");
+  return !isTextField(target);
+}
+
+/** The action bound to a key press, or null when the browser should have it. */
+export function shortcutFor(
+  e: KeyboardEvent,
+  keymap: Keymap
+): ShortcutAction | null {
+  if (e.isComposing || e.defaultPrevented) return null;
+  const target = e.target instanceof Element ? e.target : null;
+  for (const action of SHORTCUT_ACTIONS) {
+    for (const binding of keymap[action]) {
+      if (!matchesBinding(e, binding) || !focusAllows(binding, target))
+        continue;
+      // Copying selected text stays the browser's job
+      if (action === "copy" && binding === "Mod+C" && hasTextSelection(target))
+        return null;
+      return action;
+    }
+  }
+  return null;
+}
+
+/** Actions other than `action` that already use `binding`. */
+export function bindingConflicts(
+  keymap: Keymap,
+  action: ShortcutAction,
+  binding: string
+): ShortcutAction[] {
+  return SHORTCUT_ACTIONS.filter(
+    (a) => a !== action && keymap[a].includes(binding)
+  );
+}
+
+export function loadKeymap(): Keymap {
+  const keymap = { ...DEFAULT_KEYMAP };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? (JSON.parse(raw) as Partial<Keymap>) : {};
+    for (const action of SHORTCUT_ACTIONS) {
+      const list = saved[action];
+      if (
+        Array.isArray(list) &&
+        list.every((b) => typeof b === "string" && parseBinding(b))
+      )
+        keymap[action] = list;
+    }
+  } catch {
+    // a damaged entry falls back to the defaults
+  }
+  return keymap;
+}
+
+/** Stores only the actions that differ from the defaults. */
+export function saveKeymap(keymap: Keymap): void {
+  const changed: Partial<Keymap> = {};
+  for (const action of SHORTCUT_ACTIONS) {
+    if (keymap[action].join() !== DEFAULT_KEYMAP[action].join())
+      changed[action] = keymap[action];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(changed));
+}
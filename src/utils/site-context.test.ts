@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  entryContext,
+  normalizeContext,
+  parseAliases,
+  publicSuffix,
+  registrableDomain,
+  resolveContext,
+  serializeAliases,
+  validateAlias,
+} from "./site-context";
+
+describe("registrableDomain", () => {
+  it("follows the Public Suffix List", () => {
+    expect(publicSuffix("www.bbc.co.uk")).toBe("co.uk");
+    expect(registrableDomain("www.bbc.co.uk")).toBe("bbc.co.uk");
+    expect(registrableDomain("accounts.google.com")).toBe("google.com");
+    // An unlisted TLD is a suffix of its own
+    expect(registrableDomain("printer.internal-tld")).toBe(
+      "printer.internal-tld"
+    );
+    expect(registrableDomain("co.uk")).toBeNull();
+  });
+});
+
+describe("normalizeContext", () => {
+  it.each([
+    ["https://accounts.google.com/signin", "google.com"],
+    ["Mail.Google.com", "google.com"],
+    ["shop.example.co.uk", "example.co.uk"],
+    ["Bücher.de", "xn--bcher-kva.de"],
+    ["example.com.", "example.com"],
+    ["https://example.com:8443/login", "example.com"],
+    ["example.com:8443", "example.com"],
+  ])("reduces %s to its site", (input, site) => {
+    expect(normalizeContext(input)).toBe(site);
+  });
+
+  it.each([
+    ["user@gmail.com"],
+    ["mailto:x@y.com"],
+    ["https://user@gmail.com/"],
+    ["Work VPN"],
+    ["example.com/login"],
+    ["ssh://git@example.com"],
+  ])("leaves %s as typed", (input) => {
+    expect(normalizeContext(input)).toBe(input);
+  });
+
+  it("keeps the port of a whole host with or without a scheme", () => {
+    expect(normalizeContext("localhost:1420")).toBe("localhost:1420");
+    expect(normalizeContext("http://localhost:1420/x")).toBe("localhost:1420");
+    expect(normalizeContext("http://localhost/x")).toBe("localhost");
+    expect(normalizeContext("192.168.1.1:8080")).toBe("192.168.1.1:8080");
+    expect(normalizeContext("http://192.168.1.1:8080/")).toBe(
+      "192.168.1.1:8080"
+    );
+  });
+
+  it("applies aliases", () => {
+    const aliases = [{ from: "youtube.com", to: "google.com" }];
+    expect(normalizeContext("https://www.youtube.com/", aliases)).toBe(
+      "google.com"
+    );
+    expect(resolveContext("youtube.com", aliases)).toEqual({
+      context: "google.com",
+      site: "youtube.com",
+      alias: aliases[0],
+    });
+  });
+});
+
+describe("entryContext", () => {
+  it("normalises passw contexts only", () => {
+    expect(entryContext("https://www.github.com/login")).toBe("github.com");
+    expect(
+      entryContext("https://www.github.com/login", [], "lesspass-v2")
+    ).toBe("https://www.github.com/login");
+  });
+});
+
+describe("aliases", () => {
+  it("rejects empty, circular and duplicate rules", () => {
+    const existing = [{ from: "youtube.com", to: "google.com" }];
+    expect(validateAlias({ from: "", to: "google.com" })).toEqual([
+      "alias source is required",
+    ]);
+    expect(
+      validateAlias({ from: "https://www.google.com/", to: "google.com" })
+    ).toEqual(["an alias cannot point to itself"]);
+    expect(
+      validateAlias({ from: "www.youtube.com", to: "google.com" }, existing)
+    ).toEqual(["youtube.com already has an alias"]);
+  });
+
+  it("round-trips the aliases file", () => {
+    const aliases = [{ from: "youtube.com", to: "google.com" }];
+    expect(parseAliases(serializeAliases(aliases))).toEqual(aliases);
+    expect(parseAliases(null)).toEqual([]);
+    expect(() => parseAliases('{"version": 2, "aliases": []}')).toThrow(
+      "Aliases file version 2 is newer than this app supports"
+    );
+  });
+});
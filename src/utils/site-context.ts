@@ -0,0 +1,200 @@
+/**
+ * Site contexts from whatever gets typed or pasted
+ * - Only web URLs (http, https, ws, ftp) and bare host names are read as
+ *   sites; they go through the WHATWG URL parser, which lowercases and
+ *   IDNA-encodes the host ("Bücher.de" → "xn--bcher-kva.de")
+ * - Anything with an "@" (an e-mail address, a mailto: link) is left as
+ *   typed rather than cut down to the mail domain
+ * - Hosts are cut down to their registrable domain (eTLD+1) with the
+ *   bundled Public Suffix List: "https://accounts.google.com/" → "google.com",
+ *   "shop.example.co.uk" → "example.co.uk"
+ * - User alias rules then map one site onto another (youtube.com → google.com)
+ * - Anything else ("Work VPN", "example.com/login") only gets `normText`
+ * - `entryContext` is the one place an entered context is normalised: the
+ *   site form, batch lists and the CLI's --context all go through it
+ *
+ * The generators never normalise on their own: a saved context is used as
+ * stored, so normalising is applied when a context is entered, not later.
+ */
+
+import { normText } from "./crypto";
+import type { EngineId } from "./engines";
+import { PUBLIC_SUFFIX_RULES } from "./public-suffix-list";
+
+/** Map every context that resolves to `from` onto `to`. */
+export interface ContextAlias {
+  from: string;
+  to: string;
+}
+
+export interface ResolvedContext {
+  /** what the generator gets */
+  context: string;
+  /** registrable domain (or whole host) read from the input; null for plain text */
+  site: string | null;
+  /** the alias rule that applied, if any */
+  alias?: ContextAlias;
+}
+
+export const ALIASES_FORMAT_VERSION = 1;
+
+interface AliasesFile {
+  version: number;
+  aliases: ContextAlias[];
+}
+
+interface SuffixRules {
+  exact: Set<string>;
+  /** "*.ck" stored as "ck" */
+  wildcard: Set<string>;
+  /** "!www.ck" stored as "www.ck" */
+  exception: Set<string>;
+}
+
+let suffixRules: SuffixRules | null = null;
+
+function rules(): SuffixRules {
+  if (suffixRules) return suffixRules;
+  suffixRules = { exact: new Set(), wildcard: new Set(), exception: new Set() };
+  for (const rule of PUBLIC_SUFFIX_RULES) {
+    if (rule.startsWith("!")) suffixRules.exception.add(rule.slice(1));
+    else if (rule.startsWith("*.")) suffixRules.wildcard.add(rule.slice(2));
+    else suffixRules.exact.add(rule);
+  }
+  return suffixRules;
+}
+
+const WEB_SCHEME = /^(https?|wss?|ftp):\/\//i;
+const ANY_SCHEME = /^[a-z][a-z0-9+.-]*:\/\//i;
+/** A host name with at least one dot, maybe a port: "Bücher.de", "10.0.0.1:8080" */
+const BARE_HOST = /^[\p{L}\p{N}-]+(\.[\p{L}\p{N}-]+)+\.?(:\d{1,5})?$/u;
+const IPV4 = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+interface Host {
+  /** lowercased, in punycode, without a trailing dot */
+  name: string;
+  /** "" for none or the scheme's default */
+  port: string;
+}
+
+// Host of a web URL or a bare host name; null for everything else: plain
+// labels, paths without a scheme, and e-mail addresses or mailto: links,
+// whose "@" the URL parser would read as a user name
+function hostOf(input: string): Host | null {
+  const text = normText(input);
+  if (!text || /\s/.test(text)) return null;
+  if (text.includes("@") || /^mailto:/i.test(text)) return null;
+  const scheme = ANY_SCHEME.test(text);
+  if (scheme ? !WEB_SCHEME.test(text) : !BARE_HOST.test(text)) return null;
+  try {
+    const url = new URL(scheme ? text : `https://${text}`);
+    const name = url.hostname.replace(/\.+$/, "");
+    return name ? { name, port: url.port } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Longest matching public suffix of a lowercase punycode host. */
+export function publicSuffix(host: string): string {
+  const { exact, wildcard, exception } = rules();
+  const labels = host.split(".");
+  for (let i = 0; i < labels.length; i++) {
+    const name = labels.slice(i).join(".");
+    if (exception.has(name)) return labels.slice(i + 1).join(".");
+    if (exact.has(name)) return name;
+    if (i + 1 < labels.length && wildcard.has(labels.slice(i + 1).join(".")))
+      return name;
+  }
+  // The implicit "*" rule: an unlisted TLD is a public suffix
+  return labels[labels.length - 1];
+}
+
+/** eTLD+1 of a host, or null when the host is itself a public suffix. */
+export function registrableDomain(host: string): string | null {
+  const suffix = publicSuffix(host);
+  if (host === suffix) return null;
+  const rest = host.slice(0, -suffix.length - 1).split(".");
+  return `${rest[rest.length - 1]}.${suffix}`;
+}
+
+// A site is its registrable domain, whatever the port. Hosts kept whole (IP
+// addresses, "localhost", public suffixes) keep the port, with or without a
+// scheme, since it is what tells local services apart.
+function siteOf(input: string): string | null {
+  const host = hostOf(input);
+  if (!host) return null;
+  const ip = IPV4.test(host.name) || host.name.startsWith("[");
+  const domain = ip ? null : registrableDomain(host.name);
+  if (domain) return domain;
+  return host.port ? `${host.name}:${host.port}` : host.name;
+}
+
+// Alias ends are compared in normalised form, so "www.youtube.com" works
+function aliasKey(text: string): string {
+  return siteOf(text) ?? normText(text);
+}
+
+export function resolveContext(
+  input: string,
+  aliases: readonly ContextAlias[] = []
+): ResolvedContext {
+  const site = siteOf(input);
+  const key = site ?? normText(input);
+  const alias = aliases.find((a) => aliasKey(a.from) === key);
+  return { context: alias ? aliasKey(alias.to) : key, site, alias };
+}
+
+/** The context to generate with for a URL, host name or plain label. */
+export function normalizeContext(
+  input: string,
+  aliases: readonly ContextAlias[] = []
+): string {
+  return resolveContext(input, aliases).context;
+}
+
+/**
+ * The context to save or generate with for what was entered. passw contexts
+ * are normalised; the compatibility engines salt with the site as typed.
+ */
+export function entryContext(
+  input: string,
+  aliases: readonly ContextAlias[] = [],
+  engine: EngineId = "passw"
+): string {
+  return engine === "passw" ? normalizeContext(input, aliases) : input;
+}
+
+/** Returns a list of problems with the rule, empty when it can be added. */
+export function validateAlias(
+  alias: ContextAlias,
+  existing: readonly ContextAlias[] = []
+): string[] {
+  const errors: string[] = [];
+  const from = aliasKey(alias.from);
+  const to = aliasKey(alias.to);
+  if (!from) errors.push("alias source is required");
+  if (!to) errors.push("alias target is required");
+  if (from && from === to) errors.push("an alias cannot point to itself");
+  if (existing.some((a) => aliasKey(a.from) === from))
+    errors.push(`${from} already has an alias`);
+  return errors;
+}
+
+export function parseAliases(json: string | null | undefined): ContextAlias[] {
+  if (!json) return [];
+  const data = JSON.parse(json) as Partial<AliasesFile>;
+  if ((data.version ?? 1) > ALIASES_FORMAT_VERSION) {
+    throw new Error(
+      `Aliases file version ${data.version} is newer than this app supports`
+    );
+  }
+  return (Array.isArray(data.aliases) ? data.aliases : [])
+    .filter((a) => a && typeof a.from === "string" && typeof a.to === "string")
+    .map((a) => ({ from: a.from, to: a.to }));
+}
+
+export function serializeAliases(aliases: ContextAlias[]): string {
+  const file: AliasesFile = { version: ALIASES_FORMAT_VERSION, aliases };
+  return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,90 @@
+/**
+ * A saved site's current password, for places that generate from the
+ * profile alone (tray popup, browser extension, batch export)
+ * - Engine sites use their engine; v3 sites use the unlocked session and
+ *   unlock it when needed; everything else derives from the phrase
+ */
+
+import {
+  derive,
+  deriveSessionKeyInBackground,
+  type DerivationSlot,
+} from "./derivation-client";
+import type { SiteProfileInput } from "./profiles";
+import { isUnlocked, sessionPassword, startSession } from "./session";
+
+/** Whether the site's password comes from the v3 session. */
+export function usesSession(profile: SiteProfileInput): boolean {
+  return (
+    (profile.engine ?? "passw") === "passw" && profile.algorithmVersion === "v3"
+  );
+}
+
+export function needsMaster(
+  profile: SiteProfileInput,
+  unlocked: boolean
+): boolean {
+  return !(unlocked && usesSession(profile));
+}
+
+/**
+ * The site's current password from its saved settings alone; a v3 site
+ * unlocks the session when it is locked. Derives in the `which` slot.
+ */
+export async function generateForProfile(
+  profile: SiteProfileInput,
+  master: string,
+  iterations: number,
+  which: DerivationSlot = "main"
+): Promise<string> {
+  if (!master && needsMaster(profile, isUnlocked()))
+    throw new Error("Enter the master passphrase");
+  const { context, counter: number, length, policy } = profile;
+  if (profile.engine && profile.engine !== "passw") {
+    return derive(
+      {
+        mode: "engine",
+        engine: profile.engine,
+        master,
+        number,
+        options: {
+          context,
+          length,
+          policy,
+          login: profile.username,
+          fullName: profile.fullName,
+          resultType: profile.resultType,
+        },
+      },
+      undefined,
+      which
+    );
+  }
+  if (usesSession(profile)) {
+    if (!isUnlocked())
+      startSession(
+        await deriveSessionKeyInBackground(
+          { master, options: { iterations } },
+          undefined,
+          which
+        )
+      );
+    return sessionPassword(number, { context, length, policy });
+  }
+  return derive(
+    {
+      mode: "password",
+      master,
+      number,
+      options: {
+        context,
+        length,
+        iterations,
+        policy,
+        algorithmVersion: profile.algorithmVersion,
+      },
+    },
+    undefined,
+    which
+  );
+}
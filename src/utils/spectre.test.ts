@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  renderSpectrePassword,
+  spectreKeyId,
+  spectreMasterKey,
+  spectreSiteKey,
+  type SpectreResultType,
+} from "./spectre";
+
+// Published Spectre (Master Password) v3 vectors: "Robert Lee Mitchell",
+// "banana colored duckling", site "masterpasswordapp.com", counter 1
+const FULL_NAME = "Robert Lee Mitchell";
+const MASTER = "banana colored duckling";
+const SITE = "masterpasswordapp.com";
+const KEY_ID =
+  "98EEF4D1DF46D849574A82A03C3177056B15DFFCA29BB3899DE4628453675302";
+
+const vectors: [SpectreResultType, string][] = [
+  ["maximum", "W6@692^B1#&@gVdSdLZ@"],
+  ["long", "Jejr5[RepuSosp"],
+  ["medium", "Jej2$Quv"],
+  ["short", "Jej2"],
+  ["pin", "7662"],
+  ["name", "jejraquvo"],
+  ["phrase", "jejr quv cabsibu tam"],
+];
+
+describe("Spectre v3", () => {
+  // One scrypt run (N=32768, r=8) for the whole file
+  let masterKey: Promise<Uint8Array>;
+  const key = () => (masterKey ??= spectreMasterKey(FULL_NAME, MASTER));
+
+  it("derives the published master key ID", async () => {
+    expect(await spectreKeyId(await key())).toBe(KEY_ID);
+  }, 120_000);
+
+  it.each(vectors)("renders %s as %s", async (resultType, expected) => {
+    const siteKey = await spectreSiteKey(await key(), SITE, 1);
+    expect(renderSpectrePassword(siteKey, resultType)).toBe(expected);
+  });
+});
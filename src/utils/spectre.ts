@@ -0,0 +1,182 @@
+/**
+ * Spectre (Master Password) algorithm v3 compatible engine
+ * - masterKey = scrypt(master, scope + len(fullName) + fullName, N=32768, r=8, p=2, 64 bytes)
+ * - siteKey = HMAC-SHA256(masterKey, scope + len(siteName) + siteName + counter)
+ * - siteKey[0] picks a template of the result type, siteKey[i + 1] picks
+ *   character i from the template class (classes shared with ./templates)
+ *
+ * Lengths and the counter are big-endian uint32, string lengths count
+ * UTF-8 bytes. Inputs are used exactly as typed, like the reference apps.
+ * Reference vector: "Robert Lee Mitchell" / "banana colored duckling" /
+ * masterpasswordapp.com, counter 1, long -> "Jejr5[RepuSosp".
+ */
+
+import { concatBytes, enc, hmacSha256, sha256 } from "./crypto";
+import { deriveKeyFromBytes, type KdfProgress } from "./kdf";
+import { TEMPLATE_CLASSES } from "./templates";
+
+const SCOPE = "com.lyndir.masterpassword";
+export const SPECTRE_SCRYPT = { cost: 32768, blockSize: 8, parallelism: 2 };
+
+export const SPECTRE_RESULT_TYPES = [
+  "maximum",
+  "long",
+  "medium",
+  "short",
+  "basic",
+  "pin",
+  "name",
+  "phrase",
+] as const;
+export type SpectreResultType = (typeof SPECTRE_RESULT_TYPES)[number];
+export const DEFAULT_SPECTRE_RESULT_TYPE: SpectreResultType = "long";
+
+export const SPECTRE_RESULT_TYPE_LABELS: Record<SpectreResultType, string> = {
+  maximum: "Maximum (20 characters)",
+  long: "Long (14 characters)",
+  medium: "Medium (8 characters)",
+  short: "Short (4 characters)",
+  basic: "Basic (8 letters and digits)",
+  pin: "PIN (4 digits)",
+  name: "Name",
+  phrase: "Phrase",
+};
+
+const SPECTRE_TEMPLATES: Record<SpectreResultType, readonly string[]> = {
+  maximum: ["anoxxxxxxxxxxxxxxxxx", "axxxxxxxxxxxxxxxxxno"],
+  long: [
+    "CvcvnoCvcvCvcv",
+    "CvcvCvcvnoCvcv",
+    "CvcvCvcvCvcvno",
+    "CvccnoCvcvCvcv",
+    "CvccCvcvnoCvcv",
+    "CvccCvcvCvcvno",
+    "CvcvnoCvccCvcv",
+    "CvcvCvccnoCvcv",
+    "CvcvCvccCvcvno",
+    "CvcvnoCvcvCvcc",
+    "CvcvCvcvnoCvcc",
+    "CvcvCvcvCvccno",
+    "CvccnoCvccCvcv",
+    "CvccCvccnoCvcv",
+    "CvccCvccCvcvno",
+    "CvcvnoCvccCvcc",
+    "CvcvCvccnoCvcc",
+    "CvcvCvccCvccno",
+    "CvccnoCvcvCvcc",
+    "CvccCvcvnoCvcc",
+    "CvccCvcvCvccno",
+  ],
+  medium: ["CvcnoCvc", "CvcCvcno"],
+  short: ["Cvcn"],
+  basic: ["aaanaaan", "aannaaan", "aaannaaa"],
+  pin: ["nnnn"],
+  name: ["cvccvcvcv"],
+  phrase: [
+    "cvcc cvc cvccvcv cvc",
+    "cvc cvccvcvcv cvcv",
+    "cv cvccv cvc cvcvccv",
+  ],
+};
+
+/** First template of a result type, enough for strength estimates. */
+export function spectreTemplate(
+  resultType: SpectreResultType = DEFAULT_SPECTRE_RESULT_TYPE
+): string {
+  return SPECTRE_TEMPLATES[resultType][0];
+}
+
+export interface SpectreOptions {
+  fullName: string;
+  siteName: string;
+  counter: number;
+  resultType?: SpectreResultType;
+  onProgress?: KdfProgress;
+}
+
+// scope + uint32 byte length + value
+function scoped(value: string): Uint8Array {
+  const bytes = enc.encode(value);
+  return concatBytes(enc.encode(SCOPE), uint32(bytes.length), bytes);
+}
+
+function uint32(n: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n);
+  return out;
+}
+
+export async function spectreMasterKey(
+  fullName: string,
+  master: string,
+  onProgress?: KdfProgress
+): Promise<Uint8Array> {
+  return deriveKeyFromBytes(
+    enc.encode(master),
+    scoped(fullName),
+    512,
+    { algorithm: "scrypt", ...SPECTRE_SCRYPT },
+    onProgress
+  );
+}
+
+/** Key ID (SHA-256 of the master key) that Spectre shows to confirm the master phrase. */
+export async function spectreKeyId(masterKey: Uint8Array): Promise<string> {
+  const hash = await sha256(masterKey);
+  return Array.from(hash, (b) => b.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+}
+
+export async function spectreSiteKey(
+  masterKey: Uint8Array,
+  siteName: string,
+  counter: number
+): Promise<Uint8Array> {
+  return hmacSha256(masterKey, concatBytes(scoped(siteName), uint32(counter)));
+}
+
+export function renderSpectrePassword(
+  siteKey: Uint8Array,
+  resultType: SpectreResultType = DEFAULT_SPECTRE_RESULT_TYPE
+): string {
+  const templates = SPECTRE_TEMPLATES[resultType];
+  if (!templates) throw new Error(`Unknown Spectre result type: ${resultType}`);
+  const template = templates[siteKey[0] % templates.length];
+  let out = "";
+  for (let i = 0; i < template.length; i++) {
+    const chars = TEMPLATE_CLASSES[template[i]];
+    out += chars[siteKey[i + 1] % chars.length];
+  }
+  return out;
+}
+
+export async function generateSpectre(
+  master: string,
+  options: SpectreOptions
+): Promise<string> {
+  if (!master) throw new Error("Master phrase is required");
+  if (!options.fullName)
+    throw new Error("Spectre needs the full name the passwords were made with");
+  if (
+    !Number.isInteger(options.counter) ||
+    options.counter < 1 ||
+    options.counter > 0xffffffff
+  )
+    throw new Error("Spectre counter must be a whole number >= 1");
+  const masterKey = await spectreMasterKey(
+    options.fullName,
+    master,
+    options.onProgress
+  );
+  try {
+    const siteKey = await spectreSiteKey(
+      masterKey,
+      options.siteName,
+      options.counter
+    );
+    return renderSpectrePassword(siteKey, options.resultType);
+  } finally {
+    masterKey.fill(0);
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { PASSPHRASE_SYMBOLS } from "./pass-generator";
+import type { KdfOptions } from "./kdf";
+import { DIGITS, LOWER, SYMBOLS, UPPER } from "./policy";
+import {
+  formatDuration,
+  guessesPerSecond,
+  outputStrength,
+  phraseStrength,
+} from "./strength";
+
+const PBKDF2: KdfOptions = { algorithm: "pbkdf2", iterations: 600_000 };
+
+describe("outputStrength", () => {
+  it("counts passphrase words from the EFF list", () => {
+    const { bits, score } = outputStrength({ mode: "passphrase", words: 6 });
+    expect(bits).toBeCloseTo(6 * Math.log2(7776));
+    expect(score).toBe(2);
+  });
+
+  it("counts passphrase extras from the sets the generator uses", () => {
+    const plain = outputStrength({ mode: "passphrase", words: 5 }).bits;
+    const both = outputStrength({
+      mode: "passphrase",
+      words: 5,
+      extra: "both",
+    });
+    expect(both.bits - plain).toBeCloseTo(
+      Math.log2(5) +
+        Math.log2(DIGITS.length) +
+        Math.log2(PASSPHRASE_SYMBOLS.length)
+    );
+  });
+
+  it("counts template positions by their class size", () => {
+    const { bits } = outputStrength({ mode: "template", template: "nnnn" });
+    expect(bits).toBeCloseTo(4 * Math.log2(10));
+    expect(outputStrength({ mode: "template", template: "\\-" }).bits).toBe(0);
+  });
+
+  it("rates v1's biased picks below the later versions", () => {
+    const spec = { mode: "password", length: 20 } as const;
+    const v1 = outputStrength({ ...spec, algorithmVersion: "v1" }).bits;
+    const v3 = outputStrength({ ...spec, algorithmVersion: "v3" }).bits;
+    expect(v1).toBeLessThan(v3);
+    expect(v3).toBeCloseTo(
+      20 * Math.log2((LOWER + UPPER + DIGITS + SYMBOLS).length)
+    );
+  });
+
+  it("narrows the estimate to the policy's characters", () => {
+    const { bits } = outputStrength({
+      mode: "password",
+      length: 12,
+      algorithmVersion: "v3",
+      policy: { allowed: "0123456789" },
+    });
+    expect(bits).toBeCloseTo(12 * Math.log2(10));
+  });
+
+  it("caps the estimate at the 256-bit key", () => {
+    const { bits, score } = outputStrength({
+      mode: "password",
+      length: 128,
+      algorithmVersion: "v3",
+    });
+    expect(bits).toBe(256);
+    expect(score).toBe(4);
+  });
+});
+
+describe("guessesPerSecond", () => {
+  it("slows the attacker in proportion to the KDF cost", () => {
+    const fast = guessesPerSecond({ ...PBKDF2, iterations: 100_000 });
+    const slow = guessesPerSecond({ ...PBKDF2, iterations: 1_000_000 });
+    expect(fast / slow).toBeCloseTo(10);
+    const light = guessesPerSecond({
+      algorithm: "argon2id",
+      memoryKiB: 19_456,
+    });
+    const heavy = guessesPerSecond({
+      algorithm: "argon2id",
+      memoryKiB: 65_536,
+    });
+    expect(heavy).toBeLessThan(light);
+  });
+});
+
+describe("formatDuration", () => {
+  it("names the largest whole unit", () => {
+    expect(formatDuration(0.5)).toBe("less than a second");
+    expect(formatDuration(1)).toBe("1 second");
+    expect(formatDuration(90)).toBe("1 minute");
+    expect(formatDuration(3 * 24 * 3600)).toBe("3 days");
+    expect(formatDuration(250 * 365.25 * 24 * 3600)).toBe("2 centuries");
+    expect(formatDuration(1e15)).toBe("millions of years");
+  });
+});
+
+describe("phraseStrength", () => {
+  const kinds = (phrase: string) =>
+    phraseStrength(phrase, PBKDF2).matches.map((m) => m.kind);
+
+  it("finds common passwords, even in l33t", () => {
+    const weak = phraseStrength("p4ssw0rd", PBKDF2);
+    expect(weak.score).toBe(0);
+    expect(weak.matches.map((m) => m.kind)).toEqual(["common"]);
+    expect(weak.warnings).toContain(
+      "Contains one of the most common passwords"
+    );
+    expect(weak.warnings).toContain(
+      "Use a longer phrase, e.g. several random words"
+    );
+  });
+
+  it("names keyboard patterns, sequences, repeats and years", () => {
+    expect(kinds("poiuytrewq")).toEqual(["keyboard"]);
+    expect(kinds("abcdefgh")).toEqual(["sequence"]);
+    expect(kinds("zzzzzzzz")).toEqual(["repeat"]);
+    expect(kinds("Xq1987")).toContain("year");
+  });
+
+  it("rates several random words as strong", () => {
+    const strong = phraseStrength("correct pelican battery lantern", PBKDF2);
+    expect(strong.matches.map((m) => m.kind)).toEqual([
+      "dictionary",
+      "separator",
+      "dictionary",
+      "separator",
+      "dictionary",
+      "separator",
+      "dictionary",
+    ]);
+    expect(strong.score).toBeGreaterThanOrEqual(3);
+    expect(strong.warnings).toEqual([]);
+  });
+
+  it("only adds brute force past the analysed length", () => {
+    const long = "x".repeat(40) + "Tr0ub4dor&3".repeat(8);
+    const { bits } = phraseStrength(long, PBKDF2);
+    expect(Number.isFinite(bits)).toBe(true);
+    expect(bits).toBeGreaterThan(
+      phraseStrength(long.slice(0, 64), PBKDF2).bits
+    );
+  });
+});
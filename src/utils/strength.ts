@@ -0,0 +1,574 @@
+/**
+ * Strength estimates for generated output and for the master phrase
+ * - Output: entropy from the alphabet, length and policy actually used,
+ *   capped by the 256-bit key it is derived from
+ * - Master phrase: zxcvbn-style guess count from the cheapest split into
+ *   dictionary words, keyboard patterns, sequences, repeats, years and
+ *   brute force; runs entirely offline
+ * - Crack time: guesses over an attacker's rate for the configured KDF
+ *
+ * All figures are estimates for orientation, not guarantees.
+ */
+
+import { COMMON_PASSWORDS } from "./common-passwords";
+import { EFF_LARGE_WORDLIST } from "./eff-wordlist";
+import type { KdfOptions } from "./kdf";
+import {
+  PASSPHRASE_SYMBOLS,
+  type AlgorithmVersion,
+  type PassphraseExtra,
+} from "./pass-generator";
+import {
+  DIGITS,
+  LOWER,
+  SYMBOLS,
+  UPPER,
+  resolvePolicy,
+  type CharacterPolicy,
+} from "./policy";
+import { parseTemplate } from "./templates";
+
+export const STRENGTH_LABELS = [
+  "Very weak",
+  "Weak",
+  "Fair",
+  "Strong",
+  "Very strong",
+] as const;
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+// Score thresholds: output entropy in bits, crack time in seconds
+const OUTPUT_BITS_THRESHOLDS = [40, 60, 80, 100];
+const YEAR = 365.25 * 24 * 3600;
+const CRACK_SECONDS_THRESHOLDS = [3600, YEAR, 100 * YEAR, 1e6 * YEAR];
+
+const MAX_KEY_BITS = 256;
+const MAX_ANALYSED_LENGTH = 64;
+
+function scoreFor(value: number, thresholds: number[]): StrengthScore {
+  return thresholds.filter((t) => value >= t).length as StrengthScore;
+}
+
+// ---------- Output entropy ----------
+export type OutputSpec =
+  | {
+      mode: "password";
+      length: number;
+      algorithmVersion: AlgorithmVersion;
+      policy?: CharacterPolicy;
+    }
+  | { mode: "passphrase"; words: number; extra?: PassphraseExtra }
+  | { mode: "template"; template: string };
+
+export interface OutputStrength {
+  bits: number;
+  score: StrengthScore;
+}
+
+// Entropy of one character drawn from n options: exact for v1's `byte % n`,
+// log2(n) for the rejection-sampled versions
+function charBits(n: number, biased: boolean): number {
+  if (n <= 1) return 0;
+  if (!biased || 256 % n === 0) return Math.log2(n);
+  const high = 256 % n;
+  const pHigh = Math.ceil(256 / n) / 256;
+  const pLow = Math.floor(256 / n) / 256;
+  return -(
+    high * pHigh * Math.log2(pHigh) +
+    (n - high) * pLow * Math.log2(pLow)
+  );
+}
+
+function passwordBits(
+  length: number,
+  version: AlgorithmVersion,
+  policy?: CharacterPolicy
+): number {
+  const biased = version === "v1";
+  if (!policy) {
+    // v1 places one character of each class, then fills from all of them
+    const all = LOWER.length + UPPER.length + DIGITS.length + SYMBOLS.length;
+    if (version !== "v1") return length * Math.log2(all);
+    const placed = [LOWER, UPPER, DIGITS, SYMBOLS].reduce(
+      (n, s) => n + charBits(s.length, true),
+      0
+    );
+    return placed + (length - 4) * charBits(all, true);
+  }
+  // Lower bound: minimums from their own class, the rest from all classes
+  const classes = resolvePolicy(policy, length);
+  const pool = classes.reduce((n, c) => n + c.chars.length, 0);
+  let minTotal = 0;
+  let bits = 0;
+  for (const c of classes) {
+    minTotal += c.min;
+    bits += c.min * charBits(c.chars.length, biased);
+  }
+  bits += (length - minTotal) * charBits(pool, biased);
+  const excluded = (policy.noRepeat ? 1 : 0) + (policy.noSequential ? 2 : 0);
+  if (excluded && pool > excluded)
+    bits -= (length - 1) * Math.log2(pool / (pool - excluded));
+  return bits;
+}
+
+export function outputStrength(spec: OutputSpec): OutputStrength {
+  let bits: number;
+  if (spec.mode === "passphrase") {
+    bits = spec.words * Math.log2(EFF_LARGE_WORDLIST.length);
+    const extra = spec.extra ?? "none";
+    if (extra !== "none") bits += Math.log2(spec.words);
+    if (extra === "digit" || extra === "both") bits += Math.log2(DIGITS.length);
+    if (extra === "symbol" || extra === "both")
+      bits += Math.log2(PASSPHRASE_SYMBOLS.length);
+  } else if (spec.mode === "template") {
+    bits = parseTemplate(spec.template).reduce(
+      (n, set) => n + Math.log2(Array.from(set).length),
+      0
+    );
+  } else {
+    bits = passwordBits(spec.length, spec.algorithmVersion, spec.policy);
+  }
+  bits = Math.max(0, Math.min(MAX_KEY_BITS, bits));
+  return { bits, score: scoreFor(bits, OUTPUT_BITS_THRESHOLDS) };
+}
+
+// ---------- Attacker model ----------
+/**
+ * Guesses per second for a well-funded offline attacker (100 high-end GPUs),
+ * scaled from public hashcat-style benchmarks to the KDF's cost settings.
+ */
+const ATTACKER_GPUS = 100;
+const GPU_PBKDF2_SHA256_ITERATIONS_PER_SEC = 9e9;
+// Argon2id at 19 MiB, t = 2 and scrypt at N = 2^14, r = 8, per GPU
+const GPU_ARGON2ID_REFERENCE = { guesses: 1e4, cost: 19_456 * 2 };
+const GPU_SCRYPT_REFERENCE = { guesses: 7e3, cost: 2 ** 14 * 8 };
+
+export function guessesPerSecond(kdf: KdfOptions): number {
+  let perGpu: number;
+  switch (kdf.algorithm) {
+    case "argon2id":
+      perGpu =
+        (GPU_ARGON2ID_REFERENCE.guesses * GPU_ARGON2ID_REFERENCE.cost) /
+        ((kdf.memoryKiB ?? 19_456) * (kdf.timeCost ?? 2));
+      break;
+    case "scrypt":
+      perGpu =
+        (GPU_SCRYPT_REFERENCE.guesses * GPU_SCRYPT_REFERENCE.cost) /
+        ((kdf.cost ?? 2 ** 17) * (kdf.blockSize ?? 8) * (kdf.parallelism ?? 1));
+      break;
+    default:
+      perGpu =
+        GPU_PBKDF2_SHA256_ITERATIONS_PER_SEC / (kdf.iterations ?? 600_000);
+  }
+  return perGpu * ATTACKER_GPUS;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 1) return "less than a second";
+  const units: [number, string][] = [
+    [100 * YEAR, "century"],
+    [YEAR, "year"],
+    [30 * 24 * 3600, "month"],
+    [24 * 3600, "day"],
+    [3600, "hour"],
+    [60, "minute"],
+    [1, "second"],
+  ];
+  if (seconds >= 1e6 * YEAR) return "millions of years";
+  for (const [size, name] of units) {
+    if (seconds >= size) {
+      const n = Math.floor(seconds / size);
+      const plural = name === "century" ? "centuries" : `${name}s`;
+      return `${n} ${n === 1 ? name : plural}`;
+    }
+  }
+  return "less than a second";
+}
+
+// ---------- Master phrase matchers ----------
+export type MatchKind =
+  | "common"
+  | "dictionary"
+  | "keyboard"
+  | "sequence"
+  | "repeat"
+  | "year"
+  | "separator"
+  | "bruteforce";
+
+export interface PhraseMatch {
+  kind: MatchKind;
+  /** start index (inclusive) and end index (exclusive) in code points */
+  i: number;
+  j: number;
+  token: string;
+  /** log2 of the guesses needed for this token */
+  bits: number;
+}
+
+export interface PhraseStrength {
+  /** log2 of the estimated guesses for the whole phrase */
+  bits: number;
+  score: StrengthScore;
+  matches: PhraseMatch[];
+  warnings: string[];
+  crackSeconds: number;
+  crackTime: string;
+}
+
+let commonRanks: Map<string, number> | null = null;
+let dictionary: Set<string> | null = null;
+
+function lookupTables() {
+  commonRanks ??= new Map(COMMON_PASSWORDS.map((w, i) => [w, i + 1]));
+  dictionary ??= new Set(EFF_LARGE_WORDLIST);
+  return { commonRanks, dictionary };
+}
+
+const L33T: Record<string, string[]> = {
+  "4": ["a"],
+  "@": ["a"],
+  "8": ["b"],
+  "3": ["e"],
+  "6": ["g"],
+  "1": ["i", "l"],
+  "!": ["i"],
+  "0": ["o"],
+  $: ["s"],
+  "5": ["s"],
+  "7": ["t"],
+  "+": ["t"],
+  "2": ["z"],
+};
+
+// Lowercased token plus its l33t readings, each with the number of substitutions
+function readings(token: string): [string, number][] {
+  let out: [string, number][] = [["", 0]];
+  for (const ch of token.toLowerCase()) {
+    const subs = L33T[ch];
+    const next: [string, number][] = [];
+    for (const [s, n] of out) {
+      next.push([s + ch, n]);
+      subs?.forEach((sub) => next.push([s + sub, n + 1]));
+    }
+    out = next.slice(0, 16);
+  }
+  return out;
+}
+
+function binomialLog2(n: number, k: number): number {
+  let bits = 0;
+  for (let i = 0; i < k; i++) bits += Math.log2((n - i) / (i + 1));
+  return bits;
+}
+
+// Extra guesses for capitalisation: Title and ALL CAPS are cheap, mixed is not
+function caseBits(token: string): number {
+  const chars = Array.from(token);
+  const upper = chars.filter((c) => c !== c.toLowerCase()).length;
+  const lower = chars.filter((c) => c !== c.toUpperCase()).length;
+  if (upper === 0) return 0;
+  if (lower === 0 || (upper === 1 && chars[0] !== chars[0].toLowerCase()))
+    return 1;
+  let total = 0;
+  for (let k = 1; k <= Math.min(upper, lower); k++)
+    total += 2 ** binomialLog2(upper + lower, k);
+  return Math.log2(total);
+}
+
+function dictionaryMatches(chars: string[]): PhraseMatch[] {
+  const { commonRanks, dictionary } = lookupTables();
+  const matches: PhraseMatch[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    for (let j = i + 3; j <= chars.length; j++) {
+      const token = chars.slice(i, j).join("");
+      for (const [word, subs] of readings(token)) {
+        const rank = commonRanks.get(word);
+        const inDictionary = dictionary.has(word);
+        if (rank === undefined && !inDictionary) continue;
+        const base =
+          rank !== undefined
+            ? Math.log2(rank)
+            : Math.log2(EFF_LARGE_WORDLIST.length / 2);
+        matches.push({
+          kind: rank !== undefined ? "common" : "dictionary",
+          i,
+          j,
+          token,
+          bits: base + caseBits(token) + subs,
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+const KEYBOARD_ROWS = [
+  ["`1234567890-=", "~!@#$%^&*()_+"],
+  ["qwertyuiop[]\\", "QWERTYUIOP{}|"],
+  ["asdfghjkl;'", 'ASDFGHJKL:"'],
+  ["zxcvbnm,./", "ZXCVBNM<>?"],
+];
+// Average neighbours per key on a US QWERTY layout, and keys to start from
+const KEYBOARD_DEGREE = 4.6;
+const KEYBOARD_KEYS = 94;
+
+function keyPosition(ch: string): [number, number, boolean] | null {
+  for (let row = 0; row < KEYBOARD_ROWS.length; row++) {
+    const [plain, shifted] = KEYBOARD_ROWS[row];
+    if (plain.includes(ch)) return [row, plain.indexOf(ch), false];
+    if (shifted.includes(ch)) return [row, shifted.indexOf(ch), true];
+  }
+  return null;
+}
+
+// Rows are staggered: a key touches (row - 1, col) and (row - 1, col + 1)
+function adjacent(a: string, b: string): boolean {
+  const p = keyPosition(a);
+  const q = keyPosition(b);
+  if (!p || !q) return false;
+  const dr = q[0] - p[0];
+  const dc = q[1] - p[1];
+  if (dr === 0) return Math.abs(dc) === 1;
+  if (dr === -1) return dc === 0 || dc === 1;
+  if (dr === 1) return dc === 0 || dc === -1;
+  return false;
+}
+
+function keyboardMatches(chars: string[]): PhraseMatch[] {
+  const matches: PhraseMatch[] = [];
+  let start = 0;
+  for (let k = 1; k <= chars.length; k++) {
+    if (k < chars.length && adjacent(chars[k - 1], chars[k])) continue;
+    if (k - start >= 3) {
+      const token = chars.slice(start, k).join("");
+      const shifted = chars.slice(start, k).some((c) => keyPosition(c)?.[2]);
+      matches.push({
+        kind: "keyboard",
+        i: start,
+        j: k,
+        token,
+        bits:
+          Math.log2(KEYBOARD_KEYS) +
+          (k - start - 1) * Math.log2(KEYBOARD_DEGREE) +
+          (shifted ? 1 : 0),
+      });
+    }
+    start = k;
+  }
+  return matches;
+}
+
+// +1 or -1 between neighbours of the same class (a→b, 3→2), else 0
+function sequenceStep(a: string, b: string): number {
+  const d = b.charCodeAt(0) - a.charCodeAt(0);
+  const sameClass = [LOWER, UPPER, DIGITS].some(
+    (s) => s.includes(a) && s.includes(b)
+  );
+  return sameClass && Math.abs(d) === 1 ? d : 0;
+}
+
+function sequenceMatches(chars: string[]): PhraseMatch[] {
+  const matches: PhraseMatch[] = [];
+  let i = 0;
+  while (i < chars.length - 2) {
+    const delta = sequenceStep(chars[i], chars[i + 1]);
+    if (!delta) {
+      i++;
+      continue;
+    }
+    let j = i + 2;
+    while (j < chars.length && sequenceStep(chars[j - 1], chars[j]) === delta)
+      j++;
+    if (j - i >= 3) {
+      const token = chars.slice(i, j).join("");
+      const obvious = "aAzZ019".includes(token[0]);
+      const base = obvious ? 4 : DIGITS.includes(token[0]) ? 10 : 26;
+      matches.push({
+        kind: "sequence",
+        i,
+        j,
+        token,
+        bits: Math.log2(base * (j - i) * (delta < 0 ? 2 : 1)),
+      });
+    }
+    i = j - 1;
+  }
+  return matches;
+}
+
+function repeatMatches(chars: string[]): PhraseMatch[] {
+  const matches: PhraseMatch[] = [];
+  const text = chars.join("");
+  const re = /(.+?)\1+/gu;
+  for (let m = re.exec(text); m; m = re.exec(text)) {
+    const i = Array.from(text.slice(0, m.index)).length;
+    const j = i + Array.from(m[0]).length;
+    const unit = m[1];
+    const count = Array.from(m[0]).length / Array.from(unit).length;
+    matches.push({
+      kind: "repeat",
+      i,
+      j,
+      token: m[0],
+      bits: bestSplit(Array.from(unit)).bits + Math.log2(count),
+    });
+  }
+  return matches;
+}
+
+const REFERENCE_YEAR = new Date().getFullYear();
+
+function yearMatches(chars: string[]): PhraseMatch[] {
+  const matches: PhraseMatch[] = [];
+  for (let i = 0; i + 4 <= chars.length; i++) {
+    const token = chars.slice(i, i + 4).join("");
+    if (!/^(19|20)\d\d$/.test(token)) continue;
+    const spread = Math.max(Math.abs(Number(token) - REFERENCE_YEAR), 20);
+    matches.push({ kind: "year", i, j: i + 4, token, bits: Math.log2(spread) });
+  }
+  return matches;
+}
+
+// Word separators are a handful of likely choices, not arbitrary symbols
+const SEPARATORS = " -_.,+/";
+
+function separatorMatches(chars: string[]): PhraseMatch[] {
+  return chars.flatMap((token, i) =>
+    SEPARATORS.includes(token)
+      ? [
+          {
+            kind: "separator" as const,
+            i,
+            j: i + 1,
+            token,
+            bits: Math.log2(SEPARATORS.length),
+          },
+        ]
+      : []
+  );
+}
+
+function cardinality(chars: string[]): number {
+  let n = 0;
+  if (chars.some((c) => LOWER.includes(c))) n += 26;
+  if (chars.some((c) => UPPER.includes(c))) n += 26;
+  if (chars.some((c) => DIGITS.includes(c))) n += 10;
+  if (chars.some((c) => c.charCodeAt(0) < 128 && !/[a-z0-9]/i.test(c))) n += 33;
+  if (chars.some((c) => c.charCodeAt(0) >= 128)) n += 100;
+  return Math.max(n, 10);
+}
+
+function log2Factorial(k: number): number {
+  let bits = 0;
+  for (let i = 2; i <= k; i++) bits += Math.log2(i);
+  return bits;
+}
+
+// Cheapest cover of the phrase by matches and brute-force runs; splitting
+// into k pieces costs an extra k! for the attacker's choice of order
+function bestSplit(chars: string[]): { bits: number; matches: PhraseMatch[] } {
+  const n = chars.length;
+  if (n === 0) return { bits: 0, matches: [] };
+  const bruteBits = Math.log2(cardinality(chars));
+  const candidates = [
+    ...dictionaryMatches(chars),
+    ...keyboardMatches(chars),
+    ...sequenceMatches(chars),
+    ...(n > 1 ? repeatMatches(chars) : []),
+    ...yearMatches(chars),
+    ...separatorMatches(chars),
+  ];
+  const endingAt: PhraseMatch[][] = Array.from({ length: n + 1 }, () => []);
+  for (const m of candidates) endingAt[m.j].push(m);
+  for (let j = 1; j <= n; j++)
+    for (let i = 0; i < j; i++)
+      endingAt[j].push({
+        kind: "bruteforce",
+        i,
+        j,
+        token: chars.slice(i, j).join(""),
+        bits: (j - i) * bruteBits,
+      });
+
+  // best[k][j]: cheapest cover of chars[0, j) with exactly k pieces
+  const best: { bits: number; match: PhraseMatch | null }[][] = [
+    Array.from({ length: n + 1 }, (_, j) => ({
+      bits: j === 0 ? 0 : Infinity,
+      match: null,
+    })),
+  ];
+  let answer = { bits: Infinity, k: 0 };
+  for (let k = 1; k <= n; k++) {
+    const row = Array.from({ length: n + 1 }, () => ({
+      bits: Infinity,
+      match: null as PhraseMatch | null,
+    }));
+    for (let j = 1; j <= n; j++) {
+      for (const m of endingAt[j]) {
+        const prev = best[k - 1][m.i].bits;
+        // two brute-force runs in a row are one run
+        if (
+          prev + m.bits < row[j].bits &&
+          !(
+            m.kind === "bruteforce" &&
+            best[k - 1][m.i].match?.kind === "bruteforce"
+          )
+        )
+          row[j] = { bits: prev + m.bits, match: m };
+      }
+    }
+    best.push(row);
+    const total = row[n].bits + log2Factorial(k);
+    if (total < answer.bits) answer = { bits: total, k };
+  }
+
+  const matches: PhraseMatch[] = [];
+  for (let k = answer.k, j = n; k > 0; k--) {
+    const m = best[k][j].match!;
+    matches.unshift(m);
+    j = m.i;
+  }
+  return { bits: answer.bits, matches };
+}
+
+const WARNINGS: Partial<Record<MatchKind, string>> = {
+  common: "Contains one of the most common passwords",
+  keyboard: "Keyboard patterns like qwerty are easy to guess",
+  sequence: "Sequences like abc or 1234 are easy to guess",
+  repeat: "Repeated characters or words are easy to guess",
+  year: "Years are easy to guess",
+};
+
+export function phraseStrength(
+  phrase: string,
+  kdf: KdfOptions
+): PhraseStrength {
+  const all = Array.from(phrase.normalize("NFKC").trim());
+  const chars = all.slice(0, MAX_ANALYSED_LENGTH);
+  const split = bestSplit(chars);
+  // Anything past the analysed prefix only adds brute-force guesses
+  const bits =
+    split.bits + (all.length - chars.length) * Math.log2(cardinality(all));
+
+  const warnings: string[] = [];
+  for (const m of split.matches) {
+    const w = WARNINGS[m.kind];
+    if (w && !warnings.includes(w)) warnings.push(w);
+  }
+  if (split.matches.length === 1 && split.matches[0].kind === "dictionary")
+    warnings.push("A single word is easy to guess");
+  if (all.length < 12)
+    warnings.push("Use a longer phrase, e.g. several random words");
+
+  // On average an attacker finds the phrase halfway through the search
+  const crackSeconds = 2 ** (bits - 1) / guessesPerSecond(kdf);
+  return {
+    bits,
+    score: scoreFor(crackSeconds, CRACK_SECONDS_THRESHOLDS),
+    matches: split.matches,
+    warnings,
+    crackSeconds,
+    crackTime: formatDuration(crackSeconds),
+  };
+}
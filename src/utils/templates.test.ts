@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUILTIN_TEMPLATES,
+  MAX_TEMPLATE_LENGTH,
+  TEMPLATE_CLASSES,
+  parseTemplate,
+  validateTemplate,
+} from "./templates";
+
+describe("parseTemplate", () => {
+  it("gives one character set per position", () => {
+    expect(parseTemplate("Cvn")).toEqual([
+      TEMPLATE_CLASSES.C,
+      TEMPLATE_CLASSES.v,
+      TEMPLATE_CLASSES.n,
+    ]);
+  });
+
+  it("emits escaped characters literally", () => {
+    expect(parseTemplate("n\\-\\\\n")).toEqual([
+      TEMPLATE_CLASSES.n,
+      "-",
+      "\\",
+      TEMPLATE_CLASSES.n,
+    ]);
+  });
+
+  it("accepts every built-in template", () => {
+    for (const t of BUILTIN_TEMPLATES)
+      expect(validateTemplate(t.pattern)).toBe("");
+  });
+});
+
+describe("validateTemplate", () => {
+  it.each([
+    ["", "Template is empty"],
+    ["nn\\", "Template ends with an unfinished \\ escape"],
+    ["nnQn", 'Template character "Q" at position 3 is not a known class'],
+    [
+      "n".repeat(MAX_TEMPLATE_LENGTH + 1),
+      `Template is longer than ${MAX_TEMPLATE_LENGTH} characters`,
+    ],
+  ])("explains what is wrong with %j", (pattern, message) => {
+    expect(validateTemplate(pattern)).toBe(message);
+  });
+
+  it("allows the longest template", () => {
+    expect(validateTemplate("n".repeat(MAX_TEMPLATE_LENGTH))).toBe("");
+  });
+});
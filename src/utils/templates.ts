@@ -0,0 +1,88 @@
+/**
+ * Output templates in the style of Spectre / Master Password
+ * - Each template character names a character class (see TEMPLATE_CLASSES)
+ * - "\" emits the following character literally, e.g. "Cvcc\-nnnn"
+ * - Built-in templates cover PINs, unlock codes and pronounceable passwords
+ */
+
+export const TEMPLATE_CLASSES: Record<string, string> = {
+  V: "AEIOU",
+  C: "BCDFGHJKLMNPQRSTVWXYZ",
+  v: "aeiou",
+  c: "bcdfghjklmnpqrstvwxyz",
+  A: "AEIOUBCDFGHJKLMNPQRSTVWXYZ",
+  a: "AEIOUaeiouBCDFGHJKLMNPQRSTVWXYZbcdfghjklmnpqrstvwxyz",
+  n: "0123456789",
+  o: "@&%?,=[]_:-+*$#!'^~;()/.",
+  x: "AEIOUaeiouBCDFGHJKLMNPQRSTVWXYZbcdfghjklmnpqrstvwxyz0123456789!@#$%^&*()",
+  " ": " ",
+};
+
+export const TEMPLATE_CLASS_LABELS: Record<string, string> = {
+  V: "uppercase vowel",
+  C: "uppercase consonant",
+  v: "vowel",
+  c: "consonant",
+  A: "uppercase letter",
+  a: "letter",
+  n: "digit",
+  o: "symbol",
+  x: "any",
+  " ": "space",
+};
+
+export interface NamedTemplate {
+  id: string;
+  name: string;
+  pattern: string;
+}
+
+export const BUILTIN_TEMPLATES: readonly NamedTemplate[] = [
+  { id: "pin4", name: "PIN (4 digits)", pattern: "nnnn" },
+  { id: "pin6", name: "PIN / phone unlock (6 digits)", pattern: "nnnnnn" },
+  { id: "pin8", name: "PIN (8 digits)", pattern: "nnnnnnnn" },
+  { id: "short", name: "Short", pattern: "Cvcn" },
+  { id: "basic", name: "Basic", pattern: "aaanaaan" },
+  { id: "medium", name: "Medium", pattern: "CvcnoCvc" },
+  { id: "pronounceable", name: "Pronounceable", pattern: "CvccnoCvccno" },
+  { id: "long", name: "Long", pattern: "CvcvnoCvcvCvcv" },
+  { id: "maximum", name: "Maximum", pattern: "anoxxxxxxxxxxxxxxxxx" },
+];
+
+export const MAX_TEMPLATE_LENGTH = 128;
+
+/** Split a template into one character set per output position. */
+export function parseTemplate(pattern: string): string[] {
+  const chars = Array.from(pattern);
+  const sets: string[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const c = chars[i];
+    if (c === "\\") {
+      if (i + 1 >= chars.length)
+        throw new Error("Template ends with an unfinished \\ escape");
+      sets.push(chars[++i]);
+    } else if (c in TEMPLATE_CLASSES) {
+      sets.push(TEMPLATE_CLASSES[c]);
+    } else {
+      throw new Error(
+        `Template character "${c}" at position ${i + 1} is not a known class`
+      );
+    }
+  }
+  if (sets.length === 0) throw new Error("Template is empty");
+  if (sets.length > MAX_TEMPLATE_LENGTH)
+    throw new Error(
+      `Template is longer than ${MAX_TEMPLATE_LENGTH} characters`
+    );
+  return sets;
+}
+
+/** Returns the template error message, or "" when the template is valid. */
+export function validateTemplate(pattern: string): string {
+  try {
+    parseTemplate(pattern);
+    return "";
+  } catch (e: any) {
+    return e?.message ?? String(e);
+  }
+}
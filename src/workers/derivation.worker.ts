@@ -0,0 +1,22 @@
+import {
+  runDerivation,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "@/utils/derivation";
+
+// The app is type-checked against the DOM lib, which has no worker scope types
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+scope.onmessage = async ({ data: { id, request } }) => {
+  try {
+    const value = await runDerivation(request, (progress) =>
+      scope.postMessage({ id, type: "progress", progress })
+    );
+    scope.postMessage({ id, type: "done", value });
+  } catch (e: any) {
+    scope.postMessage({ id, type: "error", message: e?.message ?? String(e) });
+  }
+};
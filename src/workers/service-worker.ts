@@ -0,0 +1,102 @@
+/**
+ * Offline service worker for the static build (`build:pages`)
+ * - Precaches every file of the build on install; pwa-plugin.ts fills in
+ *   `__PASSW_BUILD__` with the version, build id and file list
+ * - Serves only from that cache: every other request, same-origin or not,
+ *   fails instead of going to the network
+ * - A new version waits until the page sends "skip-waiting", which it does
+ *   once the user has reviewed the update
+ */
+
+import type { BuildInfo, ServiceWorkerMessage } from "@/utils/pwa";
+
+declare const __PASSW_BUILD__: BuildInfo;
+
+// The app is type-checked against the DOM lib, which has no worker scope types
+interface LifecycleEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchRequestEvent extends LifecycleEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ClientMessageEvent extends LifecycleEvent {
+  data: ServiceWorkerMessage;
+  ports: readonly MessagePort[];
+}
+
+const scope = self as unknown as {
+  registration: { scope: string };
+  clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(
+    type: "install" | "activate",
+    listener: (event: LifecycleEvent) => void
+  ): void;
+  addEventListener(
+    type: "fetch",
+    listener: (event: FetchRequestEvent) => void
+  ): void;
+  addEventListener(
+    type: "message",
+    listener: (event: ClientMessageEvent) => void
+  ): void;
+};
+
+const BUILD = __PASSW_BUILD__;
+const CACHE_PREFIX = "passw-";
+const CACHE = `${CACHE_PREFIX}${BUILD.build}`;
+
+const urlOf = (file: string) => new URL(file, scope.registration.scope).href;
+
+scope.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) =>
+        cache.addAll(
+          BUILD.files.map((f) => new Request(urlOf(f), { cache: "reload" }))
+        )
+      )
+  );
+});
+
+scope.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith(CACHE_PREFIX) && name !== CACHE)
+          await caches.delete(name);
+      }
+      // The first install takes over the open page, so it works offline
+      // without a reload
+      await scope.clients.claim();
+    })()
+  );
+});
+
+async function fromCache(request: Request): Promise<Response> {
+  const cache = await caches.open(CACHE);
+  const hit =
+    request.mode === "navigate"
+      ? await cache.match(urlOf("index.html"))
+      : await cache.match(request, { ignoreSearch: true, ignoreVary: true });
+  return hit ?? Response.error();
+}
+
+scope.addEventListener("fetch", (event) => {
+  event.respondWith(
+    event.request.method === "GET"
+      ? fromCache(event.request)
+      : Promise.resolve(Response.error())
+  );
+});
+
+scope.addEventListener("message", ({ data, ports }) => {
+  if (data?.type === "build-info") ports[0]?.postMessage(BUILD);
+  else if (data?.type === "skip-waiting") scope.skipWaiting();
+});
+
+export {};
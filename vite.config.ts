@@ -1,6 +1,9 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
+import pwaPlugin from "./pwa-plugin";
+import extensionPlugin from "./extension-plugin";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 
@@ -9,8 +12,39 @@ const host = process.env.TAURI_DEV_HOST as string | undefined;
 // https://vite.dev/config/
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-export default defineConfig(async () => ({
-  plugins: [react(), tailwindcss()],
+export default defineConfig(async ({ isSsrBuild, mode }) => ({
+  // the static site (`build:pages`) is an offline PWA; `build:extension`
+  // adds the extension manifest
+  plugins: [
+    react(),
+    tailwindcss(),
+    mode === "pages" && !isSsrBuild && pwaPlugin(),
+    mode === "extension" && extensionPlugin(),
+  ],
+  // module workers, as created by src/utils/derivation-client.ts
+  worker: { format: "es" as const },
+  // the CLI bundle (`build:cli`) and the extension need none of the static
+  // web assets
+  publicDir: isSsrBuild || mode === "extension" ? (false as const) : "public",
+  // the browser extension (`build:extension`): its popup and options pages
+  ...(mode === "extension" && {
+    build: {
+      outDir: "dist-extension",
+      rollupOptions: {
+        input: {
+          popup: "src/extension/popup.html",
+          options: "src/extension/options.html",
+        },
+        // code shared by both pages
+        output: { chunkFileNames: "assets/shared-[hash].js" },
+      },
+    },
+  }),
+  // `pnpm test`: unit tests next to the modules they cover
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "src"),